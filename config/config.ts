@@ -2,6 +2,9 @@ export const ONE_DAY = 86_400;
 
 // Raffle Rewarder Config
 export const verificationTime = ONE_DAY; // 24h
+export const callbackGasLimit = 120_000; // VRF callback gas with a single random word
+export const requestConfirmations = 3;
+export const prizeClaimPeriod = 5 * ONE_DAY; // 5 days
 
 // Raffle Ticket Purchase Config
 export const ticketPrice = 100n;
@@ -16,6 +16,9 @@ contract RaffleErrors {
     /// @notice Thrown if an invalid ticket amount is specified for purchase.
     error InvalidTicketAmount();
 
+    /// @notice Thrown if the native currency sent with a ticket purchase differs from its cost, or is sent to a raffle paid in an ERC20 token.
+    error IncorrectPaymentAmount();
+
     /// @notice Thrown if a ticket purchase or action is attempted outside of the active raffle period.
     error RaffleNotActive();
 
@@ -69,4 +72,101 @@ contract RaffleErrors {
 
     /// @notice Thrown if rewarding has already started and an attempt is made to start it again.
     error RewardingAlreadyStarted();
+
+    /// @notice Thrown if an operation is not supported by the participants proof type of the raffle.
+    error WrongProofType();
+
+    /// @notice Thrown if a ticket index outside of the sold tickets is provided.
+    error InvalidTicketIndex();
+
+    /// @notice Thrown if the prize list is empty or longer than the maximum number of prizes.
+    error InvalidPrizes();
+
+    /// @notice Thrown if a prize does not exist or has an amount not matching its kind.
+    error InvalidPrize();
+
+    /// @notice Thrown if a prize that has already been claimed or recovered is claimed.
+    error PrizeAlreadyClaimed();
+
+    /// @notice Thrown if the unclaimed prizes are recovered before the raffle has been abandoned, or more than once.
+    error CannotRecoverPrizes();
+
+    /// @notice Thrown if a referral code is empty.
+    error InvalidReferralCode();
+
+    /// @notice Thrown if a referral code is already registered to a referrer.
+    error ReferralCodeAlreadyRegistered();
+
+    /// @notice Thrown if a referral fee exceeds 100% of the ticket revenue.
+    error InvalidReferralFee();
+
+    /// @notice Thrown if a referrer has no referral fees left to claim.
+    error NoReferralFees();
+
+    /// @notice Thrown if a raffle is canceled more than once.
+    error RaffleAlreadyCanceled();
+
+    /// @notice Thrown if a raffle is canceled after its ticket sale funds were withdrawn.
+    error FundsAlreadyWithdrawn();
+
+    /// @notice Thrown if the payouts of a raffle are too many, have a zero recipient or share, or their shares do not add up to 100%.
+    error InvalidPayouts();
+
+    /// @notice Thrown if a ticket sale, withdrawal, draw or claim is attempted while the raffle is paused.
+    error RafflePaused();
+
+    /// @notice Thrown if a randomness request is fulfilled by another caller than the VRF wrapper it was sent to.
+    /// @param have The caller fulfilling the request.
+    /// @param want The VRF wrapper of the raffle.
+    error OnlyVRFWrapperCanFulfill(address have, address want);
+
+    /// @notice Thrown if a randomness request is fulfilled by another caller than the VRF coordinator of the subscription it was charged to.
+    /// @param have The caller fulfilling the request.
+    /// @param want The VRF coordinator of the subscription.
+    error OnlyCoordinatorCanFulfill(address have, address want);
+
+    /// @notice Thrown if the native currency sent with a randomness request is lower than its price, or is sent to a raffle not paying in native currency.
+    error IncorrectRandomnessPayment();
+
+    /// @notice Thrown if the payment mode of a raffle is changed while its randomness request is pending.
+    error RandomnessRequestPending();
+
+    /// @notice Thrown if a raffle is set to pay its randomness requests from a VRF subscription before the subscription is set.
+    error VRFSubscriptionNotSet();
+
+    /// @notice Thrown if the callback gas limit, the confirmation count or the prize claim period of a raffle are out of their bounds.
+    error InvalidRewardingConfig();
+
+    /// @notice Thrown if a raffle contract implementation is not a contract.
+    error InvalidImplementation();
+
+    /// @notice Thrown if the implementations of a version are registered twice.
+    error VersionAlreadyRegistered();
+
+    /// @notice Thrown if a version is activated or cloned before its implementations are registered.
+    error VersionNotRegistered();
+
+    /// @notice Thrown if an upkeep is performed for a raffle with no step to perform.
+    error UpkeepNotNeeded();
+
+    /// @notice Thrown if the purchase gate of a raffle lacks the allowlist root, token or signer its gate type requires.
+    error InvalidPurchaseGate();
+
+    /// @notice Thrown if a purchaser does not meet the purchase gate of a raffle.
+    error PurchaseNotAllowed();
+
+    /// @notice Thrown if a gate proof is not valid for the gate of the raffle and the caller, or its signature expired.
+    error InvalidGateProof();
+
+    /// @notice Thrown if the price windows or discount tiers of a raffle are unsorted, too many or discount the whole ticket price.
+    error InvalidPricing();
+
+    /// @notice Thrown if granting tickets would exceed the maximum number of free tickets of a raffle.
+    error MaxGrantedTicketsReached();
+
+    /// @notice Thrown if a raffle is canceled after referral fees were paid out of the amounts its purchasers would be refunded.
+    error ReferralFeesAlreadyClaimed();
+
+    /// @notice Thrown if the funds of a raffle without payouts are withdrawn before a revenue receiver is set.
+    error RevenueReceiverNotSet();
 }
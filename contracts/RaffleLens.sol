@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {RaffleManager} from "./RaffleManager.sol";
+import {RaffleRewarder} from "./RaffleRewarder.sol";
+
+/// @title Raffle Lens
+/// @dev Batches the reads of the raffles of a RaffleManager for clients. It is deployed apart from the manager, which is close to
+/// the contract size limit, and only relies on the manager views so that it can be redeployed at will.
+contract RaffleLens {
+    /// @notice Structure returned by getRaffles, the details of a raffle with its ID and status.
+    struct RaffleDetails {
+        uint256 id;
+        RaffleManager.Raffle raffle;
+        RaffleRewarder.RaffleStatus status;
+    }
+
+    /// @notice The manager of the raffles read.
+    RaffleManager public immutable raffleManager;
+
+    /// @param _raffleManager The manager of the raffles read.
+    constructor(RaffleManager _raffleManager) {
+        raffleManager = _raffleManager;
+    }
+
+    /// @notice Returns a page of raffles in creation order.
+    /// @param _offset The ID of the first raffle of the page.
+    /// @param _limit The maximum number of raffles returned.
+    /// @return details The details and status of the raffles, empty past the last raffle.
+    function getRaffles(uint256 _offset, uint256 _limit) external view returns (RaffleDetails[] memory details) {
+        uint256 lastRaffleId = raffleManager.lastRaffleId();
+        if (_offset >= lastRaffleId) return details;
+        uint256 count = lastRaffleId - _offset;
+        if (_limit < count) count = _limit;
+
+        details = new RaffleDetails[](count);
+        for (uint256 i = 0; i < count; i++) {
+            details[i] = RaffleDetails(_offset + i, getRaffle(_offset + i), raffleManager.getRaffleStatus(_offset + i));
+        }
+    }
+
+    /// @notice Returns the details of a raffle, including its prizes and winners which the raffles getter of the manager leaves out.
+    /// @param _id The ID of the raffle.
+    /// @return raffle The details of the raffle.
+    function getRaffle(uint256 _id) public view returns (RaffleManager.Raffle memory raffle) {
+        (
+            raffle.raffleTicketPurchase,
+            raffle.raffleRewarder,
+            raffle.purchaseToken,
+            raffle.ticketPrice,
+            raffle.startTimestamp,
+            raffle.finishTimestamp,
+            raffle.minCap,
+            raffle.maxCap,
+            raffle.personalMaxCap,
+            raffle.prize,
+            raffle.participantsProof,
+            raffle.winner,
+            raffle.version,
+            raffle.proofType,
+            raffle.referralFeeBps,
+            raffle.canceled,
+            raffle.paused,
+            raffle.paymentMode,
+            raffle.rewardingConfig
+        ) = raffleManager.raffles(_id);
+        raffle.prizes = raffleManager.getRafflePrizes(_id);
+        raffle.winners = raffleManager.getRaffleWinners(_id);
+    }
+}
@@ -3,16 +3,51 @@ pragma solidity ^0.8.24;
 
 import {TransparentUpgradeableProxy} from "@openzeppelin/contracts-v5/proxy/transparent/TransparentUpgradeableProxy.sol";
 import {Ownable2StepUpgradeable} from "@openzeppelin/contracts-v5-upgradeable/access/Ownable2StepUpgradeable.sol";
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-v5-upgradeable/access/AccessControlUpgradeable.sol";
+import {PausableUpgradeable} from "@openzeppelin/contracts-v5-upgradeable/utils/PausableUpgradeable.sol";
+import {Clones} from "@openzeppelin/contracts-v5/proxy/Clones.sol";
+import {IVRFCoordinatorV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/interfaces/IVRFCoordinatorV2Plus.sol";
+import {AutomationCompatibleInterface} from "@chainlink/contracts/src/v0.8/automation/interfaces/AutomationCompatibleInterface.sol";
 import {IERC20} from "@openzeppelin/contracts-v5/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
+import {IERC721} from "@openzeppelin/contracts-v5/token/ERC721/IERC721.sol";
+import {IERC1155} from "@openzeppelin/contracts-v5/token/ERC1155/IERC1155.sol";
 import {RaffleRewarder, RaffleErrors} from "./RaffleRewarder.sol";
 import {RaffleTicketPurchase} from "./RaffleTicketPurchase.sol";
+import {IReferralRegistry} from "./interfaces/IReferralRegistry.sol";
+import {IRafflePauser} from "./interfaces/IRafflePauser.sol";
+import {ILegacyRaffleRewarder} from "./interfaces/ILegacyRaffleRewarder.sol";
 
 /// @title Raffle Manager
-/// @dev This contract manages decentralized raffle events.
-contract RaffleManager is Ownable2StepUpgradeable, RaffleErrors {
+/// @dev This contract manages decentralized raffle events and is the referral registry and the pauser of the raffles it creates.
+/// Its operations are split between roles administered by DEFAULT_ADMIN_ROLE, the owner only migrates proxies deployed before roles existed.
+/// The ticket purchase and rewarder contracts of the raffles are deployed as ERC-1167 minimal proxy clones of the implementations
+/// registered for the version active when the raffle is created. It is compatible with Chainlink Automation, which can request the randomness
+/// and determine the winners of the raffles that need no off-chain input. Pages of raffles with their status are read through RaffleLens,
+/// deployed apart as the manager is close to the contract size limit.
+contract RaffleManager is
+    Ownable2StepUpgradeable,
+    AccessControlUpgradeable,
+    PausableUpgradeable,
+    RaffleErrors,
+    IReferralRegistry,
+    IRafflePauser,
+    AutomationCompatibleInterface
+{
     using SafeERC20 for IERC20;
 
+    /// @notice Structure to store the contract and token id of a prize, the storage layout of prizes before they had a kind and an amount.
+    struct PrizeSummary {
+        address contractAddress;
+        uint256 tokenId;
+    }
+
+    /// @notice Structure to store the implementations cloned for the raffle contracts of a version.
+    struct Implementations {
+        address raffleTicketPurchase;
+        address raffleRewarder;
+    }
+
     /// @notice Structure to store information about each raffle.
     struct Raffle {
         RaffleTicketPurchase raffleTicketPurchase;
@@ -24,19 +59,45 @@ contract RaffleManager is Ownable2StepUpgradeable, RaffleErrors {
         uint256 minCap;
         uint256 maxCap;
         uint256 personalMaxCap;
-        RaffleRewarder.Prize prize;
+        PrizeSummary prize; // First prize, the full list is in prizes
         bytes32 participantsProof;
-        address winner;
-        bytes1 version;
+        address winner; // Winner of the first prize, the full list is in winners
+        bytes1 version; // Version of the implementations cloned for the raffle contracts
+        RaffleRewarder.ProofType proofType;
+        RaffleRewarder.Prize[] prizes;
+        address[] winners;
+        uint256 referralFeeBps;
+        bool canceled;
+        bool paused; // Paused on its own, the raffle is also paused while the manager is paused
+        RaffleRewarder.PaymentMode paymentMode;
+        RaffleRewarder.RewardingConfig rewardingConfig; // Set when rewarding starts
     }
 
+    /// @notice The basis points of a referral fee paying the whole ticket price, mirrors RaffleTicketPurchase.MAX_REFERRAL_FEE_BPS.
+    uint256 public constant MAX_REFERRAL_FEE_BPS = 10_000;
+
+    /// @notice Role allowed to create and cancel raffles.
+    bytes32 public constant RAFFLE_CREATOR_ROLE = keccak256("RAFFLE_CREATOR_ROLE");
+
+    /// @notice Role allowed to start rewarding raffles, escrowing their prizes, and to recover the prizes of abandoned raffles.
+    bytes32 public constant REWARDING_OPERATOR_ROLE = keccak256("REWARDING_OPERATOR_ROLE");
+
+    /// @notice Role allowed to set the referral fee and the revenue receiver, push refunds and withdraw excess tokens.
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+
+    /// @notice Role allowed to change the Chainlink VRF wrapper, the VRF subscription and how the raffles pay for their randomness.
+    bytes32 public constant VRF_ADMIN_ROLE = keccak256("VRF_ADMIN_ROLE");
+
+    /// @notice Role allowed to pause raffle operations.
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
     /// @notice Address of the Chainlink VRF v2 wrapper.
     address public vrfV2Wrapper;
 
     /// @notice Counter for the total number of raffles created.
     uint256 public lastRaffleId;
 
-    /// @notice Version of the contract.
+    /// @notice Active version, whose implementations are cloned for new raffles.
     bytes1 public version;
 
     /// @notice Mapping to conveniently check if a raffle contract is legit.
@@ -45,6 +106,27 @@ contract RaffleManager is Ownable2StepUpgradeable, RaffleErrors {
     /// @notice Mapping from raffle ID to raffle struct.
     mapping(uint256 => Raffle) public raffles;
 
+    /// @notice Mapping from the hash of a referral code to the referrer who registered it.
+    mapping(bytes32 => address) public referrers;
+
+    /// @notice Share of the revenue of referred tickets paid to their referrer in new raffles, in basis points.
+    uint256 public referralFeeBps;
+
+    /// @notice Mapping from a version to the implementations cloned for its raffle contracts.
+    mapping(bytes1 => Implementations) public implementations;
+
+    /// @notice Registered versions, in registration order.
+    bytes1[] private versions;
+
+    /// @notice Mapping from a version to the IDs of the raffles created with it.
+    mapping(bytes1 => uint256[]) private versionRaffles;
+
+    /// @notice The VRF subscription owned by this contract, charged for the randomness of the raffles in Subscription payment mode.
+    RaffleRewarder.VRFSubscription public vrfSubscription;
+
+    /// @notice The address receiving the ticket revenue of the raffles without payouts, set by the treasurer.
+    address public revenueReceiver;
+
     /// @notice Event emitted when a new raffle is created.
     /// @param id The ID of the created raffle.
     /// @param raffle The details of the created raffle.
@@ -52,21 +134,77 @@ contract RaffleManager is Ownable2StepUpgradeable, RaffleErrors {
 
     /// @notice Event emitted when rewarding starts for a raffle.
     /// @param id The ID of the raffle that started rewarding.
-    event RewardingStarted(uint256 id);
+    /// @param rewardingConfig The randomness and claim parameters of the raffle.
+    event RewardingStarted(uint256 id, RaffleRewarder.RewardingConfig rewardingConfig);
 
-    /// @notice Event emitted when a winner is determined for a raffle.
-    /// @param id The ID of the raffle for which the winner is determined.
-    /// @param winner The address of the determined winner.
-    event WinnerDetermined(uint256 id, address winner);
+    /// @notice Event emitted when the winners are determined for a raffle.
+    /// @param id The ID of the raffle for which the winners are determined.
+    /// @param winners The address of the winner of each prize, address(0) for a prize left unawarded.
+    event WinnerDetermined(uint256 id, address[] winners);
 
     /// @notice Event emitted when vrfV2Wrapper contract is updated.
     /// @param vrfV2wrapper The address of the vrfV2Wrapper contract.
     event WrapperSet(address vrfV2wrapper);
 
+    /// @notice Event emitted when a raffle is canceled.
+    /// @param id The ID of the canceled raffle.
+    event RaffleCanceled(uint256 id);
+
+    /// @notice Event emitted when a referral code is registered.
+    /// @param code The referral code.
+    /// @param referrer The address of the referrer who registered the code.
+    event ReferralCodeRegistered(string code, address indexed referrer);
+
+    /// @notice Event emitted when the referral fee of new raffles is updated.
+    /// @param referralFeeBps The share of the revenue of referred tickets paid to their referrer, in basis points.
+    event ReferralFeeSet(uint256 referralFeeBps);
+
+    /// @notice Event emitted when the revenue receiver is updated.
+    /// @param receiver The address receiving the ticket revenue of the raffles without payouts.
+    event RevenueReceiverSet(address receiver);
+
+    /// @notice Event emitted when a raffle is paused or unpaused on its own.
+    /// @param id The ID of the raffle.
+    /// @param paused Whether the raffle is paused.
+    event RafflePauseSet(uint256 id, bool paused);
+
+    /// @notice Event emitted when the implementations of a version are registered.
+    /// @param version The version.
+    /// @param raffleTicketPurchaseImplementation The implementation of the ticket purchase contracts.
+    /// @param raffleRewarderImplementation The implementation of the rewarder contracts.
+    event VersionRegistered(bytes1 version, address raffleTicketPurchaseImplementation, address raffleRewarderImplementation);
+
+    /// @notice Event emitted when the active version is changed.
+    /// @param version The version whose implementations are cloned for new raffles.
+    event ActiveVersionSet(bytes1 version);
+
+    /// @notice Event emitted when the VRF subscription is set.
+    /// @param coordinator The VRF coordinator of the subscription.
+    /// @param subscriptionId The ID of the subscription.
+    /// @param keyHash The gas lane of the requests.
+    /// @param nativePayment Whether the subscription is charged in native currency instead of LINK.
+    event VRFSubscriptionSet(address coordinator, uint256 subscriptionId, bytes32 keyHash, bool nativePayment);
+
+    /// @notice Event emitted when the VRF subscription is canceled.
+    /// @param subscriptionId The ID of the subscription.
+    /// @param receiver The address receiving the remaining balance of the subscription.
+    event VRFSubscriptionCanceled(uint256 subscriptionId, address receiver);
+
+    /// @notice Event emitted when the payment mode of the randomness requests of a raffle is set.
+    /// @param id The ID of the raffle.
+    /// @param paymentMode How the randomness requests are paid.
+    event RafflePaymentModeSet(uint256 id, RaffleRewarder.PaymentMode paymentMode);
+
+    /// @notice Event emitted when the next step of a raffle is performed by the automation.
+    /// @param id The ID of the raffle.
+    /// @param action The step performed.
+    event UpkeepPerformed(uint256 id, RaffleRewarder.UpkeepAction action);
+
     /// @notice Modifier to validate if the raffle ID is valid.
+    /// @dev The ID of the next raffle is rejected too, its slot must stay empty until the raffle is created.
     /// @param _id The ID of the raffle to validate.
     modifier isValidRaffle(uint256 _id) {
-        if (_id > lastRaffleId) revert InvalidId();
+        _checkValidRaffle(_id);
         _;
     }
 
@@ -77,19 +215,28 @@ contract RaffleManager is Ownable2StepUpgradeable, RaffleErrors {
 
     /// @notice Initializes the contract replacing constructor for upgradeable contracts.
     /// @param _vrfV2Wrapper The address of the Chainlink VRF v2 wrapper.
-    function initialize(address _vrfV2Wrapper) external initializer {
-        __RaffleManager_init(_vrfV2Wrapper);
+    /// @param _raffleTicketPurchaseImplementation The implementation cloned for the ticket purchase contracts of the first version.
+    /// @param _raffleRewarderImplementation The implementation cloned for the rewarder contracts of the first version.
+    function initialize(address _vrfV2Wrapper, address _raffleTicketPurchaseImplementation, address _raffleRewarderImplementation) external initializer {
+        __RaffleManager_init(_vrfV2Wrapper, _raffleTicketPurchaseImplementation, _raffleRewarderImplementation);
+    }
+
+    /// @notice Grants every role to the owner of a proxy deployed before roles existed, to be called when upgrading it.
+    /// @dev Proxies initialized with roles can call it once too, which only grants the owner the roles it may have given up.
+    function initializeRoles() external reinitializer(2) onlyOwner {
+        _grantRoles(owner());
     }
 
     /// @notice Creates a new raffle with specified parameters.
-    /// @param _purchaseToken ERC20 token address used for purchasing tickets.
+    /// @param _purchaseToken ERC20 token address used for purchasing tickets, RaffleTicketPurchase.NATIVE_CURRENCY for the native currency.
     /// @param _ticketPrice Price per ticket.
     /// @param _startTimestamp Start time of the raffle.
     /// @param _finishTimestamp End time of the raffle.
     /// @param _minTickets Minimum ticket sales required for the raffle to be successful.
     /// @param _maxTickets Maximum number of tickets that can be sold.
     /// @param _personalMaxTickets Maximum number of tickets an individual can purchase.
-    /// @dev Emits a RaffleCreated event on success.
+    /// @dev Emits a RaffleCreated event on success. The raffle pays the current referral fee to its referrers and its revenue to the revenue
+    /// receiver when it has no payouts.
     function createNewRaffle(
         address _purchaseToken,
         uint256 _ticketPrice,
@@ -98,109 +245,533 @@ contract RaffleManager is Ownable2StepUpgradeable, RaffleErrors {
         uint256 _minTickets,
         uint256 _maxTickets,
         uint256 _personalMaxTickets
-    ) external onlyOwner {
-        RaffleTicketPurchase raffleTicketPurchase = new RaffleTicketPurchase(
-            lastRaffleId,
-            _purchaseToken,
-            _ticketPrice,
-            _startTimestamp,
-            _finishTimestamp,
-            _minTickets,
-            _maxTickets,
-            _personalMaxTickets,
-            version
-        );
-
-        knownRaffles[address(raffleTicketPurchase)] = true;
-
-        raffles[lastRaffleId] = Raffle(
-            raffleTicketPurchase,
-            RaffleRewarder(address(0)),
-            _purchaseToken,
-            _ticketPrice,
-            _startTimestamp,
-            _finishTimestamp,
-            _minTickets,
-            _maxTickets,
-            _personalMaxTickets,
-            RaffleRewarder.Prize(address(0), 0),
-            bytes32(0),
-            address(0),
-            version
-        );
-
-        lastRaffleId += 1;
+    ) external onlyRole(RAFFLE_CREATOR_ROLE) {
+        RaffleTicketPurchase.SaleOptions memory options;
+        _createNewRaffle(_purchaseToken, _ticketPrice, _startTimestamp, _finishTimestamp, _minTickets, _maxTickets, _personalMaxTickets, options);
+    }
 
-        emit RaffleCreated(lastRaffleId - 1, raffles[lastRaffleId - 1]);
+    /// @notice Creates a new raffle with specified parameters and sale options.
+    /// @param _purchaseToken ERC20 token address used for purchasing tickets, RaffleTicketPurchase.NATIVE_CURRENCY for the native currency.
+    /// @param _ticketPrice Price per ticket before discounts.
+    /// @param _startTimestamp Start time of the raffle.
+    /// @param _finishTimestamp End time of the raffle.
+    /// @param _minTickets Minimum ticket sales required for the raffle to be successful.
+    /// @param _maxTickets Maximum number of tickets that can be sold.
+    /// @param _personalMaxTickets Maximum number of tickets an individual can purchase, unless the purchase gate approves another cap.
+    /// @param _options The revenue payouts, purchase gate, pricing and free tickets cap of the sale, see RaffleTicketPurchase.SaleOptions.
+    /// @dev Emits a RaffleCreated event on success, recording the undiscounted ticket price. The raffle pays the current referral fee to its referrers.
+    function createNewRaffleWithOptions(
+        address _purchaseToken,
+        uint256 _ticketPrice,
+        uint256 _startTimestamp,
+        uint256 _finishTimestamp,
+        uint256 _minTickets,
+        uint256 _maxTickets,
+        uint256 _personalMaxTickets,
+        RaffleTicketPurchase.SaleOptions calldata _options
+    ) external onlyRole(RAFFLE_CREATOR_ROLE) {
+        _createNewRaffle(_purchaseToken, _ticketPrice, _startTimestamp, _finishTimestamp, _minTickets, _maxTickets, _personalMaxTickets, _options);
     }
 
     /// @notice Starts the rewarding process for a specified raffle.
     /// @param _id The ID of the raffle to start rewarding for.
-    /// @param _prize The prize details for the reward.
+    /// @param _prizes The prizes details for the reward, in award order, escrowed from the caller who must have approved this contract.
+    /// @param _allowMultipleWins Whether an address can win more than one prize.
     /// @param _participantsProof A proof hash of the participants involved.
+    /// @param _rewardingConfig The randomness and claim parameters of the raffle.
+    /// @dev Requires the raffle tickets sale to be successful to proceed.
+    function startRewarding(
+        uint256 _id,
+        RaffleRewarder.Prize[] calldata _prizes,
+        bool _allowMultipleWins,
+        bytes32 _participantsProof,
+        RaffleRewarder.RewardingConfig calldata _rewardingConfig
+    ) external onlyRole(REWARDING_OPERATOR_ROLE) isValidRaffle(_id) {
+        _startRewarding(_id, _prizes, _allowMultipleWins, _participantsProof, RaffleRewarder.ProofType.ParticipantsHash, _rewardingConfig);
+    }
+
+    /// @notice Starts the rewarding process for a specified raffle, committing to the participants with a Merkle root.
+    /// @param _id The ID of the raffle to start rewarding for.
+    /// @param _prizes The prizes details for the reward, in award order, escrowed from the caller who must have approved this contract.
+    /// @param _allowMultipleWins Whether an address can win more than one prize.
+    /// @param _merkleRoot The root of the Merkle tree of the participants involved.
+    /// @param _rewardingConfig The randomness and claim parameters of the raffle.
     /// @dev Requires the raffle tickets sale to be successful to proceed.
-    function startRewarding(uint256 _id, RaffleRewarder.Prize calldata _prize, bytes32 _participantsProof) external onlyOwner isValidRaffle(_id) {
+    function startRewardingWithMerkleRoot(
+        uint256 _id,
+        RaffleRewarder.Prize[] calldata _prizes,
+        bool _allowMultipleWins,
+        bytes32 _merkleRoot,
+        RaffleRewarder.RewardingConfig calldata _rewardingConfig
+    ) external onlyRole(REWARDING_OPERATOR_ROLE) isValidRaffle(_id) {
+        _startRewarding(_id, _prizes, _allowMultipleWins, _merkleRoot, RaffleRewarder.ProofType.MerkleRoot, _rewardingConfig);
+    }
+
+    /// @notice Starts the rewarding process for a specified raffle, drawing the winners from the on-chain ticket ledger.
+    /// @param _id The ID of the raffle to start rewarding for.
+    /// @param _prizes The prizes details for the reward, in award order, escrowed from the caller who must have approved this contract.
+    /// @param _allowMultipleWins Whether an address can win more than one prize.
+    /// @param _rewardingConfig The randomness and claim parameters of the raffle.
+    /// @dev Requires the raffle tickets sale to be successful to proceed.
+    function startRewardingWithTicketLedger(
+        uint256 _id,
+        RaffleRewarder.Prize[] calldata _prizes,
+        bool _allowMultipleWins,
+        RaffleRewarder.RewardingConfig calldata _rewardingConfig
+    ) external onlyRole(REWARDING_OPERATOR_ROLE) isValidRaffle(_id) {
+        _startRewarding(_id, _prizes, _allowMultipleWins, bytes32(0), RaffleRewarder.ProofType.TicketLedger, _rewardingConfig);
+    }
+
+    /// @notice Cancels a raffle that has not started rewarding, letting its purchasers claim a refund right away.
+    /// @dev A raffle whose referrers already claimed their fees cannot be canceled.
+    /// @param _id The ID of the raffle to cancel.
+    function cancelRaffle(uint256 _id) external onlyRole(RAFFLE_CREATOR_ROLE) isValidRaffle(_id) {
         Raffle storage raffle = raffles[_id];
-        if (!raffle.raffleTicketPurchase.isSuccessful()) revert RaffleNotSuccessful();
         if (address(raffle.raffleRewarder) != address(0)) revert RewardingAlreadyStarted();
 
-        raffle.raffleTicketPurchase.withdrawFunds(msg.sender);
+        raffle.canceled = true;
+        raffle.raffleTicketPurchase.cancel();
 
-        RaffleRewarder raffleRewarder = new RaffleRewarder(_id, _prize, _participantsProof, vrfV2Wrapper, version);
+        emit RaffleCanceled(_id);
+    }
 
-        knownRaffles[address(raffleRewarder)] = true;
+    /// @notice Pushes the refunds of a failed or canceled raffle to its purchasers.
+    /// @param _id The ID of the raffle to refund.
+    /// @param _purchasers The purchasers to refund, paginated to fit in a block. Purchasers already refunded are skipped.
+    function refundPurchasers(uint256 _id, address[] calldata _purchasers) external onlyRole(TREASURER_ROLE) isValidRaffle(_id) {
+        raffles[_id].raffleTicketPurchase.refundPurchasers(_purchasers);
+    }
 
-        raffle.raffleRewarder = raffleRewarder;
-        raffle.prize = _prize;
-        raffle.participantsProof = _participantsProof;
+    /// @notice Grants free tickets of a raffle, up to the maximum set by its sale options, until its sale finishes.
+    /// @param _id The ID of the raffle.
+    /// @param _recipients The addresses receiving the tickets.
+    /// @param _ticketAmount The number of tickets granted to each recipient.
+    function grantTickets(uint256 _id, address[] calldata _recipients, uint256 _ticketAmount) external onlyRole(RAFFLE_CREATOR_ROLE) isValidRaffle(_id) {
+        raffles[_id].raffleTicketPurchase.grantTickets(_recipients, _ticketAmount);
+    }
+
+    /// @notice Pauses every raffle, halting their ticket sales, withdrawals, draws and claims. Refunds stay available.
+    /// @dev The prize claim periods keep running while paused, but the unclaimed prizes cannot be recovered until the raffle is unpaused.
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
 
-        emit RewardingStarted(_id);
+    /// @notice Lifts the global pause, raffles paused on their own stay paused.
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /// @notice Pauses or unpauses a single raffle, halting its ticket sales, withdrawals, draws and claims. Refunds stay available.
+    /// @param _id The ID of the raffle.
+    /// @param _paused Whether the raffle is paused.
+    function setRafflePaused(uint256 _id, bool _paused) external onlyRole(PAUSER_ROLE) isValidRaffle(_id) {
+        raffles[_id].paused = _paused;
+
+        emit RafflePauseSet(_id, _paused);
     }
 
     /// @notice Set the new address for vrfV2Wrapper contract.
     /// @param _vrfV2Wrapper The address of the new vrfV2Wrapper contract.
-    function setWrapper(address _vrfV2Wrapper) external onlyOwner {
+    function setWrapper(address _vrfV2Wrapper) external onlyRole(VRF_ADMIN_ROLE) {
         _setWrapper(_vrfV2Wrapper);
     }
 
-    /// @notice Requests randomness for a specified raffle.
+    /// @notice Sets the VRF subscription charged for the randomness of the raffles in Subscription payment mode.
+    /// @dev A subscription owned by this contract is created on a new coordinator, the subscription is kept when only the key hash
+    /// or the payment currency change. Anyone can fund it through the coordinator.
+    /// @param _coordinator The VRF coordinator.
+    /// @param _keyHash The gas lane of the requests.
+    /// @param _nativePayment Whether the subscription is charged in native currency instead of LINK.
+    function setVRFSubscription(address _coordinator, bytes32 _keyHash, bool _nativePayment) external onlyRole(VRF_ADMIN_ROLE) {
+        uint256 subscriptionId = vrfSubscription.subscriptionId;
+        if (_coordinator != vrfSubscription.coordinator) subscriptionId = IVRFCoordinatorV2Plus(_coordinator).createSubscription();
+        vrfSubscription = RaffleRewarder.VRFSubscription(_coordinator, subscriptionId, _keyHash, _nativePayment);
+
+        emit VRFSubscriptionSet(_coordinator, subscriptionId, _keyHash, _nativePayment);
+    }
+
+    /// @notice Cancels the VRF subscription, transferring its remaining balance.
+    /// @dev Raffles in Subscription payment mode cannot request randomness until set to another payment mode or subscription.
+    /// @param _receiver The address receiving the remaining balance of the subscription.
+    function cancelVRFSubscription(address _receiver) external onlyRole(TREASURER_ROLE) {
+        uint256 subscriptionId = vrfSubscription.subscriptionId;
+        if (vrfSubscription.coordinator == address(0)) revert VRFSubscriptionNotSet();
+        IVRFCoordinatorV2Plus(vrfSubscription.coordinator).cancelSubscription(subscriptionId, _receiver);
+        delete vrfSubscription;
+
+        emit VRFSubscriptionCanceled(subscriptionId, _receiver);
+    }
+
+    /// @notice Sets how the randomness requests of a raffle are paid, applied to its rewarder if rewarding has started.
+    /// @dev The rewarder is added as a consumer of the VRF subscription in Subscription payment mode.
+    /// @param _id The ID of the raffle.
+    /// @param _paymentMode How the randomness requests are paid.
+    function setRafflePaymentMode(uint256 _id, RaffleRewarder.PaymentMode _paymentMode) external onlyRole(VRF_ADMIN_ROLE) isValidRaffle(_id) {
+        Raffle storage raffle = raffles[_id];
+        if (_paymentMode == RaffleRewarder.PaymentMode.Subscription && vrfSubscription.coordinator == address(0)) revert VRFSubscriptionNotSet();
+        raffle.paymentMode = _paymentMode;
+        if (address(raffle.raffleRewarder) != address(0)) _configureRandomnessPayment(raffle);
+
+        emit RafflePaymentModeSet(_id, _paymentMode);
+    }
+
+    /// @notice Removes the rewarder of a raffle from the consumers of the VRF subscription, which accepts a limited number of consumers.
+    /// @dev The raffle cannot request randomness from the subscription until its payment mode is set again.
+    /// @param _id The ID of the raffle.
+    function removeVRFConsumer(uint256 _id) external onlyRole(VRF_ADMIN_ROLE) isValidRaffle(_id) {
+        if (vrfSubscription.coordinator == address(0)) revert VRFSubscriptionNotSet();
+        IVRFCoordinatorV2Plus(vrfSubscription.coordinator).removeConsumer(vrfSubscription.subscriptionId, address(raffles[_id].raffleRewarder));
+    }
+
+    /// @notice Registers the implementations of a new version, to be activated with setActiveVersion.
+    /// @dev The implementations of a version cannot be replaced, a fix is released as a new version. Proxies upgraded from the version
+    /// deploying full contracts must register their current version for its raffles to start rewarding.
+    /// @param _version The version, not registered yet.
+    /// @param _raffleTicketPurchaseImplementation The implementation of the ticket purchase contracts.
+    /// @param _raffleRewarderImplementation The implementation of the rewarder contracts.
+    function registerVersion(
+        bytes1 _version,
+        address _raffleTicketPurchaseImplementation,
+        address _raffleRewarderImplementation
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _registerVersion(_version, _raffleTicketPurchaseImplementation, _raffleRewarderImplementation);
+    }
+
+    /// @notice Sets the version cloned for the raffles created from now on, existing raffles keep the version they were created with.
+    /// @param _version The version, already registered.
+    function setActiveVersion(bytes1 _version) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setActiveVersion(_version);
+    }
+
+    /// @notice Set the referral fee of the raffles created from now on.
+    /// @param _referralFeeBps The share of the revenue of referred tickets paid to their referrer, in basis points.
+    function setReferralFee(uint256 _referralFeeBps) external onlyRole(TREASURER_ROLE) {
+        if (_referralFeeBps > MAX_REFERRAL_FEE_BPS) revert InvalidReferralFee();
+        referralFeeBps = _referralFeeBps;
+
+        emit ReferralFeeSet(_referralFeeBps);
+    }
+
+    /// @notice Set the address receiving the ticket revenue of the raffles without payouts when they start rewarding.
+    /// @dev Such raffles cannot start rewarding while no receiver is set.
+    /// @param _receiver The revenue receiver.
+    function setRevenueReceiver(address _receiver) external onlyRole(TREASURER_ROLE) {
+        revenueReceiver = _receiver;
+
+        emit RevenueReceiverSet(_receiver);
+    }
+
+    /// @notice Registers a referral code to the caller, to be used in the ticket purchases of any raffle.
+    /// @param _code The referral code, registered on a first come first served basis.
+    function registerReferralCode(string calldata _code) external {
+        if (bytes(_code).length == 0) revert InvalidReferralCode();
+        bytes32 codeHash = keccak256(bytes(_code));
+        if (referrers[codeHash] != address(0)) revert ReferralCodeAlreadyRegistered();
+        referrers[codeHash] = msg.sender;
+
+        emit ReferralCodeRegistered(_code, msg.sender);
+    }
+
+    /// @notice Requests randomness for a specified raffle, paid by the caller unless charged to the VRF subscription.
+    /// @dev The native currency sent pays for the request in NativeWrapper payment mode, the excess being returned to the caller.
     /// @param _id The ID of the raffle to request randomness for.
-    function askForRandomness(uint256 _id) external isValidRaffle(_id) {
-        Raffle memory raffle = raffles[_id];
-        raffle.raffleRewarder.askForRandomness(msg.sender);
+    function askForRandomness(uint256 _id) external payable isValidRaffle(_id) {
+        raffles[_id].raffleRewarder.askForRandomness{value: msg.value}(msg.sender);
     }
 
-    /// @notice Determines the winner for a specified raffle.
-    /// @param _id The ID of the raffle to determine the winner for.
+    /// @notice Determines the winners for a specified raffle.
+    /// @param _id The ID of the raffle to determine the winners for.
     /// @param _participants The list of participants involved in the raffle.
     function determineWinner(uint256 _id, RaffleRewarder.Participant[] calldata _participants) external isValidRaffle(_id) {
-        Raffle storage raffle = raffles[_id];
-        raffle.raffleRewarder.determineWinner(_participants);
+        raffles[_id].raffleRewarder.determineWinner(_participants);
+        _recordWinners(_id);
+    }
 
-        raffle.winner = raffle.raffleRewarder.winner();
-        emit WinnerDetermined(_id, raffle.winner);
+    /// @notice Determines the winners for a specified raffle started with a Merkle root.
+    /// @param _id The ID of the raffle to determine the winners for.
+    /// @param _participants The participant holding the winning ticket of each prize.
+    /// @param _merkleProofs The proof of inclusion of each participant in the raffle Merkle tree.
+    function determineWinnerWithMerkleProof(
+        uint256 _id,
+        RaffleRewarder.Participant[] calldata _participants,
+        bytes32[][] calldata _merkleProofs
+    ) external isValidRaffle(_id) {
+        raffles[_id].raffleRewarder.determineWinnerWithMerkleProof(_participants, _merkleProofs);
+        _recordWinners(_id);
+    }
+
+    /// @notice Determines the winners for a specified raffle started with the ticket ledger.
+    /// @param _id The ID of the raffle to determine the winners for.
+    function determineWinnerFromLedger(uint256 _id) external isValidRaffle(_id) {
+        raffles[_id].raffleRewarder.determineWinnerFromLedger();
+        _recordWinners(_id);
+    }
+
+    /// @notice Recovers the unclaimed prizes escrowed for an abandoned raffle.
+    /// @param _id The ID of the raffle to recover the prizes of.
+    /// @param _receiver The address receiving the unclaimed prizes.
+    /// @dev The raffle is abandoned after RaffleRewarder.MAX_UNCLAIMED_DRAWS draws whose prizes have not all been claimed.
+    function recoverPrizes(uint256 _id, address _receiver) external onlyRole(REWARDING_OPERATOR_ROLE) isValidRaffle(_id) {
+        raffles[_id].raffleRewarder.recoverPrizes(_receiver);
+    }
+
+    /// @notice Performs the next step of a raffle found by checkUpkeep, checked again so that anyone can call it.
+    /// @dev Randomness is requested on behalf of the caller, charged to the VRF subscription.
+    /// @param _performData The ABI encoded ID of the raffle.
+    function performUpkeep(bytes calldata _performData) external {
+        uint256 id = abi.decode(_performData, (uint256));
+        RaffleRewarder.UpkeepAction action = _getUpkeepAction(id);
+        if (action == RaffleRewarder.UpkeepAction.AskForRandomness) {
+            raffles[id].raffleRewarder.askForRandomness(msg.sender);
+        } else if (action == RaffleRewarder.UpkeepAction.DetermineWinners) {
+            raffles[id].raffleRewarder.determineWinnerFromLedger();
+            _recordWinners(id);
+        } else {
+            revert UpkeepNotNeeded();
+        }
+
+        emit UpkeepPerformed(id, action);
     }
 
     /// @notice Withdraws excess tokens from the raffle ticket purchase contract.
     /// @param _id The ID of the raffle to withdraw excess tokens from.
     /// @param _tokenAddress The address of the ERC20 token to withdraw.
     /// @param _amount The amount of tokens to withdraw.
-    function withdrawExcessTokens(uint256 _id, address _tokenAddress, uint256 _amount) external onlyOwner isValidRaffle(_id) {
+    function withdrawExcessTokens(uint256 _id, address _tokenAddress, uint256 _amount) external onlyRole(TREASURER_ROLE) isValidRaffle(_id) {
         Raffle storage raffle = raffles[_id];
 
         raffle.raffleTicketPurchase.withdrawExcessTokens(_tokenAddress, _amount, msg.sender);
     }
 
+    /// @inheritdoc IReferralRegistry
+    function referrerOf(string calldata _code) external view returns (address) {
+        return referrers[keccak256(bytes(_code))];
+    }
+
+    /// @inheritdoc IRafflePauser
+    function isRafflePaused(uint256 _raffleId) external view returns (bool) {
+        return paused() || raffles[_raffleId].paused;
+    }
+
+    /// @notice Finds the first raffle whose next step can be performed by performUpkeep.
+    /// @param _checkData Empty to check every raffle, or the ABI encoded range of raffle IDs to check, from the first included to the last excluded.
+    /// @return upkeepNeeded Whether a raffle is ready for its next step.
+    /// @return performData The ABI encoded ID of the raffle.
+    function checkUpkeep(bytes calldata _checkData) external view returns (bool upkeepNeeded, bytes memory performData) {
+        (uint256 from, uint256 to) = _checkData.length == 0 ? (0, lastRaffleId) : abi.decode(_checkData, (uint256, uint256));
+        if (to > lastRaffleId) to = lastRaffleId;
+        for (uint256 id = from; id < to; id++) {
+            if (_getUpkeepAction(id) != RaffleRewarder.UpkeepAction.None) return (true, abi.encode(id));
+        }
+    }
+
+    /// @notice Returns the prizes of a raffle, in award order.
+    /// @param _id The ID of the raffle.
+    /// @return The prizes details, empty until rewarding starts.
+    function getRafflePrizes(uint256 _id) external view returns (RaffleRewarder.Prize[] memory) {
+        return raffles[_id].prizes;
+    }
+
+    /// @notice Returns the registered versions.
+    /// @return The versions, in registration order.
+    function getVersions() external view returns (bytes1[] memory) {
+        return versions;
+    }
+
+    /// @notice Returns the raffles created with a version.
+    /// @dev Raffles created before the implementation registry existed are not listed.
+    /// @param _version The version.
+    /// @return The IDs of the raffles, in creation order.
+    function getRafflesByVersion(bytes1 _version) external view returns (uint256[] memory) {
+        return versionRaffles[_version];
+    }
+
+    /// @notice Returns the winner of each prize of a raffle.
+    /// @param _id The ID of the raffle.
+    /// @return The winners addresses, empty until the winners are determined.
+    function getRaffleWinners(uint256 _id) external view returns (address[] memory) {
+        return raffles[_id].winners;
+    }
+
+    /// @notice Returns the phase of a raffle.
+    /// @param _id The ID of the raffle.
+    /// @return The status of the raffle.
+    function getRaffleStatus(uint256 _id) external view isValidRaffle(_id) returns (RaffleRewarder.RaffleStatus) {
+        return _getRaffleStatus(_id);
+    }
+
+    /// @dev Clones the ticket purchase contract of a new raffle and records the raffle.
+    function _createNewRaffle(
+        address _purchaseToken,
+        uint256 _ticketPrice,
+        uint256 _startTimestamp,
+        uint256 _finishTimestamp,
+        uint256 _minTickets,
+        uint256 _maxTickets,
+        uint256 _personalMaxTickets,
+        RaffleTicketPurchase.SaleOptions memory _options
+    ) internal {
+        address implementation = implementations[version].raffleTicketPurchase;
+        if (implementation == address(0)) revert VersionNotRegistered();
+        RaffleTicketPurchase raffleTicketPurchase = RaffleTicketPurchase(Clones.clone(implementation));
+        raffleTicketPurchase.initialize(
+            lastRaffleId,
+            _purchaseToken,
+            _ticketPrice,
+            _startTimestamp,
+            _finishTimestamp,
+            _minTickets,
+            _maxTickets,
+            _personalMaxTickets,
+            version,
+            address(this),
+            referralFeeBps,
+            _options.payouts,
+            address(this),
+            _options.purchaseGate,
+            _options.pricing,
+            _options.maxGrantedTickets
+        );
+
+        knownRaffles[address(raffleTicketPurchase)] = true;
+
+        // The slot of a new raffle is empty, its rewarding fields start zeroed: no rewarder, ParticipantsHash proof and LinkWrapper payment
+        Raffle storage raffle = raffles[lastRaffleId];
+        raffle.raffleTicketPurchase = raffleTicketPurchase;
+        raffle.purchaseToken = _purchaseToken;
+        raffle.ticketPrice = _ticketPrice;
+        raffle.startTimestamp = _startTimestamp;
+        raffle.finishTimestamp = _finishTimestamp;
+        raffle.minCap = _minTickets;
+        raffle.maxCap = _maxTickets;
+        raffle.personalMaxCap = _personalMaxTickets;
+        raffle.version = version;
+        raffle.referralFeeBps = referralFeeBps;
+
+        versionRaffles[version].push(lastRaffleId);
+        lastRaffleId += 1;
+
+        emit RaffleCreated(lastRaffleId - 1, raffles[lastRaffleId - 1]);
+    }
+
+    /// @dev Withdraws the ticket sale funds, clones the rewarder of the version of a successful raffle and escrows the prizes into it.
+    function _startRewarding(
+        uint256 _id,
+        RaffleRewarder.Prize[] calldata _prizes,
+        bool _allowMultipleWins,
+        bytes32 _participantsProof,
+        RaffleRewarder.ProofType _proofType,
+        RaffleRewarder.RewardingConfig calldata _rewardingConfig
+    ) internal {
+        Raffle storage raffle = raffles[_id];
+        if (!raffle.raffleTicketPurchase.isSuccessful()) revert RaffleNotSuccessful();
+        if (address(raffle.raffleRewarder) != address(0)) revert RewardingAlreadyStarted();
+        address implementation = implementations[raffle.version].raffleRewarder;
+        if (implementation == address(0)) revert VersionNotRegistered();
+
+        raffle.raffleTicketPurchase.withdrawFunds(revenueReceiver);
+
+        RaffleRewarder raffleRewarder = RaffleRewarder(Clones.clone(implementation));
+        raffleRewarder.initialize(
+            _id,
+            _prizes,
+            _allowMultipleWins,
+            _participantsProof,
+            _proofType,
+            address(raffle.raffleTicketPurchase),
+            vrfV2Wrapper,
+            raffle.version,
+            address(this),
+            _rewardingConfig
+        );
+
+        knownRaffles[address(raffleRewarder)] = true;
+        _escrowPrizes(address(raffleRewarder), _prizes);
+
+        raffle.raffleRewarder = raffleRewarder;
+        if (raffle.paymentMode != RaffleRewarder.PaymentMode.LinkWrapper) _configureRandomnessPayment(raffle);
+        raffle.prize = PrizeSummary(_prizes[0].contractAddress, _prizes[0].tokenId);
+        raffle.prizes = _prizes;
+        raffle.participantsProof = _participantsProof;
+        raffle.proofType = _proofType;
+        raffle.rewardingConfig = _rewardingConfig;
+
+        emit RewardingStarted(_id, _rewardingConfig);
+    }
+
+    /// @dev Sets the payment mode of a raffle on its rewarder, adding the rewarder as a consumer of the VRF subscription in Subscription payment mode.
+    function _configureRandomnessPayment(Raffle storage _raffle) internal {
+        RaffleRewarder.VRFSubscription memory subscription;
+        if (_raffle.paymentMode == RaffleRewarder.PaymentMode.Subscription) {
+            subscription = vrfSubscription;
+            if (subscription.coordinator == address(0)) revert VRFSubscriptionNotSet();
+            IVRFCoordinatorV2Plus(subscription.coordinator).addConsumer(subscription.subscriptionId, address(_raffle.raffleRewarder));
+        }
+        _raffle.raffleRewarder.setPaymentMode(_raffle.paymentMode, subscription);
+    }
+
+    /// @dev Transfers the prizes from the caller to the rewarder holding them until claimed.
+    function _escrowPrizes(address _raffleRewarder, RaffleRewarder.Prize[] calldata _prizes) internal {
+        for (uint256 i = 0; i < _prizes.length; i++) {
+            RaffleRewarder.Prize calldata prize = _prizes[i];
+            if (prize.kind == RaffleRewarder.PrizeKind.ERC721) {
+                IERC721(prize.contractAddress).safeTransferFrom(msg.sender, _raffleRewarder, prize.tokenId);
+            } else if (prize.kind == RaffleRewarder.PrizeKind.ERC20) {
+                IERC20(prize.contractAddress).safeTransferFrom(msg.sender, _raffleRewarder, prize.amount);
+            } else {
+                IERC1155(prize.contractAddress).safeTransferFrom(msg.sender, _raffleRewarder, prize.tokenId, prize.amount, "");
+            }
+        }
+    }
+
+    /// @dev Copies the winners drawn by the rewarder of a raffle, keeping the winner of the first prize in the winner field.
+    /// The rewarders of earlier versions, which do not list their winners, are read for the winner of their single prize.
+    function _recordWinners(uint256 _id) internal {
+        Raffle storage raffle = raffles[_id];
+        address[] memory winners = new address[](1);
+        try raffle.raffleRewarder.getWinners() returns (address[] memory drawn) {
+            winners = drawn;
+        } catch {
+            winners[0] = ILegacyRaffleRewarder(address(raffle.raffleRewarder)).winner();
+        }
+        raffle.winners = winners;
+        raffle.winner = winners[0];
+
+        emit WinnerDetermined(_id, winners);
+    }
+
     /// @dev Internal initialization function to set up initial state.
-    function __RaffleManager_init(address _vrfV2Wrapper) internal onlyInitializing {
+    function __RaffleManager_init(
+        address _vrfV2Wrapper,
+        address _raffleTicketPurchaseImplementation,
+        address _raffleRewarderImplementation
+    ) internal onlyInitializing {
         __Ownable_init(msg.sender);
-        __RaffleManager_init_unchained(_vrfV2Wrapper);
+        __AccessControl_init();
+        __Pausable_init();
+        __RaffleManager_init_unchained(_vrfV2Wrapper, _raffleTicketPurchaseImplementation, _raffleRewarderImplementation);
     }
 
     /// @dev Completes the unchained initialization.
-    function __RaffleManager_init_unchained(address _vrfV2Wrapper) internal onlyInitializing {
+    function __RaffleManager_init_unchained(
+        address _vrfV2Wrapper,
+        address _raffleTicketPurchaseImplementation,
+        address _raffleRewarderImplementation
+    ) internal onlyInitializing {
         _setWrapper(_vrfV2Wrapper);
-        version = "1";
+        _grantRoles(msg.sender);
+        _registerVersion("1", _raffleTicketPurchaseImplementation, _raffleRewarderImplementation);
+        _setActiveVersion("1");
+    }
+
+    /// @dev Grants the admin role and every operational role to an account.
+    function _grantRoles(address _account) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, _account);
+        _grantRole(RAFFLE_CREATOR_ROLE, _account);
+        _grantRole(REWARDING_OPERATOR_ROLE, _account);
+        _grantRole(TREASURER_ROLE, _account);
+        _grantRole(VRF_ADMIN_ROLE, _account);
+        _grantRole(PAUSER_ROLE, _account);
     }
 
     /// @dev Internal function to set up the chainlink vrf v2 wrapper contract.
@@ -209,4 +780,57 @@ contract RaffleManager is Ownable2StepUpgradeable, RaffleErrors {
 
         emit WrapperSet(vrfV2Wrapper);
     }
+
+    /// @dev Internal function to register the implementations of a new version.
+    function _registerVersion(bytes1 _version, address _raffleTicketPurchaseImplementation, address _raffleRewarderImplementation) internal {
+        if (implementations[_version].raffleTicketPurchase != address(0)) revert VersionAlreadyRegistered();
+        if (_raffleTicketPurchaseImplementation.code.length == 0 || _raffleRewarderImplementation.code.length == 0) revert InvalidImplementation();
+        implementations[_version] = Implementations(_raffleTicketPurchaseImplementation, _raffleRewarderImplementation);
+        versions.push(_version);
+
+        emit VersionRegistered(_version, _raffleTicketPurchaseImplementation, _raffleRewarderImplementation);
+    }
+
+    /// @dev Internal function to activate a registered version.
+    function _setActiveVersion(bytes1 _version) internal {
+        if (implementations[_version].raffleTicketPurchase == address(0)) revert VersionNotRegistered();
+        version = _version;
+
+        emit ActiveVersionSet(_version);
+    }
+
+    /// @dev Reverts if no raffle was created with the ID, called by the isValidRaffle modifier instead of inlining its check in every function.
+    function _checkValidRaffle(uint256 _id) internal view {
+        if (_id >= lastRaffleId) revert InvalidId();
+    }
+
+    /// @dev Returns the next step of a raffle that can be performed without off-chain input, None until rewarding starts
+    /// and for the rewarders of earlier versions, which have no upkeep.
+    function _getUpkeepAction(uint256 _id) internal view returns (RaffleRewarder.UpkeepAction) {
+        RaffleRewarder raffleRewarder = raffles[_id].raffleRewarder;
+        if (address(raffleRewarder) == address(0)) return RaffleRewarder.UpkeepAction.None;
+        try raffleRewarder.getUpkeepAction() returns (RaffleRewarder.UpkeepAction action) {
+            return action;
+        } catch {
+            return RaffleRewarder.UpkeepAction.None;
+        }
+    }
+
+    /// @dev Returns the ticket sale phase of a raffle from its timestamps and tickets sold, and the rewarding phase from its rewarder.
+    /// The rewarders of earlier versions, which do not report their phase, are reported as Rewarding.
+    function _getRaffleStatus(uint256 _id) internal view returns (RaffleRewarder.RaffleStatus) {
+        Raffle storage raffle = raffles[_id];
+        if (raffle.canceled) return RaffleRewarder.RaffleStatus.Canceled;
+        if (address(raffle.raffleRewarder) != address(0)) {
+            try raffle.raffleRewarder.getStatus() returns (RaffleRewarder.RaffleStatus status) {
+                return status;
+            } catch {
+                return RaffleRewarder.RaffleStatus.Rewarding;
+            }
+        }
+        if (block.timestamp < raffle.startTimestamp) return RaffleRewarder.RaffleStatus.Scheduled;
+        if (raffle.raffleTicketPurchase.totalTicketsSold() == raffle.maxCap) return RaffleRewarder.RaffleStatus.SoldOut;
+        if (block.timestamp < raffle.finishTimestamp) return RaffleRewarder.RaffleStatus.Open;
+        return raffle.raffleTicketPurchase.isSuccessful() ? RaffleRewarder.RaffleStatus.Succeeded : RaffleRewarder.RaffleStatus.Failed;
+    }
 }
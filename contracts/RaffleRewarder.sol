@@ -1,16 +1,34 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import {IERC20} from "@openzeppelin/contracts-v5/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
+import {Address} from "@openzeppelin/contracts-v5/utils/Address.sol";
 import {IERC721} from "@openzeppelin/contracts-v5/token/ERC721/IERC721.sol";
-import {VRFV2PlusWrapperConsumerBase} from "@chainlink/contracts/src/v0.8/vrf/dev/VRFV2PlusWrapperConsumerBase.sol";
+import {IERC1155} from "@openzeppelin/contracts-v5/token/ERC1155/IERC1155.sol";
+import {ERC721Holder} from "@openzeppelin/contracts-v5/token/ERC721/utils/ERC721Holder.sol";
+import {ERC1155Holder} from "@openzeppelin/contracts-v5/token/ERC1155/utils/ERC1155Holder.sol";
+import {ERC165Checker} from "@openzeppelin/contracts-v5/utils/introspection/ERC165Checker.sol";
+import {MerkleProof} from "@openzeppelin/contracts-v5/utils/cryptography/MerkleProof.sol";
+import {IVRFV2PlusWrapper} from "@chainlink/contracts/src/v0.8/vrf/dev/interfaces/IVRFV2PlusWrapper.sol";
+import {IVRFCoordinatorV2Plus} from "@chainlink/contracts/src/v0.8/vrf/dev/interfaces/IVRFCoordinatorV2Plus.sol";
+import {LinkTokenInterface} from "@chainlink/contracts/src/v0.8/shared/interfaces/LinkTokenInterface.sol";
 import {VRFV2PlusClient} from "@chainlink/contracts/src/v0.8/vrf/dev/libraries/VRFV2PlusClient.sol";
 import {RaffleErrors} from "./RaffleErrors.sol";
-import {Ownable} from "@openzeppelin/contracts-v5/access/Ownable.sol";
+import {RaffleTicketPurchase} from "./RaffleTicketPurchase.sol";
+import {IRafflePauser} from "./interfaces/IRafflePauser.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-v5-upgradeable/access/OwnableUpgradeable.sol";
 
 /// @title Raffle Rewarder
-/// @dev This contract implements a raffle system where participants can win an NFT prize.
-/// @dev This contract utilizes Chainlink VRF for random number generation.
-contract RaffleRewarder is VRFV2PlusWrapperConsumerBase, Ownable, RaffleErrors {
+/// @dev This contract implements a raffle system where participants can win one of an ordered list of ERC721, ERC20 or ERC1155 prizes.
+/// @dev This contract utilizes Chainlink VRF for random number generation, paid in LINK or native currency through the VRF wrapper,
+/// or charged to a subscription of the raffle manager.
+/// @dev The prizes are escrowed in this contract by the raffle manager when rewarding starts and transferred from it when claimed.
+/// @dev Rewarders are minimal proxy clones of a single implementation, initialized by the raffle manager instead of constructed. The Chainlink
+/// VRF wrapper consumer base keeps the wrapper in immutables, so its request and callback logic is carried here with the wrapper in storage.
+contract RaffleRewarder is OwnableUpgradeable, ERC721Holder, ERC1155Holder, RaffleErrors {
+    using SafeERC20 for IERC20;
+
     /// @notice Structure to store participant details.
     struct Participant {
         address addr;
@@ -18,117 +36,490 @@ contract RaffleRewarder is VRFV2PlusWrapperConsumerBase, Ownable, RaffleErrors {
         uint256 cumulativeCount;
     }
 
+    /// @notice Kind of commitment stored in participantsProof.
+    /// @dev ParticipantsHash is the keccak of the whole participant list, MerkleRoot is the root of a tree whose leaves are the participants,
+    /// letting the winner be proven with a single leaf instead of the whole list. TicketLedger needs no commitment, the winner is resolved
+    /// against the ticket ledger of the raffle ticket purchase contract.
+    enum ProofType {
+        ParticipantsHash,
+        MerkleRoot,
+        TicketLedger
+    }
+
+    /// @notice Token standard of a prize.
+    enum PrizeKind {
+        ERC721,
+        ERC20,
+        ERC1155
+    }
+
     /// @notice Structure to store prize details.
+    /// @dev tokenId is ignored for ERC20 prizes, amount must be 1 for ERC721 prizes.
     struct Prize {
+        PrizeKind kind;
         address contractAddress;
         uint256 tokenId;
+        uint256 amount;
+    }
+
+    /// @notice How the randomness requests are paid.
+    /// @dev LinkWrapper and NativeWrapper request through the VRF wrapper, paid by the requester in LINK or native currency.
+    /// Subscription requests from the VRF coordinator directly, charged to a subscription the rewarder is a consumer of.
+    enum PaymentMode {
+        LinkWrapper,
+        NativeWrapper,
+        Subscription
+    }
+
+    /// @notice Next step of a raffle that can be performed without off-chain input.
+    enum UpkeepAction {
+        None,
+        AskForRandomness,
+        DetermineWinners
+    }
+
+    /// @notice Phase of a raffle, from its ticket sale to the claim of its prizes.
+    /// @dev The ticket sale phases are reported by the manager, the rewarding ones from Rewarding to Expired by the rewarder.
+    /// SoldOut and Succeeded raffles are waiting for rewarding to start, Expired ones have prizes left unclaimed after the claim period.
+    enum RaffleStatus {
+        Scheduled,
+        Open,
+        SoldOut,
+        Failed,
+        Succeeded,
+        Rewarding,
+        AwaitingRandomness,
+        AwaitingWinner,
+        Claimable,
+        Claimed,
+        Expired,
+        Canceled
+    }
+
+    /// @notice Structure to store the VRF subscription charged for the requests in Subscription payment mode.
+    struct VRFSubscription {
+        address coordinator;
+        uint256 subscriptionId;
+        bytes32 keyHash;
+        bool nativePayment; // Whether the subscription is charged in native currency instead of LINK
+    }
+
+    /// @notice Structure to store the randomness and claim parameters of the raffle.
+    struct RewardingConfig {
+        uint32 callbackGasLimit; // Gas limit for Chainlink VRF callback with a single random word
+        uint16 requestConfirmations; // Confirmation count required for Chainlink VRF
+        uint64 prizeClaimPeriod; // Period in which a prize can be claimed after being awarded
     }
 
     /// @notice Structure to keep track of VRF request status.
     struct RequestStatus {
         uint256 requestId;
-        uint256 paid; // Amount paid in LINK
+        uint256 paid; // Amount paid in LINK or native currency, 0 when charged to the subscription
         bool fulfilled; // Whether the request has been successfully fulfilled
+        uint64 requestedAt; // Timestamp of the request, after which it can be abandoned once REQUEST_TIMEOUT has elapsed
         uint256[] randomWords;
     }
 
+    /// @notice Structure to store how the randomness requests are sent and paid.
+    struct Randomness {
+        IVRFV2PlusWrapper vrfV2PlusWrapper; // Chainlink VRF v2.5 wrapper requesting the randomness in the wrapper payment modes
+        PaymentMode paymentMode; // Packed with the wrapper, both are read by the randomness callback
+        LinkTokenInterface linkToken; // LINK token paying for the requests in LinkWrapper payment mode
+        VRFSubscription subscription; // Subscription charged in Subscription payment mode
+    }
+
+    /// @notice Structure to store the progress of the draws and of the prize claim period.
+    struct DrawState {
+        uint256 drawCount; // Number of randomness requests, each one drawing the unclaimed prizes again
+        uint256 winnersRequestId; // ID of the request whose random words drew the current winners, 0 before the first draw
+        uint256 startClaimTime; // Timestamp when prize claim starts
+        bool prizesRecovered; // Whether the unclaimed prizes have been recovered by the owner, closing the raffle
+    }
+
     /// @notice Current request status for Chainlink VRF
     RequestStatus public request;
-    /// @notice Gas limit for Chainlink VRF callback.
-    uint32 public constant CALLBACK_GAS_LIMIT = 100000;
-    /// @notice Confirmation count required for Chainlink VRF.
-    uint16 public constant REQUEST_CONFIRMATION = 3;
-    /// @notice Number of random words requested from Chainlink VRF.
-    uint32 public constant NUM_WORDS = 1;
-
-    /// @notice Period in which the prize can be claimed after being awarded.
-    uint256 public constant PRIZE_CLAIM_PERIOD = 5 days;
+    /// @notice Minimum gas limit for Chainlink VRF callback with a single random word, below which storing the random word could run out of gas.
+    uint32 public constant MIN_CALLBACK_GAS_LIMIT = 120000;
+    /// @notice Maximum gas limit for Chainlink VRF callback with a single random word, leaving room for the extra words under the
+    /// 2.5M gas limit of the VRF coordinator.
+    uint32 public constant MAX_CALLBACK_GAS_LIMIT = 2000000;
+    /// @notice Additional gas for Chainlink VRF callback for each random word after the first.
+    uint32 public constant CALLBACK_GAS_PER_EXTRA_WORD = 25000;
+    /// @notice Minimum confirmation count accepted by the VRF coordinator.
+    uint16 public constant MIN_REQUEST_CONFIRMATIONS = 3;
+    /// @notice Maximum confirmation count accepted by the VRF coordinator.
+    uint16 public constant MAX_REQUEST_CONFIRMATIONS = 200;
+    /// @notice Maximum number of prizes, one random word is requested from Chainlink VRF for each prize.
+    uint256 public constant MAX_PRIZES = 10;
+    /// @notice Number of tickets drawn for a prize before leaving it unawarded, reached only when earlier winners hold nearly every ticket.
+    uint256 public constant MAX_DRAW_ATTEMPTS = 32;
+
+    /// @notice Minimum period in which a prize can be claimed after being awarded.
+    uint64 public constant MIN_PRIZE_CLAIM_PERIOD = 1 days;
+    /// @notice Maximum period in which a prize can be claimed after being awarded, delaying the recovery of abandoned prizes.
+    uint64 public constant MAX_PRIZE_CLAIM_PERIOD = 90 days;
+    /// @notice Number of draws left unclaimed after which the owner can recover the unclaimed prizes.
+    uint256 public constant MAX_UNCLAIMED_DRAWS = 3;
+    /// @notice Delay after which an unfulfilled randomness request is considered lost and can be replaced by a new one.
+    uint64 public constant REQUEST_TIMEOUT = 1 days;
     /// @notice The id of the raffle.
-    uint256 public immutable raffleId;
+    uint256 public raffleId;
     /// @notice Hash of the participant list for verification.
-    bytes32 public immutable participantsProof;
+    bytes32 public participantsProof;
+    /// @notice Kind of commitment stored in participantsProof.
+    ProofType public proofType;
+    /// @notice Total number of tickets in the draw, used to resolve the winning ticket with the MerkleRoot and TicketLedger proof types.
+    uint256 public totalTickets;
+    /// @notice Ticket purchase contract of the raffle, used to resolve the winning ticket with the TicketLedger proof type.
+    RaffleTicketPurchase public raffleTicketPurchase;
+    /// @notice Whether an address can win more than one prize.
+    bool public allowMultipleWins;
     /// @notice Token version of the NFTs
-    bytes1 public immutable version;
-    /// @notice Timestamp when prize claim starts.
-    uint256 public startClaimTime;
-    /// @notice Prize details.
-    Prize public prize;
-    /// @notice Address of the winner.
-    address public winner;
+    bytes1 public version;
+    /// @notice The contract pausing the raffle, address(0) if the raffle cannot be paused.
+    IRafflePauser public pauser;
+    /// @notice How the randomness requests are sent and paid.
+    Randomness public randomness;
+    /// @notice Randomness and claim parameters of the raffle.
+    RewardingConfig public rewardingConfig;
+    /// @notice Prize details, in award order.
+    Prize[] public prizes;
+    /// @notice Address of the winner of each prize, address(0) for a prize left unawarded.
+    address[] public winners;
+    /// @notice Whether each prize, by index, has been claimed by its winner or recovered by the owner.
+    mapping(uint256 => bool) public prizeClaimed;
+    /// @notice Progress of the draws and of the prize claim period.
+    DrawState public draw;
 
     /// @notice Emitted when randomness is requested from Chainlink VRF.
     /// @param requester Address of the user who requested the randomness.
     /// @param requestId ID of the VRF request.
-    /// @param paid Amount of LINK paid for the request.
+    /// @param paid Amount of LINK or native currency paid for the request, 0 when charged to the subscription.
     event RandomnessRequested(uint256 indexed raffleId, address indexed requester, uint256 requestId, uint256 paid);
 
-    /// @notice Emitted when a winner has been determined.
+    /// @notice Emitted when an unfulfilled randomness request is replaced by a new one after REQUEST_TIMEOUT.
+    /// @param requestId ID of the abandoned VRF request, whose late fulfillment is ignored.
+    event RandomnessRequestAbandoned(uint256 indexed raffleId, uint256 requestId);
+
+    /// @notice Emitted when the winner of a prize has been determined.
+    /// @param prizeIndex Index of the prize in the prize list.
     /// @param winner Address of the winner.
-    event WinnerDetermined(uint256 indexed raffleId, address indexed winner);
+    event WinnerDetermined(uint256 indexed raffleId, uint256 indexed prizeIndex, address indexed winner);
 
-    /// @notice Emitted when the prize is claimed by the winner.
+    /// @notice Emitted when a prize is claimed by its winner.
     /// @param claimer Address of the winner claiming the prize.
+    /// @param prizeIndex Index of the claimed prize in the prize list.
     /// @param tokenId Token ID of the claimed prize.
-    event PrizeClaimed(uint256 indexed raffleId, address indexed claimer, uint256 tokenId);
+    /// @param amount Amount of tokens of the claimed prize.
+    event PrizeClaimed(uint256 indexed raffleId, address indexed claimer, uint256 prizeIndex, uint256 tokenId, uint256 amount);
+
+    /// @notice Emitted when the unclaimed prizes of an abandoned raffle are recovered by the owner.
+    /// @param receiver Address receiving the unclaimed prizes.
+    /// @param prizeCount Number of prizes recovered.
+    event PrizesRecovered(uint256 indexed raffleId, address indexed receiver, uint256 prizeCount);
 
-    /// @dev Initializes the raffle with the given parameters.
+    /// @notice Modifier to halt draws and claims while the raffle is paused, the randomness callback and prize recovery stay available.
+    modifier whenNotPaused() {
+        if (isPaused()) revert RafflePaused();
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes a clone with the parameters of its raffle, the caller becoming its owner.
     /// @param _raffleId The id of the raffle.
-    /// @param _prize The NFT prize details.
+    /// @param _prizes The prizes details, in award order.
+    /// @param _allowMultipleWins Whether an address can win more than one prize.
     /// @param _participantsProof A hash of the participant list for verification.
+    /// @param _proofType The kind of commitment of _participantsProof.
+    /// @param _raffleTicketPurchase The ticket purchase contract of the raffle, counting the tickets in the draw.
     /// @param _vrfV2Wrapper The address of the VRFV2Wrapper contract.
-    constructor(
+    /// @param _version The version of the raffle manager contract.
+    /// @param _pauser The contract pausing the raffle, address(0) if the raffle cannot be paused.
+    /// @param _rewardingConfig The randomness and claim parameters of the raffle.
+    function initialize(
         uint256 _raffleId,
-        Prize memory _prize,
+        Prize[] memory _prizes,
+        bool _allowMultipleWins,
         bytes32 _participantsProof,
+        ProofType _proofType,
+        address _raffleTicketPurchase,
         address _vrfV2Wrapper,
-        bytes1 _version
-    ) Ownable(msg.sender) VRFV2PlusWrapperConsumerBase(_vrfV2Wrapper) {
-        prize = _prize;
+        bytes1 _version,
+        address _pauser,
+        RewardingConfig memory _rewardingConfig
+    ) external initializer {
+        __Ownable_init(msg.sender);
+        if (_prizes.length == 0 || _prizes.length > MAX_PRIZES) revert InvalidPrizes();
+        validateRewardingConfig(_rewardingConfig);
+        for (uint256 i = 0; i < _prizes.length; i++) {
+            validatePrize(_prizes[i]);
+        }
+
+        prizes = _prizes;
+        allowMultipleWins = _allowMultipleWins;
         participantsProof = _participantsProof;
+        proofType = _proofType;
+        raffleTicketPurchase = RaffleTicketPurchase(_raffleTicketPurchase);
+        totalTickets = countTickets();
         raffleId = _raffleId;
         version = _version;
+        pauser = IRafflePauser(_pauser);
+        randomness.vrfV2PlusWrapper = IVRFV2PlusWrapper(_vrfV2Wrapper);
+        randomness.linkToken = LinkTokenInterface(randomness.vrfV2PlusWrapper.link());
+        rewardingConfig = _rewardingConfig;
     }
 
     /// @notice Requests randomness from Chainlink VRF if all conditions are met.
-    /// @param payer The address paying for the LINK token fee.
-    function askForRandomness(address payer) external onlyOwner {
-        if (!((request.requestId == 0 && request.paid == 0) || (request.fulfilled && block.timestamp > startClaimTime + PRIZE_CLAIM_PERIOD))) {
-            revert CannotAskForNewRandomness();
-        }
+    /// @dev In NativeWrapper payment mode the fee is paid from the native currency sent, the excess being returned to the payer.
+    /// Requests charged to the VRF subscription, which anyone can trigger through the owner, are only sent when the upkeep would send them.
+    /// @param payer The address paying for the LINK token or native currency fee.
+    function askForRandomness(address payer) external payable onlyOwner whenNotPaused {
+        if (!canAskForRandomness()) revert CannotAskForNewRandomness();
+        if (randomness.paymentMode == PaymentMode.Subscription && getUpkeepAction() != UpkeepAction.AskForRandomness) revert CannotAskForNewRandomness();
+        if (msg.value != 0 && randomness.paymentMode != PaymentMode.NativeWrapper) revert IncorrectRandomnessPayment();
 
-        bytes memory extraArgs = VRFV2PlusClient._argsToBytes(VRFV2PlusClient.ExtraArgsV1({nativePayment: false}));
+        // A timed out request is replaced without counting a new draw, its winners having never been determined
+        bool abandoned = request.requestId != 0 && !request.fulfilled;
+        if (abandoned) emit RandomnessRequestAbandoned(raffleId, request.requestId);
 
-        uint256 price = i_vrfV2PlusWrapper.calculateRequestPrice(CALLBACK_GAS_LIMIT, NUM_WORDS);
-        i_linkToken.transferFrom(payer, address(this), price);
+        (uint256 requestId, uint256 price) = requestRandomWords(payer);
+        request = RequestStatus({requestId: requestId, paid: price, fulfilled: false, requestedAt: uint64(block.timestamp), randomWords: new uint256[](0)});
+        if (!abandoned) draw.drawCount++;
 
-        (uint256 requestId, uint256 reqPrice) = requestRandomness(CALLBACK_GAS_LIMIT, REQUEST_CONFIRMATION, NUM_WORDS, extraArgs);
-        request = RequestStatus({requestId: requestId, paid: reqPrice, randomWords: new uint256[](0), fulfilled: false});
+        if (randomness.paymentMode == PaymentMode.LinkWrapper) {
+            randomness.linkToken.transfer(payer, randomness.linkToken.balanceOf(address(this)));
+        } else if (msg.value > price) {
+            Address.sendValue(payable(payer), msg.value - price);
+        }
+
+        emit RandomnessRequested(raffleId, payer, requestId, price);
+    }
 
-        i_linkToken.transfer(payer, i_linkToken.balanceOf(address(this)));
+    /// @notice Sets how the randomness requests are paid.
+    /// @dev Cannot be changed while a request is pending, its fulfillment being only accepted from where it was sent,
+    /// unless the request has timed out and can be abandoned.
+    /// @param _paymentMode The payment mode of the next requests.
+    /// @param _subscription The VRF subscription charged in Subscription payment mode, ignored otherwise.
+    function setPaymentMode(PaymentMode _paymentMode, VRFSubscription calldata _subscription) external onlyOwner {
+        if (request.requestId != 0 && !request.fulfilled && block.timestamp <= request.requestedAt + REQUEST_TIMEOUT) revert RandomnessRequestPending();
+        if (_paymentMode == PaymentMode.Subscription && _subscription.coordinator == address(0)) revert VRFSubscriptionNotSet();
 
-        emit RandomnessRequested(raffleId, payer, requestId, reqPrice);
+        randomness.paymentMode = _paymentMode;
+        if (_paymentMode == PaymentMode.Subscription) {
+            randomness.subscription = _subscription;
+        } else {
+            delete randomness.subscription;
+        }
     }
 
-    /// @notice Rewards the winner after verifying the participant list and that randomness has been fulfilled.
+    /// @notice Rewards the winner of each prize after verifying the participant list and that randomness has been fulfilled.
+    /// @dev Claimed prizes keep their winner, only the unclaimed ones are drawn again.
     /// @param _participants The list of participants to verify against the stored proof.
-    function determineWinner(Participant[] calldata _participants) external onlyOwner {
+    function determineWinner(Participant[] calldata _participants) external onlyOwner whenNotPaused {
+        if (proofType != ProofType.ParticipantsHash) revert WrongProofType();
         if (!request.fulfilled) revert AskForRandomnessFirst();
         if (!verifyParticipants(_participants)) revert WrongInput();
 
-        winner = findWinner(_participants);
-        emit WinnerDetermined(raffleId, winner);
+        resetWinners();
+        uint256 ticketCount = _participants[_participants.length - 1].cumulativeCount;
+        for (uint256 i = 0; i < prizes.length; i++) {
+            if (prizeClaimed[i]) continue;
+            address prizeWinner;
+            for (uint256 attempt = 0; attempt < MAX_DRAW_ATTEMPTS; attempt++) {
+                address candidate = findWinner(_participants, drawTicket(request.randomWords[i], attempt, ticketCount));
+                if (allowMultipleWins || !isWinner(candidate)) {
+                    prizeWinner = candidate;
+                    break;
+                }
+            }
+            awardPrize(i, prizeWinner);
+        }
+    }
+
+    /// @notice Rewards the winner of each prize after verifying that its winning ticket falls in the ticket range of the given Merkle tree leaf.
+    /// @dev The entry of a prize left unawarded is ignored and can hold any participant with an empty proof. The entry of a claimed prize
+    /// must hold its winner, whose tickets are not drawn again unless multiple wins are allowed.
+    /// @param _participants The participant holding the winning ticket of each prize.
+    /// @param _merkleProofs The proof of inclusion of each participant in the tree whose root is participantsProof.
+    function determineWinnerWithMerkleProof(Participant[] calldata _participants, bytes32[][] calldata _merkleProofs) external onlyOwner whenNotPaused {
+        if (proofType != ProofType.MerkleRoot) revert WrongProofType();
+        if (!request.fulfilled) revert AskForRandomnessFirst();
+        if (_participants.length != prizes.length || _merkleProofs.length != prizes.length) revert WrongInput();
+
+        resetWinners();
+        for (uint256 i = 0; i < prizes.length; i++) {
+            if (prizeClaimed[i] && (_participants[i].addr != winners[i] || !verifyParticipant(_participants[i], _merkleProofs[i]))) revert WrongInput();
+        }
+        for (uint256 i = 0; i < prizes.length; i++) {
+            if (prizeClaimed[i]) continue;
+            address prizeWinner;
+            for (uint256 attempt = 0; attempt < MAX_DRAW_ATTEMPTS; attempt++) {
+                uint256 winningTicketIndex = drawTicket(request.randomWords[i], attempt, totalTickets);
+                if (!allowMultipleWins && isWinnerTicket(_participants, winningTicketIndex)) continue;
+
+                if (!verifyParticipant(_participants[i], _merkleProofs[i])) revert WrongInput();
+                if (
+                    winningTicketIndex < _participants[i].cumulativeCount - _participants[i].ticketCount ||
+                    winningTicketIndex >= _participants[i].cumulativeCount
+                ) {
+                    revert WrongInput();
+                }
+                prizeWinner = _participants[i].addr;
+                break;
+            }
+            awardPrize(i, prizeWinner);
+        }
+    }
+
+    /// @notice Rewards the owner of the winning ticket of each prize, resolved against the ticket ledger of the raffle.
+    /// @dev Claimed prizes keep their winner, only the unclaimed ones are drawn again.
+    function determineWinnerFromLedger() external onlyOwner whenNotPaused {
+        if (proofType != ProofType.TicketLedger) revert WrongProofType();
+        if (!request.fulfilled) revert AskForRandomnessFirst();
+
+        resetWinners();
+        for (uint256 i = 0; i < prizes.length; i++) {
+            if (prizeClaimed[i]) continue;
+            address prizeWinner;
+            for (uint256 attempt = 0; attempt < MAX_DRAW_ATTEMPTS; attempt++) {
+                address candidate = raffleTicketPurchase.ticketOwner(drawTicket(request.randomWords[i], attempt, totalTickets));
+                // Tickets of refunded purchasers have no owner and are drawn again
+                if (candidate != address(0) && (allowMultipleWins || !isWinner(candidate))) {
+                    prizeWinner = candidate;
+                    break;
+                }
+            }
+            awardPrize(i, prizeWinner);
+        }
+    }
+
+    /// @notice Allows the winner of a prize to claim it from the escrow.
+    /// @param _prizeIndex The index of the prize in the prize list.
+    function claimPrize(uint256 _prizeIndex) external whenNotPaused {
+        if (_prizeIndex >= winners.length || winners[_prizeIndex] == address(0)) revert WinnerNotSet();
+        if (prizeClaimed[_prizeIndex]) revert PrizeAlreadyClaimed();
+        if (block.timestamp > draw.startClaimTime + rewardingConfig.prizeClaimPeriod) revert PrizeClaimPeriodElapsed();
+        if (msg.sender != winners[_prizeIndex]) revert OnlyWinnerCanCall();
+
+        prizeClaimed[_prizeIndex] = true;
+        Prize memory prize = prizes[_prizeIndex];
+        transferPrize(prize, msg.sender);
+
+        emit PrizeClaimed(raffleId, msg.sender, _prizeIndex, prize.tokenId, prize.amount);
+    }
+
+    /// @notice Transfers the unclaimed prizes to the given receiver once the raffle has been abandoned.
+    /// @dev The raffle is abandoned when MAX_UNCLAIMED_DRAWS draws have been requested and the claim period of the last one has elapsed,
+    /// no randomness can be requested afterwards. Prizes cannot be recovered while the raffle is paused, which blocks the winners' claims.
+    /// @param _receiver The address receiving the unclaimed prizes.
+    function recoverPrizes(address _receiver) external onlyOwner whenNotPaused {
+        if (
+            draw.prizesRecovered ||
+            draw.drawCount < MAX_UNCLAIMED_DRAWS ||
+            !request.fulfilled ||
+            block.timestamp <= draw.startClaimTime + rewardingConfig.prizeClaimPeriod
+        ) {
+            revert CannotRecoverPrizes();
+        }
+
+        draw.prizesRecovered = true;
+        uint256 prizeCount;
+        for (uint256 i = 0; i < prizes.length; i++) {
+            if (prizeClaimed[i]) continue;
+            prizeClaimed[i] = true;
+            transferPrize(prizes[i], _receiver);
+            prizeCount++;
+        }
+
+        emit PrizesRecovered(raffleId, _receiver, prizeCount);
+    }
+
+    /// @notice Callback function used by the VRF wrapper, or the VRF coordinator in Subscription payment mode, to fulfill the randomness request.
+    /// @param _requestId The ID of the fulfilled request.
+    /// @param _randomWords The array of random words returned by Chainlink VRF.
+    function rawFulfillRandomWords(uint256 _requestId, uint256[] memory _randomWords) external {
+        if (randomness.paymentMode == PaymentMode.Subscription) {
+            if (msg.sender != randomness.subscription.coordinator) revert OnlyCoordinatorCanFulfill(msg.sender, randomness.subscription.coordinator);
+        } else if (msg.sender != address(randomness.vrfV2PlusWrapper)) {
+            revert OnlyVRFWrapperCanFulfill(msg.sender, address(randomness.vrfV2PlusWrapper));
+        }
+        fulfillRandomWords(_requestId, _randomWords);
     }
 
-    /// @notice Allows the winner to claim their prize.
-    function claimPrize() external {
-        if (winner == address(0)) revert WinnerNotSet();
-        if (block.timestamp > startClaimTime + PRIZE_CLAIM_PERIOD) revert PrizeClaimPeriodElapsed();
-        if (msg.sender != winner) revert OnlyWinnerCanCall();
+    /// @notice Returns the prizes of the raffle, in award order.
+    /// @return The prizes details.
+    function getPrizes() external view returns (Prize[] memory) {
+        return prizes;
+    }
 
-        address owner = IERC721(prize.contractAddress).ownerOf(prize.tokenId);
+    /// @notice Returns the winner of each prize, empty until the winners are first determined.
+    /// @return The winners addresses, address(0) for a prize left unawarded or not drawn again yet.
+    function getWinners() external view returns (address[] memory) {
+        return winners;
+    }
 
-        IERC721(prize.contractAddress).safeTransferFrom(owner, msg.sender, prize.tokenId);
-        emit PrizeClaimed(raffleId, msg.sender, prize.tokenId);
+    /// @notice Returns the random words of the current request, empty until the request is fulfilled.
+    /// @return The random words returned by Chainlink VRF.
+    function getRandomWords() external view returns (uint256[] memory) {
+        return request.randomWords;
+    }
+
+    /// @notice Returns the rewarding phase of the raffle.
+    /// @return The status, from Rewarding before the first randomness request to Claimed or Expired once the claim period of the draw is over.
+    function getStatus() external view returns (RaffleStatus) {
+        if (request.requestId == 0 && request.paid == 0) return RaffleStatus.Rewarding;
+        if (!request.fulfilled) return RaffleStatus.AwaitingRandomness;
+        // Recovered prizes are flagged as claimed
+        if (draw.prizesRecovered) return RaffleStatus.Expired;
+        if (draw.winnersRequestId != request.requestId) return RaffleStatus.AwaitingWinner;
+        if (!hasUnclaimedPrizes()) return RaffleStatus.Claimed;
+        return block.timestamp > draw.startClaimTime + rewardingConfig.prizeClaimPeriod ? RaffleStatus.Expired : RaffleStatus.Claimable;
+    }
+
+    /// @notice Returns the number of random words requested from Chainlink VRF, one for each prize.
+    /// @return The number of random words.
+    function getNumWords() public view returns (uint32) {
+        return uint32(prizes.length);
+    }
+
+    /// @notice Returns the gas limit for Chainlink VRF callback, which stores one random word for each prize.
+    /// @return The callback gas limit.
+    function getCallbackGasLimit() public view returns (uint32) {
+        return rewardingConfig.callbackGasLimit + CALLBACK_GAS_PER_EXTRA_WORD * (getNumWords() - 1);
+    }
+
+    /// @notice Returns the next step of the raffle that can be performed without off-chain input, driving the automation of the owner.
+    /// @dev Randomness is only requested automatically when charged to the VRF subscription, and drawn again only while prizes are left
+    /// unclaimed before the raffle is abandoned. Winners are only determined automatically from the ticket ledger.
+    /// @return The next step, None if the raffle is paused, closed or waiting for the owner.
+    function getUpkeepAction() public view returns (UpkeepAction) {
+        if (draw.prizesRecovered || isPaused()) return UpkeepAction.None;
+        if (request.fulfilled && draw.winnersRequestId != request.requestId) {
+            return proofType == ProofType.TicketLedger ? UpkeepAction.DetermineWinners : UpkeepAction.None;
+        }
+        if (randomness.paymentMode != PaymentMode.Subscription || !canAskForRandomness()) return UpkeepAction.None;
+        return UpkeepAction.AskForRandomness;
+    }
+
+    /// @notice Whether a new randomness request can be sent: before the first draw, after the claim period of the last draw while prizes
+    /// are left unclaimed and fewer than MAX_UNCLAIMED_DRAWS draws were made, or when the pending request has not been fulfilled within REQUEST_TIMEOUT.
+    /// @return True if askForRandomness would not revert with CannotAskForNewRandomness, in any payment mode but Subscription.
+    function canAskForRandomness() public view returns (bool) {
+        if (draw.prizesRecovered) return false;
+        if (request.requestId == 0 && request.paid == 0) return true;
+        if (!request.fulfilled) return block.timestamp > request.requestedAt + REQUEST_TIMEOUT;
+        if (draw.drawCount >= MAX_UNCLAIMED_DRAWS || !hasUnclaimedPrizes()) return false;
+        return block.timestamp > draw.startClaimTime + rewardingConfig.prizeClaimPeriod;
+    }
+
+    /// @notice Checks if the raffle is paused, halting draws and claims.
+    /// @return True if the pauser of the raffle reports it paused, false otherwise or if the raffle has no pauser.
+    function isPaused() public view returns (bool) {
+        return address(pauser) != address(0) && pauser.isRafflePaused(raffleId);
     }
 
     /// @notice Verifies the provided list of participants against the stored proof.
@@ -138,26 +529,204 @@ contract RaffleRewarder is VRFV2PlusWrapperConsumerBase, Ownable, RaffleErrors {
         return keccak256(abi.encode(_participants)) == participantsProof;
     }
 
-    /// @notice Callback function used by VRF Coordinator to fulfill randomness request.
+    /// @notice Verifies that the provided participant is a leaf of the Merkle tree whose root is the stored proof.
+    /// @param _participant The participant to verify.
+    /// @param _merkleProof The proof of inclusion of _participant.
+    /// @return True if the participant belongs to the tree, false otherwise.
+    function verifyParticipant(Participant calldata _participant, bytes32[] calldata _merkleProof) public view returns (bool) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(_participant))));
+        return MerkleProof.verifyCalldata(_merkleProof, participantsProof, leaf);
+    }
+
+    /// @notice Sends a randomness request paid according to the payment mode.
+    /// @param _payer The address paying for the LINK token fee in LinkWrapper payment mode.
+    /// @return requestId The ID of the VRF request.
+    /// @return price The amount of LINK or native currency paid, 0 when charged to the subscription.
+    function requestRandomWords(address _payer) private returns (uint256 requestId, uint256 price) {
+        uint32 callbackGasLimit = getCallbackGasLimit();
+        uint16 requestConfirmations = rewardingConfig.requestConfirmations;
+        uint32 numWords = getNumWords();
+        IVRFV2PlusWrapper vrfV2PlusWrapper = randomness.vrfV2PlusWrapper;
+        LinkTokenInterface linkToken = randomness.linkToken;
+        VRFSubscription storage subscription = randomness.subscription;
+
+        if (randomness.paymentMode == PaymentMode.LinkWrapper) {
+            bytes memory extraArgs = VRFV2PlusClient._argsToBytes(VRFV2PlusClient.ExtraArgsV1({nativePayment: false}));
+            price = vrfV2PlusWrapper.calculateRequestPrice(callbackGasLimit, numWords);
+            linkToken.transferFrom(_payer, address(this), price);
+            linkToken.transferAndCall(address(vrfV2PlusWrapper), price, abi.encode(callbackGasLimit, requestConfirmations, numWords, extraArgs));
+            requestId = vrfV2PlusWrapper.lastRequestId();
+        } else if (randomness.paymentMode == PaymentMode.NativeWrapper) {
+            bytes memory extraArgs = VRFV2PlusClient._argsToBytes(VRFV2PlusClient.ExtraArgsV1({nativePayment: true}));
+            price = vrfV2PlusWrapper.calculateRequestPriceNative(callbackGasLimit, numWords);
+            if (msg.value < price) revert IncorrectRandomnessPayment();
+            requestId = vrfV2PlusWrapper.requestRandomWordsInNative{value: price}(callbackGasLimit, requestConfirmations, numWords, extraArgs);
+        } else {
+            requestId = IVRFCoordinatorV2Plus(subscription.coordinator).requestRandomWords(
+                VRFV2PlusClient.RandomWordsRequest({
+                    keyHash: subscription.keyHash,
+                    subId: subscription.subscriptionId,
+                    requestConfirmations: requestConfirmations,
+                    callbackGasLimit: callbackGasLimit,
+                    numWords: numWords,
+                    extraArgs: VRFV2PlusClient._argsToBytes(VRFV2PlusClient.ExtraArgsV1({nativePayment: subscription.nativePayment}))
+                })
+            );
+        }
+    }
+
+    /// @notice Stores the random words of the fulfilled request, opening the prize claim period.
+    /// @dev Late fulfillments of abandoned requests are ignored, only the current request can determine the winners.
+    /// @param _requestId The ID of the fulfilled request.
     /// @param _randomWords The array of random words returned by Chainlink VRF.
-    function fulfillRandomWords(uint256, uint256[] memory _randomWords) internal override {
+    function fulfillRandomWords(uint256 _requestId, uint256[] memory _randomWords) private {
+        if (_requestId != request.requestId) return;
         request.fulfilled = true;
         request.randomWords = _randomWords;
-        winner = address(0);
-        startClaimTime = block.timestamp;
+        // Winners of unclaimed prizes lose them until the winners are determined again
+        for (uint256 i = 0; i < winners.length; i++) {
+            if (!prizeClaimed[i]) delete winners[i];
+        }
+        draw.startClaimTime = block.timestamp;
+    }
+
+    /// @notice Clears the winners of the unclaimed prizes before they are drawn from the current request, sizing the winner list on the first draw.
+    function resetWinners() private {
+        draw.winnersRequestId = request.requestId;
+        if (winners.length == 0) {
+            winners = new address[](prizes.length);
+            return;
+        }
+        for (uint256 i = 0; i < winners.length; i++) {
+            if (!prizeClaimed[i]) delete winners[i];
+        }
+    }
+
+    /// @notice Records the winner of a prize.
+    /// @param _prizeIndex The index of the prize in the prize list.
+    /// @param _winner The winner of the prize, address(0) if no ticket could be drawn for it.
+    function awardPrize(uint256 _prizeIndex, address _winner) private {
+        winners[_prizeIndex] = _winner;
+        if (_winner != address(0)) emit WinnerDetermined(raffleId, _prizeIndex, _winner);
+    }
+
+    /// @notice Transfers a prize out of the escrow.
+    /// @param _prize The prize to transfer.
+    /// @param _receiver The address receiving the prize.
+    function transferPrize(Prize memory _prize, address _receiver) private {
+        if (_prize.kind == PrizeKind.ERC721) {
+            IERC721(_prize.contractAddress).safeTransferFrom(address(this), _receiver, _prize.tokenId);
+        } else if (_prize.kind == PrizeKind.ERC20) {
+            IERC20(_prize.contractAddress).safeTransfer(_receiver, _prize.amount);
+        } else {
+            IERC1155(_prize.contractAddress).safeTransferFrom(address(this), _receiver, _prize.tokenId, _prize.amount, "");
+        }
+    }
+
+    /// @notice Checks that a prize exists and has an amount matching its kind.
+    /// @dev ERC721 and ERC1155 contracts must declare their interface through ERC165. The balances are checked by the escrow transfers.
+    /// @param _prize The prize to check.
+    function validatePrize(Prize memory _prize) private view {
+        if (_prize.kind == PrizeKind.ERC721) {
+            if (_prize.amount != 1 || !ERC165Checker.supportsInterface(_prize.contractAddress, type(IERC721).interfaceId)) revert InvalidPrize();
+            // ownerOf reverts for nonexistent tokens
+            try IERC721(_prize.contractAddress).ownerOf(_prize.tokenId) returns (address) {} catch {
+                revert InvalidPrize();
+            }
+        } else if (_prize.kind == PrizeKind.ERC20) {
+            if (_prize.amount == 0) revert InvalidPrize();
+        } else {
+            if (_prize.amount == 0 || !ERC165Checker.supportsInterface(_prize.contractAddress, type(IERC1155).interfaceId)) revert InvalidPrize();
+        }
+    }
+
+    /// @notice Checks whether some prizes are still waiting to be claimed.
+    /// @return True if a prize has not been claimed yet.
+    function hasUnclaimedPrizes() private view returns (bool) {
+        for (uint256 i = 0; i < prizes.length; i++) {
+            if (!prizeClaimed[i]) return true;
+        }
+        return false;
+    }
+
+    /// @notice Checks whether an address already won a prize.
+    /// @param _candidate The address to check.
+    /// @return True if the address won one of the prizes awarded so far or claimed one in an earlier draw.
+    function isWinner(address _candidate) private view returns (bool) {
+        for (uint256 i = 0; i < winners.length; i++) {
+            if (winners[i] == _candidate) return true;
+        }
+        return false;
+    }
+
+    /// @notice Checks whether a ticket falls in the range of one of the participants awarded a prize so far.
+    /// @param _participants The participant holding the winning ticket of each prize.
+    /// @param _ticketIndex The ticket to check.
+    /// @return True if the ticket belongs to an earlier winner or to the winner of a claimed prize.
+    function isWinnerTicket(Participant[] calldata _participants, uint256 _ticketIndex) private view returns (bool) {
+        for (uint256 i = 0; i < winners.length; i++) {
+            if (
+                winners[i] != address(0) &&
+                _ticketIndex >= _participants[i].cumulativeCount - _participants[i].ticketCount &&
+                _ticketIndex < _participants[i].cumulativeCount
+            ) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /// @notice Counts the tickets in the draw, sold and granted.
+    /// @dev The full ticket purchase contracts of the raffles created before the clones cannot grant tickets and only count the tickets sold.
+    /// @return The total number of tickets.
+    function countTickets() private view returns (uint256) {
+        try raffleTicketPurchase.totalTickets() returns (uint256 tickets) {
+            return tickets;
+        } catch {
+            return raffleTicketPurchase.totalTicketsSold();
+        }
+    }
+
+    /// @notice Checks that the randomness and claim parameters are within their bounds.
+    /// @param _rewardingConfig The parameters to check.
+    function validateRewardingConfig(RewardingConfig memory _rewardingConfig) private pure {
+        if (
+            _rewardingConfig.callbackGasLimit < MIN_CALLBACK_GAS_LIMIT ||
+            _rewardingConfig.callbackGasLimit > MAX_CALLBACK_GAS_LIMIT ||
+            _rewardingConfig.requestConfirmations < MIN_REQUEST_CONFIRMATIONS ||
+            _rewardingConfig.requestConfirmations > MAX_REQUEST_CONFIRMATIONS ||
+            _rewardingConfig.prizeClaimPeriod < MIN_PRIZE_CLAIM_PERIOD ||
+            _rewardingConfig.prizeClaimPeriod > MAX_PRIZE_CLAIM_PERIOD
+        ) {
+            revert InvalidRewardingConfig();
+        }
+    }
+
+    /// @notice Derives a winning ticket from the random word of a prize.
+    /// @dev The first attempt uses the random word itself, later attempts, needed when the ticket belongs to an earlier winner,
+    /// rehash it with the attempt number.
+    /// @param _randomWord The random word of the prize.
+    /// @param _attempt The draw attempt for the prize.
+    /// @param _ticketCount The total number of tickets in the draw.
+    /// @return The index of the winning ticket.
+    function drawTicket(uint256 _randomWord, uint256 _attempt, uint256 _ticketCount) private pure returns (uint256) {
+        if (_attempt == 0) return _randomWord % _ticketCount;
+        return uint256(keccak256(abi.encode(_randomWord, _attempt))) % _ticketCount;
     }
 
-    /// @notice Finds the winner based on the random number generated by Chainlink VRF.
+    /// @notice Finds the participant holding a ticket.
+    /// @dev The ticket belongs to the participant whose range [cumulativeCount - ticketCount, cumulativeCount) contains it,
+    /// the same rule applied to Merkle tree leaves.
     /// @param _participants The list of participants in the raffle.
+    /// @param _winningTicketIndex The index of the winning ticket.
     /// @return The address of the winner.
-    function findWinner(Participant[] calldata _participants) private view returns (address) {
+    function findWinner(Participant[] calldata _participants, uint256 _winningTicketIndex) private pure returns (address) {
         uint256 low = 0;
         uint256 high = _participants.length - 1;
-        uint256 winningTicketIndex = request.randomWords[0] % _participants[high].cumulativeCount;
 
         while (low < high) {
             uint256 mid = (low + high) / 2;
-            if (_participants[mid].cumulativeCount < winningTicketIndex) {
+            if (_participants[mid].cumulativeCount <= _winningTicketIndex) {
                 low = mid + 1;
             } else {
                 high = mid;
@@ -3,45 +3,183 @@ pragma solidity ^0.8.24;
 
 import {IERC20} from "@openzeppelin/contracts-v5/token/ERC20/IERC20.sol";
 import {IERC20Metadata} from "@openzeppelin/contracts-v5/token/ERC20/extensions/IERC20Metadata.sol";
+import {IERC20Permit} from "@openzeppelin/contracts-v5/token/ERC20/extensions/IERC20Permit.sol";
 import {SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
-import {Ownable} from "@openzeppelin/contracts-v5/access/Ownable.sol";
+import {Address} from "@openzeppelin/contracts-v5/utils/Address.sol";
+import {ECDSA} from "@openzeppelin/contracts-v5/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts-v5/utils/cryptography/EIP712.sol";
+import {MerkleProof} from "@openzeppelin/contracts-v5/utils/cryptography/MerkleProof.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-v5-upgradeable/access/OwnableUpgradeable.sol";
 import {RaffleErrors} from "./RaffleErrors.sol";
+import {ISignatureTransfer} from "./interfaces/ISignatureTransfer.sol";
+import {IReferralRegistry} from "./interfaces/IReferralRegistry.sol";
+import {IRafflePauser} from "./interfaces/IRafflePauser.sol";
 
 /// @title Raffle Ticket Purchase
 /// @dev Manages the purchase and refund of raffle tickets, inheriting functionalities for ownership and error handling.
-contract RaffleTicketPurchase is Ownable, RaffleErrors {
+/// @dev Tickets are paid either in an ERC20 token or, when the purchase token is NATIVE_CURRENCY, in the native currency of the chain.
+/// ERC20 payments can be authorized with an allowance, an EIP-2612 permit or a Permit2 signature transfer.
+/// @dev The owner can cancel the sale until the funds are withdrawn, purchasers can then claim a refund right away.
+/// @dev Purchases made with a registered referral code are counted for its referrer, who is paid a share of their revenue if the sale is successful.
+/// @dev The revenue of a successful sale is split between the payout recipients of the raffle, or sent to a single receiver if it has none.
+/// @dev Raffles are minimal proxy clones of a single implementation, initialized by the raffle manager instead of constructed.
+/// @dev Purchases can be gated to the addresses of a Merkle allowlist, the holders of an ERC20 or ERC721 token or the addresses approved
+/// by an off-chain signer. Allowlist and signature purchasers submit their gate proof once, it can set a personal cap of their own.
+/// The EIP-712 domain of the approvals is rebuilt with the address of each clone from the immutable name and version of the implementation.
+/// @dev Tickets can be discounted during early-bird price windows and by volume tiers, purchasers are refunded exactly what they paid.
+/// @dev The owner can grant free tickets up to a cap, they take part in the draw but are neither sold, refunded nor paid out.
+contract RaffleTicketPurchase is OwnableUpgradeable, EIP712, RaffleErrors {
     using SafeERC20 for IERC20;
 
+    /// @notice Structure to store a purchase or a grant in the ticket ledger.
+    /// @dev The purchase owns the tickets in [previous cumulativeCount, cumulativeCount), packed in a single slot.
+    struct TicketRange {
+        address purchaser;
+        uint96 cumulativeCount;
+    }
+
+    /// @notice Structure to store a recipient of the revenue of the raffle and its share.
+    struct Payout {
+        address recipient;
+        uint256 shareBps;
+    }
+
+    /// @notice Requirement purchasers must meet to buy tickets.
+    /// @dev Allowlist purchasers prove their leaf in the Merkle tree of the gate, TokenHolding purchasers hold enough of its token when
+    /// purchasing and Signature purchasers present a PurchaseApproval signed by its signer.
+    enum GateType {
+        None,
+        Allowlist,
+        TokenHolding,
+        Signature
+    }
+
+    /// @notice Structure to store the purchase gate of the raffle, only the fields of its gate type are used.
+    struct PurchaseGate {
+        GateType gateType;
+        bytes32 allowlistRoot; // Root of the tree whose leaves are the allowed addresses and their personal caps
+        address token; // ERC20 or ERC721 token purchasers must hold
+        uint256 minBalance; // Minimum balance of the token, in its smallest unit for ERC20 tokens
+        address signer; // Off-chain signer of the purchase approvals
+    }
+
+    /// @notice Structure to store an early-bird price window, discounting the purchases made before its end.
+    struct PriceWindow {
+        uint256 endTimestamp;
+        uint256 discountBps;
+    }
+
+    /// @notice Structure to store a volume discount tier, discounting the purchases after which the purchaser holds at least minTickets.
+    struct DiscountTier {
+        uint256 minTickets;
+        uint256 discountBps;
+    }
+
+    /// @notice Structure to store the discounts of the ticket price, empty lists for a flat price.
+    /// @dev The windows are sorted by end and the first one not ended applies, so their discounts can decay over time. The tiers are
+    /// sorted by minTickets and the highest one reached applies. The discounts of a window and a tier are compounded.
+    struct Pricing {
+        PriceWindow[] priceWindows;
+        DiscountTier[] discountTiers;
+    }
+
+    /// @notice Structure of the optional settings of a sale passed by the RaffleManager at the creation of a raffle, whose zeroed
+    /// fields pay the revenue receiver of the manager, open the sale to anyone and sell the tickets at a flat price.
+    struct SaleOptions {
+        Payout[] payouts;
+        PurchaseGate purchaseGate;
+        Pricing pricing;
+        uint256 maxGrantedTickets; // Cap of the free tickets granted by the owner, 0 to grant none
+    }
+
+    /// @notice Structure to store the tickets and payments of the sale and how it ended.
+    struct SaleState {
+        uint256 totalTicketsSold;
+        uint256 totalGrantedTickets;
+        uint256 totalPaid; // Amount paid for the tickets not refunded
+        bool canceled; // Whether the raffle was canceled, blocking purchases and opening refunds
+        bool fundsWithdrawn; // Whether the funds of the successful raffle were withdrawn
+    }
+
+    /// @notice Structure to store the referral settings of the raffle and the totals of the tickets purchased with a registered referral code.
+    struct Referrals {
+        IReferralRegistry registry; // Registry resolving referral codes to referrers, address(0) to disable referrals
+        uint256 feeBps; // Share of the revenue of referred tickets paid to their referrer
+        uint256 totalTickets;
+        uint256 totalPayments;
+        uint256 claimedFees;
+    }
+
+    /// @notice Structure to store the tickets and payments of an address as a purchaser, a recipient of granted tickets and a referrer.
+    struct Account {
+        uint256 ticketsPurchased;
+        uint256 amountPaid; // Amount paid for the tickets not refunded
+        uint256 ticketsGranted;
+        uint256 approvedMaxTickets; // Personal cap approved by an Allowlist or Signature gate, 0 if not approved
+        uint256 referredTickets; // Tickets purchased with the referral codes of the address
+        uint256 referredPayments; // Amount paid for those tickets
+        bool referralFeesClaimed;
+    }
+
+    /// @notice Sentinel purchase token address of raffles selling tickets for the native currency.
+    address public constant NATIVE_CURRENCY = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+    /// @notice Decimals of the native currency.
+    uint8 public constant NATIVE_CURRENCY_DECIMALS = 18;
+    /// @notice The canonical Uniswap Permit2 contract, deployed at the same address on every supported chain.
+    ISignatureTransfer public constant PERMIT2 = ISignatureTransfer(0x000000000022D473030F116dDEE9F6B43aC78BA3);
+    /// @notice The basis points of a referral fee paying the whole ticket price.
+    uint256 public constant MAX_REFERRAL_FEE_BPS = 10_000;
+    /// @notice The basis points the shares of the payouts add up to.
+    uint256 public constant TOTAL_PAYOUT_SHARES_BPS = 10_000;
+    /// @notice Maximum number of payout recipients.
+    uint256 public constant MAX_PAYOUTS = 10;
+    /// @notice The basis points of a discount making tickets free, discounts must stay below it.
+    uint256 public constant MAX_DISCOUNT_BPS = 10_000;
+    /// @notice Maximum number of early-bird price windows and of volume discount tiers.
+    uint256 public constant MAX_PRICING_STEPS = 10;
+    /// @notice The EIP-712 type hash of the purchase approvals signed by the signer of a Signature gate.
+    bytes32 public constant PURCHASE_APPROVAL_TYPEHASH = keccak256("PurchaseApproval(address purchaser,uint256 maxTickets,uint256 deadline)");
+
     /// @notice The id of the raffle.
-    uint256 public immutable raffleId;
-    /// @notice The token used to purchase raffle tickets.
-    IERC20 public immutable purchaseToken;
-    /// @notice The price of one raffle ticket.
-    uint256 public immutable ticketPrice;
+    uint256 public raffleId;
+    /// @notice The token used to purchase raffle tickets, NATIVE_CURRENCY for the native currency.
+    IERC20 public purchaseToken;
+    /// @notice The price of one raffle ticket before discounts.
+    uint256 public ticketPrice;
     /// @notice The timestamp when the raffle starts.
-    uint256 public immutable startTimestamp;
+    uint256 public startTimestamp;
     /// @notice The timestamp when the raffle ends.
-    uint256 public immutable finishTimestamp;
-    /// @notice Total number of tickets sold.
-    uint256 public totalTicketsSold;
+    uint256 public finishTimestamp;
     /// @notice Minimum number of tickets required to consider the raffle tickets sale successful.
-    uint256 public immutable minTickets;
+    uint256 public minTickets;
     /// @notice Maximum number of tickets that can be sold.
-    uint256 public immutable maxTickets;
+    uint256 public maxTickets;
     /// @notice Maximum number of tickets an individual can purchase.
-    uint256 public immutable personalMaxTickets;
+    uint256 public personalMaxTickets;
     /// @notice Version of the raffle manager contract.
-    bytes1 public immutable version;
+    bytes1 public version;
+    /// @notice The contract pausing the raffle, address(0) if the raffle cannot be paused.
+    IRafflePauser public pauser;
+    /// @notice The tickets and payments of the sale and how it ended.
+    SaleState public sale;
+    /// @notice The referral settings of the raffle and the totals of the referred purchases.
+    Referrals public referrals;
+    /// @notice The payouts, purchase gate, pricing and cap of granted tickets of the raffle.
+    SaleOptions private saleOptions;
+
+    /// @notice Tracks the tickets and payments of each address.
+    mapping(address => Account) public accounts;
 
-    /// @notice Tracks the number of tickets purchased by each address.
-    mapping(address => uint256) public ticketsPurchased;
+    /// @notice Ordered list of purchases and grants, used to resolve the owner of a ticket without an off-chain participant list.
+    TicketRange[] public ticketLedger;
 
     /// @notice Emitted when a ticket is purchased.
     /// @param raffleId The id of the raffle.
     /// @param purchaser The address of the ticket purchaser.
+    /// @param referrer The referrer registered for the referral code, address(0) if the code is not registered.
     /// @param referralCode The referral code of the person who referred the purchaser.
     /// @param ticketAmount The number of tickets purchased.
-    event TicketPurchased(uint256 indexed raffleId, address indexed purchaser, string indexed referralCode, uint256 ticketAmount);
+    event TicketPurchased(uint256 indexed raffleId, address indexed purchaser, address indexed referrer, string referralCode, uint256 ticketAmount);
 
     /// @notice Emitted when funds are withdrawn.
     /// @param raffleId The id of the raffle.
@@ -55,6 +193,16 @@ contract RaffleTicketPurchase is Ownable, RaffleErrors {
     /// @param amount The amount refunded.
     event RefundIssued(uint256 indexed raffleId, address indexed purchaser, uint256 amount);
 
+    /// @notice Emitted when the raffle is canceled.
+    /// @param raffleId The id of the raffle.
+    event RaffleCanceled(uint256 indexed raffleId);
+
+    /// @notice Emitted when a referrer claims their referral fees.
+    /// @param raffleId The id of the raffle.
+    /// @param referrer The address of the referrer.
+    /// @param amount The amount of referral fees paid.
+    event ReferralFeesClaimed(uint256 indexed raffleId, address indexed referrer, uint256 amount);
+
     /// @notice Emitted when excess tokens are withdrawn.
     /// @param raffleId The id of the raffle.
     /// @param receiver The address receiving the withdrawn tokens.
@@ -62,16 +210,47 @@ contract RaffleTicketPurchase is Ownable, RaffleErrors {
     /// @param amount The amount of tokens withdrawn.
     event ExcessTokensWithdrawn(uint256 indexed raffleId, address receiver, address tokenAddress, uint256 amount);
 
-    /// @dev Sets the initial values for the raffle ticket system.
+    /// @notice Emitted when a purchaser is approved by the gate of the raffle.
+    /// @param raffleId The id of the raffle.
+    /// @param purchaser The address of the purchaser.
+    /// @param maxTickets The maximum number of tickets the purchaser can purchase.
+    event PurchaserApproved(uint256 indexed raffleId, address indexed purchaser, uint256 maxTickets);
+
+    /// @notice Emitted when free tickets are granted.
+    /// @param raffleId The id of the raffle.
+    /// @param recipient The address receiving the tickets.
+    /// @param ticketAmount The number of tickets granted.
+    event TicketsGranted(uint256 indexed raffleId, address indexed recipient, uint256 ticketAmount);
+
+    /// @notice Modifier to halt ticket sales and withdrawals while the raffle is paused, refunds stay available.
+    modifier whenNotPaused() {
+        if (isPaused()) revert RafflePaused();
+        _;
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() EIP712("RaffleTicketPurchase", "1") {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes a clone with the values of its raffle ticket system, the caller becoming its owner.
     /// @param _raffleId The id of the raffle.
-    /// @param _purchaseToken The address of the token used for ticket purchase.
+    /// @param _purchaseToken The address of the token used for ticket purchase, NATIVE_CURRENCY for the native currency.
     /// @param _ticketPrice The price of one raffle ticket.
     /// @param _startTimestamp The timestamp when the raffle starts.
     /// @param _finishTimestamp The timestamp when the raffle ends.
     /// @param _minTickets The minimum number of tickets required for a successful raffle.
     /// @param _maxTickets The maximum number of tickets that can be sold.
     /// @param _personalMaxTickets The maximum number of tickets an individual can purchase.
-    constructor(
+    /// @param _version The version of the raffle manager contract.
+    /// @param _referralRegistry The registry resolving referral codes to referrers, address(0) to disable referrals.
+    /// @param _referralFeeBps The share of the revenue of referred tickets paid to their referrer, in basis points.
+    /// @param _payouts The recipients of the revenue and their shares adding up to TOTAL_PAYOUT_SHARES_BPS, empty to send it to a single receiver.
+    /// @param _pauser The contract pausing the raffle, address(0) if the raffle cannot be paused.
+    /// @param _purchaseGate The requirement purchasers must meet to buy tickets, GateType.None for an open sale.
+    /// @param _pricing The early-bird price windows and volume discount tiers of the ticket price, empty lists for a flat price.
+    /// @param _maxGrantedTickets The maximum number of free tickets the owner can grant, on top of the tickets sold.
+    function initialize(
         uint256 _raffleId,
         address _purchaseToken,
         uint256 _ticketPrice,
@@ -80,15 +259,31 @@ contract RaffleTicketPurchase is Ownable, RaffleErrors {
         uint256 _minTickets,
         uint256 _maxTickets,
         uint256 _personalMaxTickets,
-        bytes1 _version
-    ) Ownable(msg.sender) {
+        bytes1 _version,
+        address _referralRegistry,
+        uint256 _referralFeeBps,
+        Payout[] memory _payouts,
+        address _pauser,
+        PurchaseGate memory _purchaseGate,
+        Pricing memory _pricing,
+        uint256 _maxGrantedTickets
+    ) external initializer {
+        __Ownable_init(msg.sender);
         if (_purchaseToken == address(0)) revert InvalidTokenAddress();
         if (_startTimestamp >= _finishTimestamp || _startTimestamp < block.timestamp) revert InvalidTimestamps();
-        if (_minTickets > _maxTickets || _minTickets == 0 || _maxTickets == 0 || _personalMaxTickets == 0 || _personalMaxTickets > _maxTickets)
-            revert InvalidCaps();
+        if (
+            _minTickets > _maxTickets ||
+            _minTickets == 0 ||
+            _maxTickets == 0 ||
+            _maxTickets > type(uint96).max ||
+            _personalMaxTickets == 0 ||
+            _personalMaxTickets > _maxTickets ||
+            _maxGrantedTickets > type(uint96).max - _maxTickets
+        ) revert InvalidCaps();
+        if (_referralFeeBps > MAX_REFERRAL_FEE_BPS) revert InvalidReferralFee();
 
         raffleId = _raffleId;
-        uint8 decimals = IERC20Metadata(_purchaseToken).decimals();
+        uint8 decimals = _purchaseToken == NATIVE_CURRENCY ? NATIVE_CURRENCY_DECIMALS : IERC20Metadata(_purchaseToken).decimals();
         ticketPrice = _ticketPrice * (10 ** decimals);
         purchaseToken = IERC20(_purchaseToken);
         startTimestamp = _startTimestamp;
@@ -96,75 +291,459 @@ contract RaffleTicketPurchase is Ownable, RaffleErrors {
         minTickets = _minTickets;
         maxTickets = _maxTickets;
         personalMaxTickets = _personalMaxTickets;
+        saleOptions.maxGrantedTickets = _maxGrantedTickets;
         version = _version;
+        referrals.registry = IReferralRegistry(_referralRegistry);
+        referrals.feeBps = _referralFeeBps;
+        pauser = IRafflePauser(_pauser);
+
+        if (_payouts.length > MAX_PAYOUTS) revert InvalidPayouts();
+        uint256 totalShares;
+        for (uint256 i = 0; i < _payouts.length; i++) {
+            if (_payouts[i].recipient == address(0) || _payouts[i].shareBps == 0) revert InvalidPayouts();
+            totalShares += _payouts[i].shareBps;
+            saleOptions.payouts.push(_payouts[i]);
+        }
+        if (_payouts.length > 0 && totalShares != TOTAL_PAYOUT_SHARES_BPS) revert InvalidPayouts();
+
+        if (
+            (_purchaseGate.gateType == GateType.Allowlist && _purchaseGate.allowlistRoot == bytes32(0)) ||
+            (_purchaseGate.gateType == GateType.TokenHolding && (_purchaseGate.token == address(0) || _purchaseGate.minBalance == 0)) ||
+            (_purchaseGate.gateType == GateType.Signature && _purchaseGate.signer == address(0))
+        ) revert InvalidPurchaseGate();
+        saleOptions.purchaseGate = _purchaseGate;
+
+        if (_pricing.priceWindows.length > MAX_PRICING_STEPS || _pricing.discountTiers.length > MAX_PRICING_STEPS) revert InvalidPricing();
+        for (uint256 i = 0; i < _pricing.priceWindows.length; i++) {
+            PriceWindow memory window = _pricing.priceWindows[i];
+            if (window.discountBps >= MAX_DISCOUNT_BPS || (i > 0 && window.endTimestamp <= _pricing.priceWindows[i - 1].endTimestamp)) revert InvalidPricing();
+            saleOptions.pricing.priceWindows.push(window);
+        }
+        for (uint256 i = 0; i < _pricing.discountTiers.length; i++) {
+            DiscountTier memory tier = _pricing.discountTiers[i];
+            if (tier.discountBps >= MAX_DISCOUNT_BPS || tier.minTickets <= (i > 0 ? _pricing.discountTiers[i - 1].minTickets : 0)) revert InvalidPricing();
+            saleOptions.pricing.discountTiers.push(tier);
+        }
     }
 
     /// @notice Allows a user to purchase raffle tickets.
     /// @param _ticketAmount Number of tickets to purchase.
     /// @param _referralCode Referral code of the person who referred the purchaser.
-    /// @dev Requires the raffle to be active and within ticket purchase limits.
-    function purchaseTickets(uint256 _ticketAmount, string calldata _referralCode) external {
-        if (_ticketAmount == 0) revert InvalidTicketAmount();
-        if (block.timestamp < startTimestamp || block.timestamp > finishTimestamp) revert RaffleNotActive();
-        if (totalTicketsSold + _ticketAmount > maxTickets) revert MaxCapReached();
-        if (ticketsPurchased[msg.sender] + _ticketAmount > personalMaxTickets) revert PersonalMaxCapReached();
+    /// @dev Requires the raffle to be active and within ticket purchase limits. Native currency raffles must be paid exactly the total cost
+    /// given by quote, ERC20 raffles must not be sent any native currency.
+    function purchaseTickets(uint256 _ticketAmount, string calldata _referralCode) external payable whenNotPaused {
+        pay(recordPurchase(_ticketAmount, _referralCode));
+    }
 
-        ticketsPurchased[msg.sender] += _ticketAmount;
-        totalTicketsSold += _ticketAmount;
+    /// @notice Allows a user to submit their gate proof and purchase raffle tickets in a single transaction.
+    /// @param _ticketAmount Number of tickets to purchase.
+    /// @param _referralCode Referral code of the person who referred the purchaser.
+    /// @param _gateProof The gate proof of the purchaser, see submitGateProof.
+    /// @dev Paid like purchaseTickets, in the native currency or with a prior approval of the purchase token.
+    function purchaseTicketsWithGateProof(uint256 _ticketAmount, string calldata _referralCode, bytes calldata _gateProof) external payable whenNotPaused {
+        submitGateProof(_gateProof);
+        pay(recordPurchase(_ticketAmount, _referralCode));
+    }
 
-        uint256 totalCost = _ticketAmount * ticketPrice;
+    /// @notice Allows a user to purchase raffle tickets paid with an EIP-2612 permit instead of a prior approval.
+    /// @param _ticketAmount Number of tickets to purchase.
+    /// @param _referralCode Referral code of the person who referred the purchaser.
+    /// @param _deadline The deadline of the permit.
+    /// @param _v The recovery byte of the permit signature.
+    /// @param _r Half of the ECDSA permit signature pair.
+    /// @param _s Half of the ECDSA permit signature pair.
+    /// @dev The permit must grant this contract at least the total cost of the tickets. A failing permit is ignored when the allowance
+    /// is already sufficient, so a front-run permit cannot block the purchase.
+    function purchaseTicketsWithPermit(
+        uint256 _ticketAmount,
+        string calldata _referralCode,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external whenNotPaused {
+        if (isNativeCurrency()) revert InvalidTokenAddress();
+        uint256 totalCost = recordPurchase(_ticketAmount, _referralCode);
+        try IERC20Permit(address(purchaseToken)).permit(msg.sender, address(this), totalCost, _deadline, _v, _r, _s) {} catch {}
         purchaseToken.safeTransferFrom(msg.sender, address(this), totalCost);
-        emit TicketPurchased(raffleId, msg.sender, _referralCode, _ticketAmount);
+    }
+
+    /// @notice Allows a user to purchase raffle tickets paid with a Permit2 signature transfer.
+    /// @param _ticketAmount Number of tickets to purchase.
+    /// @param _referralCode Referral code of the person who referred the purchaser.
+    /// @param _permit The permit signed by the purchaser, its permitted token must be the purchase token.
+    /// @param _signature The signature of the permit.
+    /// @dev The purchaser must have approved PERMIT2 for the purchase token, the permitted amount must cover the total cost of the tickets
+    /// and the permit must be signed for this contract as spender.
+    function purchaseTicketsWithPermit2(
+        uint256 _ticketAmount,
+        string calldata _referralCode,
+        ISignatureTransfer.PermitTransferFrom calldata _permit,
+        bytes calldata _signature
+    ) external whenNotPaused {
+        if (isNativeCurrency() || _permit.permitted.token != address(purchaseToken)) revert InvalidTokenAddress();
+        uint256 totalCost = recordPurchase(_ticketAmount, _referralCode);
+        PERMIT2.permitTransferFrom(_permit, ISignatureTransfer.SignatureTransferDetails(address(this), totalCost), msg.sender, _signature);
     }
 
     /// @notice Withdraws funds after a successful raffle, only callable by the owner.
-    /// @dev Verifies the raffle was successful before allowing withdrawal.
-    /// @param receiver Address to send the funds.
-    function withdrawFunds(address receiver) external onlyOwner {
+    /// @dev Verifies the raffle was successful before allowing withdrawal, which can only happen once. The referral fees not claimed yet are
+    /// kept for their referrers. The funds are split between the payout recipients, the last one receiving the rounding dust, and sent to the
+    /// receiver only without payouts.
+    /// @param receiver Address to send the funds to if the raffle has no payouts, required in that case.
+    function withdrawFunds(address receiver) external onlyOwner whenNotPaused {
         if (!isSuccessful()) revert RaffleNotSuccessful();
-        uint256 balance = purchaseToken.balanceOf(address(this));
-        purchaseToken.safeTransfer(receiver, balance);
-        emit FundsWithdrawn(raffleId, receiver, balance);
+        if (sale.fundsWithdrawn) revert FundsAlreadyWithdrawn();
+        sale.fundsWithdrawn = true;
+        uint256 balance = balanceOf(address(purchaseToken)) - ((referrals.totalPayments * referrals.feeBps) / MAX_REFERRAL_FEE_BPS - referrals.claimedFees);
+
+        Payout[] storage payouts = saleOptions.payouts;
+        if (payouts.length == 0) {
+            if (receiver == address(0)) revert RevenueReceiverNotSet();
+            transferTo(address(purchaseToken), receiver, balance);
+            emit FundsWithdrawn(raffleId, receiver, balance);
+            return;
+        }
+
+        uint256 distributed;
+        for (uint256 i = 0; i < payouts.length; i++) {
+            Payout memory payout = payouts[i];
+            uint256 amount = i == payouts.length - 1 ? balance - distributed : (balance * payout.shareBps) / TOTAL_PAYOUT_SHARES_BPS;
+            distributed += amount;
+            transferTo(address(purchaseToken), payout.recipient, amount);
+            emit FundsWithdrawn(raffleId, payout.recipient, amount);
+        }
+    }
+
+    /// @notice Cancels the raffle, only callable by the owner.
+    /// @dev Purchases are blocked and refunds open immediately, regardless of the tickets sold and the finish timestamp.
+    /// Cannot be called once the funds were withdrawn or referral fees were claimed, the refunds would no longer be covered.
+    function cancel() external onlyOwner {
+        if (sale.canceled) revert RaffleAlreadyCanceled();
+        if (sale.fundsWithdrawn) revert FundsAlreadyWithdrawn();
+        if (referrals.claimedFees > 0) revert ReferralFeesAlreadyClaimed();
+        sale.canceled = true;
+        emit RaffleCanceled(raffleId);
     }
 
     /// @notice Withdraws tokens sent in excess to the contract, only callable by the owner.
-    /// @param tokenAddress The address of the token to withdraw.
+    /// @param tokenAddress The address of the token to withdraw, NATIVE_CURRENCY for the native currency.
     /// @param amount The amount of tokens to withdraw.
     /// @param receiver Address to send the funds.
     function withdrawExcessTokens(address tokenAddress, uint256 amount, address receiver) external onlyOwner {
         if (tokenAddress == address(0)) revert InvalidTokenAddress();
         if (amount == 0) revert InvalidAmount();
 
-        IERC20 token = IERC20(tokenAddress);
-
-        uint256 withdrawableAmount = token.balanceOf(address(this));
+        uint256 withdrawableAmount = balanceOf(tokenAddress);
         if (tokenAddress == address(purchaseToken)) {
-            if (withdrawableAmount <= totalTicketsSold * ticketPrice) revert NoExcessPurchaseToken();
-            withdrawableAmount = withdrawableAmount - totalTicketsSold * ticketPrice;
+            if (withdrawableAmount <= sale.totalPaid) revert NoExcessPurchaseToken();
+            withdrawableAmount = withdrawableAmount - sale.totalPaid;
         }
 
         if (amount > withdrawableAmount) revert WithdrawAmountExceedsLimit();
-        token.safeTransfer(receiver, amount);
+        transferTo(tokenAddress, receiver, amount);
         emit ExcessTokensWithdrawn(raffleId, receiver, tokenAddress, amount);
     }
 
     /// @notice Allows ticket holders to claim a refund if the raffle fails to meet the minimum ticket sales requirement.
-    /// @dev Refunds are only available after the raffle finishes and if the minimum ticket sales are not met.
+    /// @dev Refunds are only available once the raffle is canceled, or after it finishes if the minimum ticket sales are not met.
     function claimRefund() external {
-        if (block.timestamp < finishTimestamp || totalTicketsSold >= minTickets) revert RaffleNotFailed();
-        uint256 tickets = ticketsPurchased[msg.sender];
-        if (tickets == 0) revert RefundNotAvailable();
+        if (!isFailed()) revert RaffleNotFailed();
+        if (!refund(msg.sender)) revert RefundNotAvailable();
+    }
+
+    /// @notice Pushes the refunds of a failed raffle to its purchasers, only callable by the owner.
+    /// @param _purchasers The purchasers to refund, a page small enough to fit in a block. Purchasers already refunded are skipped.
+    /// @return refunded The number of purchasers refunded.
+    function refundPurchasers(address[] calldata _purchasers) external onlyOwner returns (uint256 refunded) {
+        if (!isFailed()) revert RaffleNotFailed();
+        for (uint256 i = 0; i < _purchasers.length; i++) {
+            if (refund(_purchasers[i])) refunded++;
+        }
+    }
 
-        uint256 refundAmount = tickets * ticketPrice;
-        ticketsPurchased[msg.sender] = 0;
+    /// @notice Grants free tickets, only callable by the owner until the sale finishes.
+    /// @param _recipients The addresses receiving the tickets.
+    /// @param _ticketAmount The number of tickets granted to each recipient.
+    /// @dev Granted tickets are recorded in the ticket ledger and take part in the draw, but they do not count toward the caps and
+    /// success of the sale, are not refunded and pay no revenue or referral fee.
+    function grantTickets(address[] calldata _recipients, uint256 _ticketAmount) external onlyOwner whenNotPaused {
+        if (sale.canceled || sale.fundsWithdrawn || block.timestamp > finishTimestamp) revert RaffleNotActive();
+        if (_ticketAmount == 0) revert InvalidTicketAmount();
+        if (sale.totalGrantedTickets + _recipients.length * _ticketAmount > saleOptions.maxGrantedTickets) revert MaxGrantedTicketsReached();
 
-        purchaseToken.safeTransfer(msg.sender, refundAmount);
-        emit RefundIssued(raffleId, msg.sender, refundAmount);
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            if (_recipients[i] == address(0)) revert WrongInput();
+            accounts[_recipients[i]].ticketsGranted += _ticketAmount;
+            sale.totalGrantedTickets += _ticketAmount;
+            ticketLedger.push(TicketRange(_recipients[i], uint96(totalTickets())));
+            emit TicketsGranted(raffleId, _recipients[i], _ticketAmount);
+        }
+    }
+
+    /// @notice Allows a referrer to claim the fees of the tickets purchased with their referral codes.
+    /// @dev Requires the raffle tickets sale to be successful.
+    function claimReferralFees() external whenNotPaused {
+        if (!isSuccessful()) revert RaffleNotSuccessful();
+        uint256 amount = referralFeesOf(msg.sender);
+        if (amount == 0 || accounts[msg.sender].referralFeesClaimed) revert NoReferralFees();
+
+        accounts[msg.sender].referralFeesClaimed = true;
+        referrals.claimedFees += amount;
+
+        transferTo(address(purchaseToken), msg.sender, amount);
+        emit ReferralFeesClaimed(raffleId, msg.sender, amount);
+    }
+
+    /// @notice Returns the number of purchases and grants recorded in the ticket ledger.
+    /// @return The length of the ticket ledger.
+    function ticketLedgerLength() external view returns (uint256) {
+        return ticketLedger.length;
+    }
+
+    /// @notice Resolves the owner of a ticket by binary searching the ticket ledger.
+    /// @dev Tickets of refunded purchasers resolve to the zero address, as they no longer take part in the raffle. Refunds only happen
+    /// in raffles that are not drawn, so the tickets purchased by a recipient of granted tickets never need to be told apart.
+    /// @param _ticketIndex The index of the ticket, between 0 and totalTickets - 1.
+    /// @return The address owning the ticket.
+    function ticketOwner(uint256 _ticketIndex) external view returns (address) {
+        if (_ticketIndex >= totalTickets()) revert InvalidTicketIndex();
+
+        uint256 low = 0;
+        uint256 high = ticketLedger.length - 1;
+
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (ticketLedger[mid].cumulativeCount <= _ticketIndex) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        address purchaser = ticketLedger[low].purchaser;
+        return accounts[purchaser].ticketsPurchased == 0 && accounts[purchaser].ticketsGranted == 0 ? address(0) : purchaser;
+    }
+
+    /// @notice Returns the number of tickets purchased by an address.
+    /// @param _purchaser The address of the purchaser.
+    /// @return The tickets purchased and not refunded.
+    function ticketsPurchased(address _purchaser) external view returns (uint256) {
+        return accounts[_purchaser].ticketsPurchased;
+    }
+
+    /// @notice Returns the number of tickets sold.
+    /// @dev Read by the rewarder from the full ticket purchase contracts of the raffles created before the clones as well.
+    /// @return The tickets sold, granted tickets excluded.
+    function totalTicketsSold() external view returns (uint256) {
+        return sale.totalTicketsSold;
+    }
+
+    /// @notice Returns the payouts, purchase gate, pricing and cap of granted tickets of the raffle.
+    /// @return The sale options, with empty payouts if the revenue is sent to a single receiver.
+    function getSaleOptions() external view returns (SaleOptions memory) {
+        return saleOptions;
+    }
+
+    /// @notice Approves the caller to purchase tickets of a raffle gated by an Allowlist or Signature gate.
+    /// @param _gateProof The ABI encoded proof of the gate: (uint256 maxTickets, bytes32[] merkleProof) for an Allowlist gate and
+    /// (uint256 maxTickets, uint256 deadline, bytes signature) for a Signature gate, maxTickets being 0 to keep the personal cap of the raffle.
+    /// @dev The approval is recorded so that any purchase function can be used afterwards, a new proof replaces the personal cap.
+    function submitGateProof(bytes calldata _gateProof) public {
+        PurchaseGate storage purchaseGate = saleOptions.purchaseGate;
+        GateType gateType = purchaseGate.gateType;
+        uint256 personalCap;
+        if (gateType == GateType.Allowlist) {
+            bytes32[] memory merkleProof;
+            (personalCap, merkleProof) = abi.decode(_gateProof, (uint256, bytes32[]));
+            bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, personalCap))));
+            if (!MerkleProof.verify(merkleProof, purchaseGate.allowlistRoot, leaf)) revert InvalidGateProof();
+        } else if (gateType == GateType.Signature) {
+            uint256 deadline;
+            bytes memory signature;
+            (personalCap, deadline, signature) = abi.decode(_gateProof, (uint256, uint256, bytes));
+            bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(PURCHASE_APPROVAL_TYPEHASH, msg.sender, personalCap, deadline)));
+            (address signer, , ) = ECDSA.tryRecover(digest, signature);
+            if (block.timestamp > deadline || signer != purchaseGate.signer) revert InvalidGateProof();
+        } else {
+            revert InvalidGateProof();
+        }
+
+        if (personalCap == 0) personalCap = personalMaxTickets;
+        accounts[msg.sender].approvedMaxTickets = personalCap;
+        emit PurchaserApproved(raffleId, msg.sender, personalCap);
+    }
+
+    /// @notice Returns the referral fees of a referrer, a share of the amount paid for the tickets purchased with their referral codes.
+    /// @param _referrer The address of the referrer.
+    /// @return The referral fees, claimed or not.
+    function referralFeesOf(address _referrer) public view returns (uint256) {
+        return (accounts[_referrer].referredPayments * referrals.feeBps) / MAX_REFERRAL_FEE_BPS;
+    }
+
+    /// @notice Returns the cost of a purchase made now.
+    /// @param _buyer The address of the purchaser, whose tickets already purchased count toward the volume discount tiers.
+    /// @param _ticketAmount Number of tickets to purchase.
+    /// @return The amount to be paid for the tickets, the discounts of the current price window and of the tier reached being compounded.
+    function quote(address _buyer, uint256 _ticketAmount) public view returns (uint256) {
+        uint256 price = ticketPrice;
+        PriceWindow[] storage priceWindows = saleOptions.pricing.priceWindows;
+        for (uint256 i = 0; i < priceWindows.length; i++) {
+            if (block.timestamp < priceWindows[i].endTimestamp) {
+                price -= (price * priceWindows[i].discountBps) / MAX_DISCOUNT_BPS;
+                break;
+            }
+        }
+
+        uint256 tickets = accounts[_buyer].ticketsPurchased + _ticketAmount;
+        DiscountTier[] storage discountTiers = saleOptions.pricing.discountTiers;
+        for (uint256 i = discountTiers.length; i > 0; i--) {
+            if (tickets >= discountTiers[i - 1].minTickets) {
+                price -= (price * discountTiers[i - 1].discountBps) / MAX_DISCOUNT_BPS;
+                break;
+            }
+        }
+        return _ticketAmount * price;
+    }
+
+    /// @notice Returns the number of tickets taking part in the draw.
+    /// @return The tickets sold and granted.
+    function totalTickets() public view returns (uint256) {
+        return sale.totalTicketsSold + sale.totalGrantedTickets;
+    }
+
+    /// @notice Checks if the raffle tickets are paid in the native currency.
+    /// @return true if the purchase token is NATIVE_CURRENCY, false otherwise.
+    function isNativeCurrency() public view returns (bool) {
+        return address(purchaseToken) == NATIVE_CURRENCY;
     }
 
     /// @notice Checks if the raffle tickets sale is successful based on ticket sales and time.
-    /// @return true if the raffle tickets sale is successful, false otherwise.
+    /// @return true if the raffle tickets sale is successful, false otherwise or if the raffle was canceled.
     function isSuccessful() public view returns (bool) {
-        return (block.timestamp >= finishTimestamp && totalTicketsSold >= minTickets) || (totalTicketsSold == maxTickets);
+        return !sale.canceled && ((block.timestamp >= finishTimestamp && sale.totalTicketsSold >= minTickets) || (sale.totalTicketsSold == maxTickets));
+    }
+
+    /// @notice Checks if the raffle tickets sale failed, opening refunds.
+    /// @return true if the raffle was canceled or the sale finished below the minimum tickets, false otherwise.
+    function isFailed() public view returns (bool) {
+        return sale.canceled || (block.timestamp >= finishTimestamp && sale.totalTicketsSold < minTickets);
+    }
+
+    /// @notice Checks if an address meets the purchase gate of the raffle.
+    /// @param _purchaser The address of the purchaser.
+    /// @return true if the raffle is not gated, the purchaser holds enough of the gate token or was approved by the gate, false otherwise.
+    /// @dev The token holding is only checked when purchasing, the tickets are kept if the tokens are transferred afterwards.
+    function isPurchaseAllowed(address _purchaser) public view returns (bool) {
+        PurchaseGate storage purchaseGate = saleOptions.purchaseGate;
+        GateType gateType = purchaseGate.gateType;
+        if (gateType == GateType.None) return true;
+        // ERC20 and ERC721 tokens share the balanceOf signature
+        if (gateType == GateType.TokenHolding) return IERC20(purchaseGate.token).balanceOf(_purchaser) >= purchaseGate.minBalance;
+        return accounts[_purchaser].approvedMaxTickets != 0;
+    }
+
+    /// @notice Returns the maximum number of tickets an address can purchase.
+    /// @param _purchaser The address of the purchaser.
+    /// @return The personal cap approved by the gate of the raffle, or personalMaxTickets for other purchasers.
+    function personalMaxTicketsOf(address _purchaser) public view returns (uint256) {
+        uint256 approved = accounts[_purchaser].approvedMaxTickets;
+        return approved == 0 ? personalMaxTickets : approved;
+    }
+
+    /// @notice Checks if the raffle is paused, halting ticket sales and withdrawals.
+    /// @return true if the pauser of the raffle reports it paused, false otherwise or if the raffle has no pauser.
+    function isPaused() public view returns (bool) {
+        return address(pauser) != address(0) && pauser.isRafflePaused(raffleId);
+    }
+
+    /// @notice Records a ticket purchase of the caller.
+    /// @param _ticketAmount Number of tickets to purchase.
+    /// @param _referralCode Referral code of the person who referred the purchaser.
+    /// @return totalCost The amount to be paid for the tickets.
+    /// @dev Requires the raffle to be active and within ticket purchase limits, the payment is left to the caller.
+    function recordPurchase(uint256 _ticketAmount, string calldata _referralCode) private returns (uint256 totalCost) {
+        if (_ticketAmount == 0) revert InvalidTicketAmount();
+        if (sale.canceled || block.timestamp < startTimestamp || block.timestamp > finishTimestamp) revert RaffleNotActive();
+        if (!isPurchaseAllowed(msg.sender)) revert PurchaseNotAllowed();
+        Account storage account = accounts[msg.sender];
+        if (sale.totalTicketsSold + _ticketAmount > maxTickets) revert MaxCapReached();
+        if (account.ticketsPurchased + _ticketAmount > personalMaxTicketsOf(msg.sender)) revert PersonalMaxCapReached();
+
+        totalCost = quote(msg.sender, _ticketAmount);
+        account.amountPaid += totalCost;
+        sale.totalPaid += totalCost;
+        account.ticketsPurchased += _ticketAmount;
+        sale.totalTicketsSold += _ticketAmount;
+        ticketLedger.push(TicketRange(msg.sender, uint96(totalTickets())));
+
+        address referrer = resolveReferrer(_referralCode);
+        if (referrer != address(0)) {
+            accounts[referrer].referredTickets += _ticketAmount;
+            referrals.totalTickets += _ticketAmount;
+            accounts[referrer].referredPayments += totalCost;
+            referrals.totalPayments += totalCost;
+        }
+
+        emit TicketPurchased(raffleId, msg.sender, referrer, _referralCode, _ticketAmount);
+    }
+
+    /// @notice Collects the payment of a purchase from the caller, in the native currency sent or with an allowance of the purchase token.
+    /// @param _totalCost The amount to be paid for the tickets.
+    /// @dev Native currency raffles must be paid exactly the total cost, ERC20 raffles must not be sent any native currency.
+    function pay(uint256 _totalCost) private {
+        if (isNativeCurrency()) {
+            if (msg.value != _totalCost) revert IncorrectPaymentAmount();
+        } else {
+            if (msg.value != 0) revert IncorrectPaymentAmount();
+            purchaseToken.safeTransferFrom(msg.sender, address(this), _totalCost);
+        }
+    }
+
+    /// @notice Refunds all the tickets of a purchaser.
+    /// @param _purchaser The address of the purchaser.
+    /// @return false if the purchaser has no tickets to refund, true otherwise.
+    function refund(address _purchaser) private returns (bool) {
+        Account storage account = accounts[_purchaser];
+        if (account.ticketsPurchased == 0) return false;
+
+        uint256 refundAmount = account.amountPaid;
+        account.ticketsPurchased = 0;
+        account.amountPaid = 0;
+        sale.totalPaid -= refundAmount;
+
+        transferTo(address(purchaseToken), _purchaser, refundAmount);
+        emit RefundIssued(raffleId, _purchaser, refundAmount);
+        return true;
+    }
+
+    /// @notice Transfers tokens held by this contract.
+    /// @param _tokenAddress The address of the token, NATIVE_CURRENCY for the native currency.
+    /// @param _receiver The address receiving the tokens.
+    /// @param _amount The amount of tokens to transfer.
+    function transferTo(address _tokenAddress, address _receiver, uint256 _amount) private {
+        if (_tokenAddress == NATIVE_CURRENCY) {
+            Address.sendValue(payable(_receiver), _amount);
+        } else {
+            IERC20(_tokenAddress).safeTransfer(_receiver, _amount);
+        }
+    }
+
+    /// @notice Resolves the referrer of a purchase.
+    /// @param _referralCode The referral code used in the purchase.
+    /// @return The referrer registered for the code, address(0) if referrals are disabled, the code is not registered or refers the purchaser.
+    function resolveReferrer(string calldata _referralCode) private view returns (address) {
+        IReferralRegistry registry = referrals.registry;
+        if (address(registry) == address(0) || bytes(_referralCode).length == 0) return address(0);
+        address referrer = registry.referrerOf(_referralCode);
+        return referrer == msg.sender ? address(0) : referrer;
+    }
+
+    /// @notice Returns the balance of this contract in a token.
+    /// @param _tokenAddress The address of the token, NATIVE_CURRENCY for the native currency.
+    /// @return The balance of this contract.
+    function balanceOf(address _tokenAddress) private view returns (uint256) {
+        if (_tokenAddress == NATIVE_CURRENCY) return address(this).balance;
+        return IERC20(_tokenAddress).balanceOf(address(this));
     }
 }
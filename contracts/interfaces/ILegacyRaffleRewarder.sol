@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title ILegacyRaffleRewarder
+/// @notice The full rewarder contracts deployed before the clones, which draw the winner of a single prize and do not list the winners.
+interface ILegacyRaffleRewarder {
+    /// @notice Returns the winner of the prize.
+    /// @return The address of the winner, address(0) until determined.
+    function winner() external view returns (address);
+}
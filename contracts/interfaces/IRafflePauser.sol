@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title IRafflePauser
+/// @notice Tells the ticket purchase and rewarder contracts of a raffle whether it is paused, halting its sales, withdrawals, draws and claims.
+interface IRafflePauser {
+    /// @notice Returns whether a raffle is paused.
+    /// @param raffleId The id of the raffle.
+    /// @return Whether the raffle is paused on its own or by a global pause.
+    function isRafflePaused(uint256 raffleId) external view returns (bool);
+}
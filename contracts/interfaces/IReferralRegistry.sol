@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title IReferralRegistry
+/// @notice Resolves the referral codes used in ticket purchases to the addresses of the referrers who registered them.
+interface IReferralRegistry {
+    /// @notice Returns the referrer of a referral code.
+    /// @param code The referral code.
+    /// @return The address of the referrer who registered the code, address(0) if the code is not registered.
+    function referrerOf(string calldata code) external view returns (address);
+}
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title ISignatureTransfer
+/// @notice Subset of the Uniswap Permit2 signature transfer interface used to pull ticket payments with a single signature.
+interface ISignatureTransfer {
+    /// @notice The token and amount details for a transfer signed in the permit transfer signature.
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    /// @notice The signed permit message for a single token transfer.
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    /// @notice Specifies the recipient address and amount for batched transfers.
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    /// @notice Transfers a token using a signed permit message.
+    /// @param permit The permit data signed over by the owner.
+    /// @param transferDetails The spender's requested transfer details for the permitted token.
+    /// @param owner The owner of the tokens to transfer.
+    /// @param signature The signature to verify.
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+}
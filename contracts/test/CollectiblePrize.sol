@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts-v5/token/ERC1155/ERC1155.sol";
+
+contract CollectiblePrize is ERC1155 {
+    constructor() ERC1155("") {
+        _mint(msg.sender, 1, 10, "");
+        _mint(msg.sender, 2, 1, "");
+    }
+}
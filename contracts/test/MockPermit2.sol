@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts-v5/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts-v5/utils/cryptography/ECDSA.sol";
+import {ISignatureTransfer} from "../interfaces/ISignatureTransfer.sol";
+
+/// @dev Signature transfer part of Permit2 with the same typed data, deployed at the canonical Permit2 address in tests.
+/// The domain separator is computed on each call since the code is set at an address it was not deployed to.
+contract MockPermit2 is ISignatureTransfer {
+    using SafeERC20 for IERC20;
+
+    error SignatureExpired(uint256 signatureDeadline);
+    error InvalidAmount(uint256 maxAmount);
+    error InvalidSigner();
+    error InvalidNonce();
+
+    bytes32 private constant TYPE_HASH = keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)");
+    bytes32 private constant TOKEN_PERMISSIONS_TYPEHASH = keccak256("TokenPermissions(address token,uint256 amount)");
+    bytes32 private constant PERMIT_TRANSFER_FROM_TYPEHASH =
+        keccak256("PermitTransferFrom(TokenPermissions permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)");
+
+    mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > permit.deadline) revert SignatureExpired(permit.deadline);
+        if (transferDetails.requestedAmount > permit.permitted.amount) revert InvalidAmount(permit.permitted.amount);
+        useUnorderedNonce(owner, permit.nonce);
+
+        bytes32 tokenPermissionsHash = keccak256(abi.encode(TOKEN_PERMISSIONS_TYPEHASH, permit.permitted));
+        bytes32 structHash = keccak256(abi.encode(PERMIT_TRANSFER_FROM_TYPEHASH, tokenPermissionsHash, msg.sender, permit.nonce, permit.deadline));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        if (ECDSA.recover(digest, signature) != owner) revert InvalidSigner();
+
+        IERC20(permit.permitted.token).safeTransferFrom(owner, transferDetails.to, transferDetails.requestedAmount);
+    }
+
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(TYPE_HASH, keccak256("Permit2"), block.chainid, address(this)));
+    }
+
+    function useUnorderedNonce(address from, uint256 nonce) private {
+        uint256 bit = 1 << (nonce & 0xff);
+        uint256 flipped = nonceBitmap[from][nonce >> 8] ^= bit;
+        if (flipped & bit == 0) revert InvalidNonce();
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IRafflePauser} from "../interfaces/IRafflePauser.sol";
+
+contract MockRafflePauser is IRafflePauser {
+    mapping(uint256 => bool) private paused;
+
+    function setPaused(uint256 raffleId, bool _paused) external {
+        paused[raffleId] = _paused;
+    }
+
+    function isRafflePaused(uint256 raffleId) external view returns (bool) {
+        return paused[raffleId];
+    }
+}
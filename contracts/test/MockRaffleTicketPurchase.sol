@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+contract MockRaffleTicketPurchase {
+    uint256 public totalTickets;
+
+    constructor(uint256 _totalTickets) {
+        totalTickets = _totalTickets;
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IReferralRegistry} from "../interfaces/IReferralRegistry.sol";
+
+contract MockReferralRegistry is IReferralRegistry {
+    mapping(string => address) private referrers;
+
+    function setReferrer(string calldata code, address referrer) external {
+        referrers[code] = referrer;
+    }
+
+    function referrerOf(string calldata code) external view returns (address) {
+        return referrers[code];
+    }
+}
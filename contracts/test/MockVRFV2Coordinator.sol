@@ -5,4 +5,16 @@ import "@chainlink/contracts/src/v0.8/vrf/mocks/VRFCoordinatorV2_5Mock.sol";
 
 contract MockVRFCoordinatorV2Mock is VRFCoordinatorV2_5Mock {
     constructor(uint96 _baseFee, uint96 _gasPriceLink) VRFCoordinatorV2_5Mock(_baseFee, _gasPriceLink, 0.004 ether) {}
+
+    /// @notice Returns whether a pending request is charged in native currency, the last byte of its extra args.
+    function isNativePaymentRequest(uint256 _requestId) external view returns (bool) {
+        bytes memory extraArgs = s_requests[_requestId].extraArgs;
+        if (s_requests[_requestId].subId == 0) revert InvalidRequest();
+        return extraArgs.length > 0 && uint8(extraArgs[extraArgs.length - 1]) == 1;
+    }
+
+    /// @notice Returns the subscription a pending request is charged to.
+    function requestSubscriptionId(uint256 _requestId) external view returns (uint256) {
+        return s_requests[_requestId].subId;
+    }
 }
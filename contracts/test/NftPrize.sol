@@ -9,5 +9,6 @@ contract NftPrize is ERC721 {
         _mint(msg.sender, 1);
         _mint(msg.sender, 2);
         _mint(msg.sender, 3);
+        _mint(msg.sender, 4);
     }
 }
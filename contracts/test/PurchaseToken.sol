@@ -2,9 +2,10 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts-v5/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts-v5/token/ERC20/extensions/ERC20Permit.sol";
 
-contract PurchaseToken is ERC20 {
-    constructor() ERC20("PurchaseToken", "PTK") {
+contract PurchaseToken is ERC20, ERC20Permit {
+    constructor() ERC20("PurchaseToken", "PTK") ERC20Permit("PurchaseToken") {
         _mint(msg.sender, type(uint256).max);
     }
 
@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Ownable2StepUpgradeable} from "@openzeppelin/contracts-v5-upgradeable/access/Ownable2StepUpgradeable.sol";
+import {RaffleErrors} from "../RaffleErrors.sol";
+import {RaffleTicketPurchaseV1} from "./RaffleTicketPurchaseV1.sol";
+import {RaffleRewarderV1} from "./RaffleRewarderV1.sol";
+
+// The storage layout, raffle creation and rewarding start of the manager deployed on Polygon, which deploys full raffle contracts
+contract RaffleManagerV1 is Ownable2StepUpgradeable, RaffleErrors {
+    struct Raffle {
+        RaffleTicketPurchaseV1 raffleTicketPurchase;
+        RaffleRewarderV1 raffleRewarder;
+        address purchaseToken;
+        uint256 ticketPrice;
+        uint256 startTimestamp;
+        uint256 finishTimestamp;
+        uint256 minCap;
+        uint256 maxCap;
+        uint256 personalMaxCap;
+        RaffleRewarderV1.Prize prize;
+        bytes32 participantsProof;
+        address winner;
+        bytes1 version;
+    }
+
+    address public vrfV2Wrapper;
+    uint256 public lastRaffleId;
+    bytes1 public version;
+    mapping(address => bool) public knownRaffles;
+    mapping(uint256 => Raffle) public raffles;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address _vrfV2Wrapper) external initializer {
+        __Ownable_init(msg.sender);
+        vrfV2Wrapper = _vrfV2Wrapper;
+        version = "1";
+    }
+
+    function createNewRaffle(
+        address _purchaseToken,
+        uint256 _ticketPrice,
+        uint256 _startTimestamp,
+        uint256 _finishTimestamp,
+        uint256 _minTickets,
+        uint256 _maxTickets,
+        uint256 _personalMaxTickets
+    ) external onlyOwner {
+        RaffleTicketPurchaseV1 raffleTicketPurchase = new RaffleTicketPurchaseV1(
+            lastRaffleId,
+            _purchaseToken,
+            _ticketPrice,
+            _startTimestamp,
+            _finishTimestamp,
+            _minTickets,
+            _maxTickets,
+            _personalMaxTickets,
+            version
+        );
+
+        knownRaffles[address(raffleTicketPurchase)] = true;
+        raffles[lastRaffleId] = Raffle(
+            raffleTicketPurchase,
+            RaffleRewarderV1(address(0)),
+            _purchaseToken,
+            _ticketPrice,
+            _startTimestamp,
+            _finishTimestamp,
+            _minTickets,
+            _maxTickets,
+            _personalMaxTickets,
+            RaffleRewarderV1.Prize(address(0), 0),
+            bytes32(0),
+            address(0),
+            version
+        );
+        lastRaffleId += 1;
+    }
+
+    function startRewarding(uint256 _id, RaffleRewarderV1.Prize calldata _prize, bytes32 _participantsProof) external onlyOwner {
+        Raffle storage raffle = raffles[_id];
+        if (!raffle.raffleTicketPurchase.isSuccessful()) revert RaffleNotSuccessful();
+        if (address(raffle.raffleRewarder) != address(0)) revert RewardingAlreadyStarted();
+
+        raffle.raffleTicketPurchase.withdrawFunds(msg.sender);
+
+        RaffleRewarderV1 raffleRewarder = new RaffleRewarderV1(_id, _prize, _participantsProof, vrfV2Wrapper, version);
+
+        knownRaffles[address(raffleRewarder)] = true;
+
+        raffle.raffleRewarder = raffleRewarder;
+        raffle.prize = _prize;
+        raffle.participantsProof = _participantsProof;
+    }
+}
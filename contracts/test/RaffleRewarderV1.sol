@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {VRFV2PlusWrapperConsumerBase} from "@chainlink/contracts/src/v0.8/vrf/dev/VRFV2PlusWrapperConsumerBase.sol";
+import {VRFV2PlusClient} from "@chainlink/contracts/src/v0.8/vrf/dev/libraries/VRFV2PlusClient.sol";
+import {Ownable} from "@openzeppelin/contracts-v5/access/Ownable.sol";
+import {RaffleErrors} from "../RaffleErrors.sol";
+
+// The full rewarder contract deployed by RaffleManagerV1, drawing the winner of a single prize without the winner list of the clones
+contract RaffleRewarderV1 is VRFV2PlusWrapperConsumerBase, Ownable {
+    struct Participant {
+        address addr;
+        uint256 ticketCount;
+        uint256 cumulativeCount;
+    }
+
+    struct Prize {
+        address contractAddress;
+        uint256 tokenId;
+    }
+
+    struct RequestStatus {
+        uint256 requestId;
+        uint256 paid;
+        bool fulfilled;
+        uint256[] randomWords;
+    }
+
+    RequestStatus public request;
+    uint32 public constant CALLBACK_GAS_LIMIT = 100000;
+    uint16 public constant REQUEST_CONFIRMATION = 3;
+    uint32 public constant NUM_WORDS = 1;
+    uint256 public constant PRIZE_CLAIM_PERIOD = 5 days;
+    uint256 public immutable raffleId;
+    bytes32 public immutable participantsProof;
+    bytes1 public immutable version;
+    uint256 public startClaimTime;
+    Prize public prize;
+    address public winner;
+
+    constructor(
+        uint256 _raffleId,
+        Prize memory _prize,
+        bytes32 _participantsProof,
+        address _vrfV2Wrapper,
+        bytes1 _version
+    ) Ownable(msg.sender) VRFV2PlusWrapperConsumerBase(_vrfV2Wrapper) {
+        prize = _prize;
+        participantsProof = _participantsProof;
+        raffleId = _raffleId;
+        version = _version;
+    }
+
+    function askForRandomness(address payer) external onlyOwner {
+        if (!((request.requestId == 0 && request.paid == 0) || (request.fulfilled && block.timestamp > startClaimTime + PRIZE_CLAIM_PERIOD))) {
+            revert RaffleErrors.CannotAskForNewRandomness();
+        }
+
+        bytes memory extraArgs = VRFV2PlusClient._argsToBytes(VRFV2PlusClient.ExtraArgsV1({nativePayment: false}));
+
+        uint256 price = i_vrfV2PlusWrapper.calculateRequestPrice(CALLBACK_GAS_LIMIT, NUM_WORDS);
+        i_linkToken.transferFrom(payer, address(this), price);
+
+        (uint256 requestId, uint256 reqPrice) = requestRandomness(CALLBACK_GAS_LIMIT, REQUEST_CONFIRMATION, NUM_WORDS, extraArgs);
+        request = RequestStatus({requestId: requestId, paid: reqPrice, randomWords: new uint256[](0), fulfilled: false});
+
+        i_linkToken.transfer(payer, i_linkToken.balanceOf(address(this)));
+    }
+
+    function determineWinner(Participant[] calldata _participants) external onlyOwner {
+        if (!request.fulfilled) revert RaffleErrors.AskForRandomnessFirst();
+        if (keccak256(abi.encode(_participants)) != participantsProof) revert RaffleErrors.WrongInput();
+
+        uint256 low = 0;
+        uint256 high = _participants.length - 1;
+        uint256 winningTicketIndex = request.randomWords[0] % _participants[high].cumulativeCount;
+
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (_participants[mid].cumulativeCount < winningTicketIndex) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        winner = _participants[low].addr;
+    }
+
+    function fulfillRandomWords(uint256, uint256[] memory _randomWords) internal override {
+        request.fulfilled = true;
+        request.randomWords = _randomWords;
+        winner = address(0);
+        startClaimTime = block.timestamp;
+    }
+}
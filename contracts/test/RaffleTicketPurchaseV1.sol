@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts-v5/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts-v5/token/ERC20/extensions/IERC20Metadata.sol";
+import {SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
+import {Ownable} from "@openzeppelin/contracts-v5/access/Ownable.sol";
+import {RaffleErrors} from "../RaffleErrors.sol";
+
+// The full ticket purchase contract deployed by RaffleManagerV1, without the totalTickets view of the clones or the referrer in its TicketPurchased event
+contract RaffleTicketPurchaseV1 is Ownable, RaffleErrors {
+    using SafeERC20 for IERC20;
+
+    uint256 public immutable raffleId;
+    IERC20 public immutable purchaseToken;
+    uint256 public immutable ticketPrice;
+    uint256 public immutable startTimestamp;
+    uint256 public immutable finishTimestamp;
+    uint256 public totalTicketsSold;
+    uint256 public immutable minTickets;
+    uint256 public immutable maxTickets;
+    uint256 public immutable personalMaxTickets;
+    bytes1 public immutable version;
+
+    mapping(address => uint256) public ticketsPurchased;
+
+    event TicketPurchased(uint256 indexed raffleId, address indexed purchaser, string indexed referralCode, uint256 ticketAmount);
+
+    constructor(
+        uint256 _raffleId,
+        address _purchaseToken,
+        uint256 _ticketPrice,
+        uint256 _startTimestamp,
+        uint256 _finishTimestamp,
+        uint256 _minTickets,
+        uint256 _maxTickets,
+        uint256 _personalMaxTickets,
+        bytes1 _version
+    ) Ownable(msg.sender) {
+        if (_purchaseToken == address(0)) revert InvalidTokenAddress();
+        if (_startTimestamp >= _finishTimestamp || _startTimestamp < block.timestamp) revert InvalidTimestamps();
+        if (_minTickets > _maxTickets || _minTickets == 0 || _maxTickets == 0 || _personalMaxTickets == 0 || _personalMaxTickets > _maxTickets)
+            revert InvalidCaps();
+
+        raffleId = _raffleId;
+        ticketPrice = _ticketPrice * (10 ** IERC20Metadata(_purchaseToken).decimals());
+        purchaseToken = IERC20(_purchaseToken);
+        startTimestamp = _startTimestamp;
+        finishTimestamp = _finishTimestamp;
+        minTickets = _minTickets;
+        maxTickets = _maxTickets;
+        personalMaxTickets = _personalMaxTickets;
+        version = _version;
+    }
+
+    function purchaseTickets(uint256 _ticketAmount, string calldata _referralCode) external {
+        if (_ticketAmount == 0) revert InvalidTicketAmount();
+        if (block.timestamp < startTimestamp || block.timestamp > finishTimestamp) revert RaffleNotActive();
+        if (totalTicketsSold + _ticketAmount > maxTickets) revert MaxCapReached();
+        if (ticketsPurchased[msg.sender] + _ticketAmount > personalMaxTickets) revert PersonalMaxCapReached();
+
+        ticketsPurchased[msg.sender] += _ticketAmount;
+        totalTicketsSold += _ticketAmount;
+
+        purchaseToken.safeTransferFrom(msg.sender, address(this), _ticketAmount * ticketPrice);
+
+        emit TicketPurchased(raffleId, msg.sender, _referralCode, _ticketAmount);
+    }
+
+    function withdrawFunds(address receiver) external onlyOwner {
+        if (!isSuccessful()) revert RaffleNotSuccessful();
+        purchaseToken.safeTransfer(receiver, purchaseToken.balanceOf(address(this)));
+    }
+
+    function isSuccessful() public view returns (bool) {
+        return (block.timestamp >= finishTimestamp && totalTicketsSold >= minTickets) || (totalTicketsSold == maxTickets);
+    }
+}
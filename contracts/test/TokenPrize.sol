@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts-v5/token/ERC20/ERC20.sol";
+
+contract TokenPrize is ERC20 {
+    constructor() ERC20("TokenPrize", "TPZ") {
+        _mint(msg.sender, 1_000_000 ether);
+    }
+}
@@ -2,6 +2,9 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import { myDotenvConfig } from "./scripts/envUtils";
 import "@openzeppelin/hardhat-upgrades";
+import "./tasks/participants";
+import "./tasks/raffle";
+import "./tasks/roles";
 
 myDotenvConfig();
 
@@ -49,6 +52,31 @@ const config: HardhatUserConfig = {
         },
       },
     ],
+    // The manager is optimized for size with runs: 1, where the implementation deployed on Polygon used the default runs: 200.
+    // With 200 runs its bytecode exceeds the 24576 bytes contract size limit. The setting only trades the gas of its seldom called
+    // functions for bytecode size, it leaves the storage layout checked on upgrades unchanged. Its test upgrade target is compiled alike.
+    overrides: {
+      "contracts/RaffleManager.sol": {
+        version: "0.8.24",
+        settings: {
+          viaIR: true,
+          optimizer: {
+            enabled: true,
+            runs: 1,
+          },
+        },
+      },
+      "contracts/test/RaffleManagerV2.sol": {
+        version: "0.8.24",
+        settings: {
+          viaIR: true,
+          optimizer: {
+            enabled: true,
+            runs: 1,
+          },
+        },
+      },
+    },
   },
   networks: {
     hardhat: {
@@ -60,7 +88,6 @@ const config: HardhatUserConfig = {
       chainId: chainIds.hardhat,
       gas: 950000000,
       blockGasLimit: 950000000,
-      allowUnlimitedContractSize: true,
     },
     polygonTestnet: {
       url: `https://polygon-amoy.g.alchemy.com/v2/${alchemyApiKey}`,
@@ -1,6 +1,17 @@
 import { Contract } from "ethers";
 import { getImplementationAddress } from "@openzeppelin/upgrades-core";
 import { ethers, network, upgrades, run } from "hardhat";
+import { RaffleManager } from "../typechain-types";
+import { RaffleManagerRole, roleHash } from "./utils";
+
+// Operational roles and the env variables listing their initial holders, comma separated
+const roleHolderVariables: [RaffleManagerRole, string][] = [
+  ["RAFFLE_CREATOR_ROLE", "RAFFLE_CREATORS"],
+  ["REWARDING_OPERATOR_ROLE", "REWARDING_OPERATORS"],
+  ["TREASURER_ROLE", "TREASURERS"],
+  ["VRF_ADMIN_ROLE", "VRF_ADMINS"],
+  ["PAUSER_ROLE", "PAUSERS"],
+];
 
 export const verifyContract = async (name: string, taskArguments?: any) => {
   console.log(`Verifying contract ${name}`);
@@ -27,7 +38,25 @@ const verifyProxiedContractImplementation = async (contractName: string, contrac
   }
 };
 
-export const deployRaffleManager = async (vrfV2WrapperAddress: string) => {
+// The raffle contracts are clones of implementations deployed once and shared by every raffle
+export const deployRaffleImplementations = async () => {
+  const implementations: string[] = [];
+  for (const contractName of ["RaffleTicketPurchase", "RaffleRewarder"]) {
+    console.log(`\nDeploying implementation ${contractName}`);
+    const implementation = await ethers.deployContract(contractName);
+    await implementation.waitForDeployment();
+    const address = await implementation.getAddress();
+    console.log(`${contractName} implementation address: ${address}`);
+
+    await verifyContract(contractName, { address, contract: `contracts/${contractName}.sol:${contractName}` });
+    implementations.push(address);
+  }
+
+  const [raffleTicketPurchaseImplementation, raffleRewarderImplementation] = implementations;
+  return { raffleTicketPurchaseImplementation, raffleRewarderImplementation };
+};
+
+export const deployRaffleManager = async (vrfV2WrapperAddress: string, raffleTicketPurchaseImplementation: string, raffleRewarderImplementation: string) => {
   const [deployer] = await ethers.getSigners();
   console.log(`Deploying contracts with the account: ${deployer.address}`);
 
@@ -36,7 +65,7 @@ export const deployRaffleManager = async (vrfV2WrapperAddress: string) => {
   const contractName = "RaffleManager";
   console.log(`\nDeploying contract ${contractName}`);
 
-  const contractArgs = [vrfV2WrapperAddress];
+  const contractArgs = [vrfV2WrapperAddress, raffleTicketPurchaseImplementation, raffleRewarderImplementation];
   const RaffleManager = await ethers.getContractFactory(contractName);
   const raffleManager = await upgrades.deployProxy(RaffleManager, contractArgs, {
     initializer: "initialize",
@@ -49,6 +78,55 @@ export const deployRaffleManager = async (vrfV2WrapperAddress: string) => {
   return raffleManager;
 };
 
+// The lens only reads the manager, it is redeployed rather than upgraded
+export const deployRaffleLens = async (raffleManagerAddress: string) => {
+  const contractName = "RaffleLens";
+  console.log(`\nDeploying contract ${contractName}`);
+  const raffleLens = await ethers.deployContract(contractName, [raffleManagerAddress]);
+  await raffleLens.waitForDeployment();
+  const address = await raffleLens.getAddress();
+  console.log(`${contractName} address: ${address}`);
+
+  await verifyContract(contractName, { address, constructorArguments: [raffleManagerAddress], contract: `contracts/${contractName}.sol:${contractName}` });
+  return raffleLens;
+};
+
+export const getInitialRoleHolders = () =>
+  new Map<RaffleManagerRole, string[]>(
+    roleHolderVariables
+      .filter(([, variable]) => process.env[variable])
+      .map(([role, variable]) => [role, process.env[variable]!.split(",").map((holder) => ethers.getAddress(holder.trim()))])
+  );
+
+// The deployer is granted every role on initialization. It keeps the admin role and the roles without configured holders,
+// and renounces the roles handed over to their configured holders.
+export const grantInitialRoles = async (raffleManager: RaffleManager, roleHolders: Map<RaffleManagerRole, string[]>) => {
+  const [deployer] = await ethers.getSigners();
+
+  for (const [role, holders] of roleHolders) {
+    for (const holder of holders) {
+      if (await raffleManager.hasRole(roleHash(role), holder)) continue;
+      await (await raffleManager.grantRole(roleHash(role), holder)).wait();
+      console.log(`Granted ${role} to ${holder}`);
+    }
+    if (!holders.includes(deployer.address)) {
+      await (await raffleManager.renounceRole(roleHash(role), deployer.address)).wait();
+      console.log(`Deployer renounced ${role}`);
+    }
+  }
+};
+
+// The revenue of the raffles without payouts is sent to the receiver set by a treasurer, raffles cannot start rewarding without it
+export const setInitialRevenueReceiver = async (raffleManager: RaffleManager) => {
+  if (!process.env.REVENUE_RECEIVER) {
+    console.log("No REVENUE_RECEIVER configured, a treasurer must set it before the raffles without payouts start rewarding");
+    return;
+  }
+  const receiver = ethers.getAddress(process.env.REVENUE_RECEIVER);
+  await (await raffleManager.setRevenueReceiver(receiver)).wait();
+  console.log(`Revenue receiver set to ${receiver}`);
+};
+
 export const getChainLinkInfrastructure = async () => {
   if (!process.env.VRF_V2_WRAPPER_ADDRESS) throw new Error("Missing required env variables");
 
@@ -59,7 +137,12 @@ export const getChainLinkInfrastructure = async () => {
 
 async function main() {
   const { vrfV2Wrapper } = await getChainLinkInfrastructure();
-  await deployRaffleManager(await vrfV2Wrapper.getAddress());
+  const { raffleTicketPurchaseImplementation, raffleRewarderImplementation } = await deployRaffleImplementations();
+  const raffleManager = await deployRaffleManager(await vrfV2Wrapper.getAddress(), raffleTicketPurchaseImplementation, raffleRewarderImplementation);
+  // Set while the deployer still holds the treasurer role
+  await setInitialRevenueReceiver(raffleManager as unknown as RaffleManager);
+  await grantInitialRoles(raffleManager as unknown as RaffleManager, getInitialRoleHolders());
+  await deployRaffleLens(await raffleManager.getAddress());
 }
 
 main()
@@ -0,0 +1,63 @@
+import { AbiCoder, ZeroAddress } from "ethers";
+import { RaffleManager, RaffleTicketPurchase__factory } from "../typechain-types";
+import { UpkeepAction } from "./utils";
+
+export type PerformedUpkeep = {
+  raffleId: bigint;
+  action: UpkeepAction;
+  transactionHash: string;
+  blockNumber: number;
+};
+
+export type KeeperOptions = {
+  // The checkData passed to checkUpkeep, every raffle is checked when empty
+  checkData?: string;
+  // Bounds the transactions sent in a single round, in case a raffle keeps being reported
+  maxUpkeeps?: number;
+};
+
+const DEFAULT_MAX_UPKEEPS = 20;
+
+// Encodes the checkData of the raffle IDs checked by checkUpkeep, from the first included to the last excluded.
+export const encodeUpkeepRange = (from: bigint | number, to: bigint | number) => AbiCoder.defaultAbiCoder().encode(["uint256", "uint256"], [from, to]);
+
+// Performs the upkeeps reported by checkUpkeep, one raffle step per transaction, until no raffle is ready for its next step.
+// Each step is checked again on-chain by performUpkeep, so a keeper racing another one only wastes the gas of a reverted transaction.
+export const performDueUpkeeps = async (raffleManager: RaffleManager, options: KeeperOptions = {}): Promise<PerformedUpkeep[]> => {
+  const checkData = options.checkData ?? "0x";
+  const maxUpkeeps = options.maxUpkeeps ?? DEFAULT_MAX_UPKEEPS;
+  const managerAddress = await raffleManager.getAddress();
+
+  const performed: PerformedUpkeep[] = [];
+  while (performed.length < maxUpkeeps) {
+    const { upkeepNeeded, performData } = await raffleManager.checkUpkeep(checkData);
+    if (!upkeepNeeded) break;
+
+    const response = await raffleManager.performUpkeep(performData);
+    const receipt = await response.wait();
+    if (!receipt) throw new Error(`Transaction ${response.hash} not mined`);
+    const event = receipt.logs
+      .filter((log) => log.address === managerAddress)
+      .map((log) => raffleManager.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "UpkeepPerformed");
+    if (!event) throw new Error(`Transaction ${response.hash} performed no upkeep`);
+
+    performed.push({ raffleId: event.args.id, action: Number(event.args.action), transactionHash: response.hash, blockNumber: receipt.blockNumber });
+  }
+  return performed;
+};
+
+// Lists the raffles whose ticket sale succeeded but whose rewarding has not started, a step left to the REWARDING_OPERATOR_ROLE
+// since it escrows the prizes.
+export const findRafflesAwaitingRewarding = async (raffleManager: RaffleManager) => {
+  const lastRaffleId = await raffleManager.lastRaffleId();
+  const ids: bigint[] = [];
+  for (let id = 0n; id < lastRaffleId; id++) {
+    const raffle = await raffleManager.raffles(id);
+    if (raffle.raffleRewarder !== ZeroAddress) continue;
+
+    const raffleTicketPurchase = RaffleTicketPurchase__factory.connect(raffle.raffleTicketPurchase, raffleManager.runner);
+    if (await raffleTicketPurchase.isSuccessful()) ids.push(id);
+  }
+  return ids;
+};
@@ -0,0 +1,186 @@
+import { readFileSync, writeFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { Contract, EventLog, getAddress } from "ethers";
+import { RaffleTicketPurchase } from "../typechain-types";
+import { makeParticipantsProof, Participant } from "./utils";
+
+// Bump whenever the snapshot layout changes, consumers refuse unknown versions.
+export const SNAPSHOT_VERSION = 2;
+
+export type SerializedParticipant = { addr: string; ticketCount: string; cumulativeCount: string };
+
+export type ParticipantsSnapshot = {
+  version: number;
+  chainId: string;
+  raffleId: string;
+  raffleTicketPurchase: string;
+  blockNumber: number;
+  totalTicketsSold: string;
+  totalTicketsGranted: string;
+  participantsProof: string;
+  participants: SerializedParticipant[];
+};
+
+export type SnapshotOptions = {
+  fromBlock?: number;
+  toBlock?: number;
+  batchSize?: number;
+};
+
+export const queryInBatches = async <T>(query: (from: number, to: number) => Promise<T[]>, fromBlock: number, toBlock: number, batchSize?: number) => {
+  if (!batchSize) return query(fromBlock, toBlock);
+
+  const results: T[] = [];
+  for (let from = fromBlock; from <= toBlock; from += batchSize) {
+    results.push(...(await query(from, Math.min(from + batchSize - 1, toBlock))));
+  }
+  return results;
+};
+
+// TicketPurchased event of the ticket purchase contracts deployed before the clones, which has no referrer and only indexes the hash of the referral code
+const LEGACY_TICKET_PURCHASED = "event TicketPurchased(uint256 indexed raffleId, address indexed purchaser, string indexed referralCode, uint256 ticketAmount)";
+
+export const queryLegacyPurchases = async (
+  raffleTicketPurchase: RaffleTicketPurchase,
+  raffleId: bigint,
+  fromBlock: number,
+  toBlock: number,
+  batchSize?: number
+) => {
+  const legacyTicketPurchase = new Contract(raffleTicketPurchase.target, [LEGACY_TICKET_PURCHASED], raffleTicketPurchase.runner);
+  return queryInBatches(
+    async (from, to) => (await legacyTicketPurchase.queryFilter(legacyTicketPurchase.filters.TicketPurchased(raffleId), from, to)) as EventLog[],
+    fromBlock,
+    toBlock,
+    batchSize
+  );
+};
+
+// Reads a getter missing from the ticket purchase contracts deployed before the clones, falling back when the call reverts.
+export const readOrFallback = async <T, F>(read: () => Promise<T>, fallback: () => F | Promise<F>): Promise<T | F> => {
+  try {
+    return await read();
+  } catch {
+    return fallback();
+  }
+};
+
+// Sorts participants by address so that the same set of purchases always yields the same list and proof.
+const compareAddresses = (a: string, b: string) => {
+  const diff = BigInt(a) - BigInt(b);
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+};
+
+export const toParticipants = (ticketCounts: Map<string, bigint>): Participant[] => {
+  let cumulativeCount = 0n;
+  return [...ticketCounts.entries()]
+    .filter(([, ticketCount]) => ticketCount > 0n)
+    .sort(([a], [b]) => compareAddresses(a, b))
+    .map(([addr, ticketCount]) => {
+      cumulativeCount += ticketCount;
+      return { addr, ticketCount, cumulativeCount };
+    });
+};
+
+export const buildParticipantsSnapshot = async (raffleTicketPurchase: RaffleTicketPurchase, options: SnapshotOptions = {}): Promise<ParticipantsSnapshot> => {
+  const provider = raffleTicketPurchase.runner?.provider;
+  if (!provider) throw new Error("RaffleTicketPurchase is not connected to a provider");
+
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const fromBlock = options.fromBlock ?? 0;
+  const raffleId = await raffleTicketPurchase.raffleId({ blockTag: toBlock });
+
+  const [purchases, legacyPurchases, refunds, grants] = await Promise.all([
+    queryInBatches((from, to) => raffleTicketPurchase.queryFilter(raffleTicketPurchase.filters.TicketPurchased(raffleId), from, to), fromBlock, toBlock, options.batchSize),
+    queryLegacyPurchases(raffleTicketPurchase, raffleId, fromBlock, toBlock, options.batchSize),
+    queryInBatches((from, to) => raffleTicketPurchase.queryFilter(raffleTicketPurchase.filters.RefundIssued(raffleId), from, to), fromBlock, toBlock, options.batchSize),
+    queryInBatches((from, to) => raffleTicketPurchase.queryFilter(raffleTicketPurchase.filters.TicketsGranted(raffleId), from, to), fromBlock, toBlock, options.batchSize),
+  ]);
+
+  // Refunds zero the purchaser's tickets, so events must be replayed in chain order.
+  const events = [...purchases, ...legacyPurchases, ...refunds].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const purchasedCounts = new Map<string, bigint>();
+  let purchasedTickets = 0n;
+  for (const event of events) {
+    const purchaser = getAddress(event.args.purchaser);
+    if (event.eventName === "TicketPurchased") {
+      const { ticketAmount } = (event as (typeof purchases)[number] | (typeof legacyPurchases)[number]).args;
+      purchasedCounts.set(purchaser, (purchasedCounts.get(purchaser) ?? 0n) + ticketAmount);
+      purchasedTickets += ticketAmount;
+    } else {
+      purchasedCounts.set(purchaser, 0n);
+    }
+  }
+
+  // Granted tickets are never refunded, they are added to the tickets purchased by the same address.
+  const grantedCounts = new Map<string, bigint>();
+  let grantedTickets = 0n;
+  for (const { args } of grants) {
+    const recipient = getAddress(args.recipient);
+    grantedCounts.set(recipient, (grantedCounts.get(recipient) ?? 0n) + args.ticketAmount);
+    grantedTickets += args.ticketAmount;
+  }
+
+  const totalTicketsSold = await raffleTicketPurchase.totalTicketsSold({ blockTag: toBlock });
+  if (purchasedTickets !== totalTicketsSold) {
+    throw new Error(`Purchased tickets in events (${purchasedTickets}) disagree with totalTicketsSold (${totalTicketsSold}) at block ${toBlock}`);
+  }
+
+  // Tickets could not be granted before the clones
+  const { totalGrantedTickets: totalTicketsGranted } = await readOrFallback(
+    () => raffleTicketPurchase.sale({ blockTag: toBlock }),
+    () => ({ totalGrantedTickets: 0n })
+  );
+  if (grantedTickets !== totalTicketsGranted) {
+    throw new Error(`Granted tickets in events (${grantedTickets}) disagree with totalGrantedTickets (${totalTicketsGranted}) at block ${toBlock}`);
+  }
+
+  for (const [addr, ticketCount] of purchasedCounts) {
+    const onChainCount = await raffleTicketPurchase.ticketsPurchased(addr, { blockTag: toBlock });
+    if (onChainCount !== ticketCount) {
+      throw new Error(`Tickets of ${addr} in events (${ticketCount}) disagree with ticketsPurchased (${onChainCount}) at block ${toBlock}`);
+    }
+  }
+
+  for (const [addr, ticketCount] of grantedCounts) {
+    const { ticketsGranted: onChainCount } = await readOrFallback(
+      () => raffleTicketPurchase.accounts(addr, { blockTag: toBlock }),
+      () => ({ ticketsGranted: 0n })
+    );
+    if (onChainCount !== ticketCount) {
+      throw new Error(`Granted tickets of ${addr} in events (${ticketCount}) disagree with ticketsGranted (${onChainCount}) at block ${toBlock}`);
+    }
+  }
+
+  const ticketCounts = new Map(purchasedCounts);
+  for (const [addr, ticketCount] of grantedCounts) ticketCounts.set(addr, (ticketCounts.get(addr) ?? 0n) + ticketCount);
+  const participants = toParticipants(ticketCounts);
+
+  return {
+    version: SNAPSHOT_VERSION,
+    chainId: (await provider.getNetwork()).chainId.toString(),
+    raffleId: raffleId.toString(),
+    raffleTicketPurchase: await raffleTicketPurchase.getAddress(),
+    blockNumber: toBlock,
+    totalTicketsSold: totalTicketsSold.toString(),
+    totalTicketsGranted: totalTicketsGranted.toString(),
+    participantsProof: makeParticipantsProof(participants),
+    participants: participants.map((p) => ({ addr: p.addr, ticketCount: p.ticketCount.toString(), cumulativeCount: p.cumulativeCount.toString() })),
+  };
+};
+
+export const snapshotParticipants = (snapshot: ParticipantsSnapshot): Participant[] =>
+  snapshot.participants.map((p) => ({ addr: p.addr, ticketCount: BigInt(p.ticketCount), cumulativeCount: BigInt(p.cumulativeCount) }));
+
+export const writeParticipantsSnapshot = (path: string, snapshot: ParticipantsSnapshot) => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(snapshot, null, 2) + "\n");
+};
+
+export const readParticipantsSnapshot = (path: string): ParticipantsSnapshot => {
+  const snapshot = JSON.parse(readFileSync(path, "utf8")) as ParticipantsSnapshot;
+  if (snapshot.version !== SNAPSHOT_VERSION) throw new Error(`Unsupported snapshot version ${snapshot.version} in ${path}`);
+  if (makeParticipantsProof(snapshotParticipants(snapshot)) !== snapshot.participantsProof) throw new Error(`Participants proof mismatch in ${path}`);
+  return snapshot;
+};
@@ -0,0 +1,96 @@
+import { getAddress, id, ZeroAddress } from "ethers";
+import { RaffleTicketPurchase } from "../typechain-types";
+import { queryInBatches, queryLegacyPurchases, readOrFallback, SnapshotOptions } from "./participantsSnapshot";
+
+export type ReferrerReport = {
+  referrer: string;
+  codes: string[];
+  purchasers: number;
+  tickets: bigint;
+  fees: bigint;
+  feesClaimed: boolean;
+};
+
+export type ReferralReport = {
+  chainId: string;
+  raffleId: string;
+  raffleTicketPurchase: string;
+  blockNumber: number;
+  referralFeeBps: bigint;
+  totalReferredTickets: bigint;
+  referrers: ReferrerReport[];
+  // Codes used in purchases that were not registered to a referrer when the purchase was made, with their ticket count. The purchases made
+  // before the clones credited no referrer and only recorded the hash of their code, which is listed instead.
+  unregisteredCodes: Map<string, bigint>;
+};
+
+// Aggregates the referred purchases of a raffle per referrer from its TicketPurchased events, checked against the on-chain counts.
+// Referrers are sorted by referred tickets, most first.
+export const buildReferralReport = async (raffleTicketPurchase: RaffleTicketPurchase, options: SnapshotOptions = {}): Promise<ReferralReport> => {
+  const provider = raffleTicketPurchase.runner?.provider;
+  if (!provider) throw new Error("RaffleTicketPurchase is not connected to a provider");
+
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const fromBlock = options.fromBlock ?? 0;
+  const raffleId = await raffleTicketPurchase.raffleId({ blockTag: toBlock });
+
+  const purchases = await queryInBatches(
+    (from, to) => raffleTicketPurchase.queryFilter(raffleTicketPurchase.filters.TicketPurchased(raffleId), from, to),
+    fromBlock,
+    toBlock,
+    options.batchSize
+  );
+
+  const referrals = new Map<string, { codes: Set<string>; purchasers: Set<string>; tickets: bigint }>();
+  const unregisteredCodes = new Map<string, bigint>();
+  for (const { args } of await queryLegacyPurchases(raffleTicketPurchase, raffleId, fromBlock, toBlock, options.batchSize)) {
+    const codeHash: string = args.referralCode.hash;
+    if (codeHash !== id("")) unregisteredCodes.set(codeHash, (unregisteredCodes.get(codeHash) ?? 0n) + args.ticketAmount);
+  }
+  for (const { args } of purchases) {
+    if (args.referrer === ZeroAddress) {
+      if (args.referralCode) unregisteredCodes.set(args.referralCode, (unregisteredCodes.get(args.referralCode) ?? 0n) + args.ticketAmount);
+      continue;
+    }
+    const referrer = getAddress(args.referrer);
+    const referral = referrals.get(referrer) ?? { codes: new Set(), purchasers: new Set(), tickets: 0n };
+    referral.codes.add(args.referralCode);
+    referral.purchasers.add(getAddress(args.purchaser));
+    referral.tickets += args.ticketAmount;
+    referrals.set(referrer, referral);
+  }
+
+  const referrers: ReferrerReport[] = [];
+  for (const [referrer, referral] of referrals) {
+    const account = await raffleTicketPurchase.accounts(referrer, { blockTag: toBlock });
+    const onChainTickets = account.referredTickets;
+    if (onChainTickets !== referral.tickets) {
+      throw new Error(`Tickets referred by ${referrer} in events (${referral.tickets}) disagree with referredTickets (${onChainTickets}) at block ${toBlock}`);
+    }
+    referrers.push({
+      referrer,
+      codes: [...referral.codes].sort(),
+      purchasers: referral.purchasers.size,
+      tickets: referral.tickets,
+      // A share of the amount paid for the referred tickets, which can be discounted
+      fees: await raffleTicketPurchase.referralFeesOf(referrer, { blockTag: toBlock }),
+      feesClaimed: account.referralFeesClaimed,
+    });
+  }
+
+  // No referral fee was paid before the clones
+  const onChainReferrals = await readOrFallback(
+    () => raffleTicketPurchase.referrals({ blockTag: toBlock }),
+    () => ({ feeBps: 0n, totalTickets: 0n })
+  );
+  return {
+    chainId: (await provider.getNetwork()).chainId.toString(),
+    raffleId: raffleId.toString(),
+    raffleTicketPurchase: await raffleTicketPurchase.getAddress(),
+    blockNumber: toBlock,
+    referralFeeBps: onChainReferrals.feeBps,
+    totalReferredTickets: onChainReferrals.totalTickets,
+    referrers: referrers.sort((a, b) => (a.tickets === b.tickets ? 0 : a.tickets > b.tickets ? -1 : 1)),
+    unregisteredCodes,
+  };
+};
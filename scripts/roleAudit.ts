@@ -0,0 +1,81 @@
+import { getAddress } from "ethers";
+import { RaffleManager } from "../typechain-types";
+import { queryInBatches, SnapshotOptions } from "./participantsSnapshot";
+import { RAFFLE_MANAGER_ROLES, roleHash } from "./utils";
+
+export type RoleHolder = {
+  account: string;
+  grantedBy: string;
+  grantedAtBlock: number;
+};
+
+export type RoleReport = {
+  // The role constant name, or the role hash for roles the RaffleManager does not define
+  name: string;
+  role: string;
+  adminRole: string;
+  holders: RoleHolder[];
+};
+
+export type RoleAudit = {
+  chainId: string;
+  raffleManager: string;
+  blockNumber: number;
+  owner: string;
+  // Every role of the RaffleManager, followed by the unknown roles granted at some point
+  roles: RoleReport[];
+};
+
+// Replays the RoleGranted and RoleRevoked events of a RaffleManager to list the current holders of each role, checked against hasRole.
+// Holders are listed in the order they were granted the role.
+export const buildRoleAudit = async (raffleManager: RaffleManager, options: SnapshotOptions = {}): Promise<RoleAudit> => {
+  const provider = raffleManager.runner?.provider;
+  if (!provider) throw new Error("RaffleManager is not connected to a provider");
+
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const fromBlock = options.fromBlock ?? 0;
+
+  const [grants, revocations] = await Promise.all([
+    queryInBatches((from, to) => raffleManager.queryFilter(raffleManager.filters.RoleGranted(), from, to), fromBlock, toBlock, options.batchSize),
+    queryInBatches((from, to) => raffleManager.queryFilter(raffleManager.filters.RoleRevoked(), from, to), fromBlock, toBlock, options.batchSize),
+  ]);
+
+  // A role can be granted again after being revoked, so events must be replayed in chain order.
+  const events = [...grants, ...revocations].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const holders = new Map<string, Map<string, RoleHolder>>(RAFFLE_MANAGER_ROLES.map((name) => [roleHash(name), new Map()]));
+  for (const event of events) {
+    const account = getAddress(event.args.account);
+    const roleHolders = holders.get(event.args.role) ?? new Map<string, RoleHolder>();
+    if (event.eventName === "RoleGranted") {
+      roleHolders.set(account, { account, grantedBy: getAddress(event.args.sender), grantedAtBlock: event.blockNumber });
+    } else {
+      roleHolders.delete(account);
+    }
+    holders.set(event.args.role, roleHolders);
+  }
+
+  const names = new Map<string, string>(RAFFLE_MANAGER_ROLES.map((name) => [roleHash(name), name]));
+  const roles: RoleReport[] = [];
+  for (const [role, roleHolders] of holders) {
+    for (const { account } of roleHolders.values()) {
+      if (!(await raffleManager.hasRole(role, account, { blockTag: toBlock }))) {
+        throw new Error(`Role ${names.get(role) ?? role} of ${account} in events disagrees with hasRole at block ${toBlock}`);
+      }
+    }
+    roles.push({
+      name: names.get(role) ?? role,
+      role,
+      adminRole: await raffleManager.getRoleAdmin(role, { blockTag: toBlock }),
+      holders: [...roleHolders.values()],
+    });
+  }
+
+  return {
+    chainId: (await provider.getNetwork()).chainId.toString(),
+    raffleManager: await raffleManager.getAddress(),
+    blockNumber: toBlock,
+    owner: await raffleManager.owner({ blockTag: toBlock }),
+    roles,
+  };
+};
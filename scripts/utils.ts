@@ -1,19 +1,142 @@
-import { ethers } from "hardhat";
-import { MaxUint256, parseEther, parseUnits, ZeroAddress } from "ethers";
-import { PurchaseToken, RaffleTicketPurchase } from "../typechain-types";
+import {
+  AbiCoder,
+  concat,
+  ContractFactory,
+  getAddress,
+  id,
+  keccak256,
+  MaxUint256,
+  parseEther,
+  parseUnits,
+  Signature,
+  Signer,
+  ZeroAddress,
+  ZeroHash,
+} from "ethers";
+import { ERC20Permit, PurchaseToken, RaffleTicketPurchase } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 export type Participant = { addr: string; ticketCount: bigint; cumulativeCount: bigint };
 
-export type Prize = { contractAddress: string; tokenId: bigint };
+// Purchase token of the raffles selling tickets for the native currency, mirrors RaffleTicketPurchase.NATIVE_CURRENCY
+export const NATIVE_CURRENCY = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+// Canonical Uniswap Permit2 address, mirrors RaffleTicketPurchase.PERMIT2
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+// Roles of the RaffleManager, mirrors the role constants of RaffleManager
+export const RAFFLE_MANAGER_ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "RAFFLE_CREATOR_ROLE",
+  "REWARDING_OPERATOR_ROLE",
+  "TREASURER_ROLE",
+  "VRF_ADMIN_ROLE",
+  "PAUSER_ROLE",
+] as const;
+
+export type RaffleManagerRole = (typeof RAFFLE_MANAGER_ROLES)[number];
+
+export const roleHash = (role: RaffleManagerRole) => (role === "DEFAULT_ADMIN_ROLE" ? ZeroHash : id(role));
+
+export enum PrizeKind {
+  ERC721,
+  ERC20,
+  ERC1155,
+}
+
+// tokenId is ignored for ERC20 prizes, amount is always 1 for ERC721 prizes.
+export type Prize = { kind: PrizeKind; contractAddress: string; tokenId: bigint; amount: bigint };
+
+// Prizes are awarded in list order, winners[i] is the winner of prizes[i] or ZeroAddress for a prize left unawarded.
+export type RaffleRewards = { prizes: Prize[]; allowMultipleWins: boolean; winners: string[]; claimed: boolean[] };
+
+export enum ProofType {
+  ParticipantsHash,
+  MerkleRoot,
+  TicketLedger,
+}
+
+// callbackGasLimit is the VRF callback gas with a single random word, each extra word adds RaffleRewarder.CALLBACK_GAS_PER_EXTRA_WORD
+export type RewardingConfig = { callbackGasLimit: bigint; requestConfirmations: bigint; prizeClaimPeriod: bigint };
+
+// LinkWrapper and NativeWrapper requests are paid by the requester through the VRF wrapper, Subscription requests are charged to the
+// VRF subscription of the raffle manager.
+export enum PaymentMode {
+  LinkWrapper,
+  NativeWrapper,
+  Subscription,
+}
+
+// The next step of a raffle performed by the RaffleManager upkeep, randomness being only requested automatically when charged to the
+// VRF subscription and winners only determined automatically from the ticket ledger.
+export enum UpkeepAction {
+  None,
+  AskForRandomness,
+  DetermineWinners,
+}
+
+// Mirrors RaffleRewarder.RaffleStatus, the phase of a raffle reported by RaffleManager.getRaffleStatus
+export enum RaffleStatus {
+  Scheduled,
+  Open,
+  SoldOut,
+  Failed,
+  Succeeded,
+  Rewarding,
+  AwaitingRandomness,
+  AwaitingWinner,
+  Claimable,
+  Claimed,
+  Expired,
+  Canceled,
+}
+
+export type MerkleTree = { root: string; leaves: string[]; layers: string[][] };
+
+export type ParticipantsMerkleTree = MerkleTree;
+
+// Mirrors RaffleTicketPurchase.GateType, the requirement purchasers must meet to buy the tickets of a raffle
+export enum GateType {
+  None,
+  Allowlist,
+  TokenHolding,
+  Signature,
+}
+
+// Only the fields of the gate type are read, minBalance is in the smallest unit of ERC20 tokens and counts the tokens of ERC721 ones
+export type PurchaseGate = { gateType: GateType; allowlistRoot: string; token: string; minBalance: bigint; signer: string };
+
+// maxTickets overrides the personal cap of the raffle for the address, 0 keeps it
+export type AllowlistEntry = { addr: string; maxTickets: bigint };
+
+// An early-bird window discounts the purchases made before its end, a tier the purchases after which the purchaser holds minTickets
+export type PriceWindow = { endTimestamp: bigint; discountBps: bigint };
+
+export type DiscountTier = { minTickets: bigint; discountBps: bigint };
+
+// Windows are sorted by end and tiers by minTickets, the discounts of the current window and of the highest tier reached are compounded
+export type Pricing = { priceWindows: PriceWindow[]; discountTiers: DiscountTier[] };
+
+// The shares of the revenue paid to the recipients add up to 10000 bps
+export type Payout = { recipient: string; shareBps: bigint };
+
+// Mirrors RaffleTicketPurchase.SaleOptions, passed to RaffleManager.createNewRaffleWithOptions
+export type SaleOptions = { payouts: Payout[]; purchaseGate: PurchaseGate; pricing: Pricing; maxGrantedTickets: bigint };
 
 export type RequestStatus = {
   requestId: bigint;
   paid: bigint;
   fulfilled: boolean;
+  requestedAt: bigint;
   randomWords: bigint[];
 };
 
+export const erc721Prize = (contractAddress: string, tokenId: bigint): Prize => ({ kind: PrizeKind.ERC721, contractAddress, tokenId, amount: 1n });
+
+export const erc20Prize = (contractAddress: string, amount: bigint): Prize => ({ kind: PrizeKind.ERC20, contractAddress, tokenId: 0n, amount });
+
+export const erc1155Prize = (contractAddress: string, tokenId: bigint, amount: bigint): Prize => ({ kind: PrizeKind.ERC1155, contractAddress, tokenId, amount });
+
 export const buyAllTickets = async (maxCap: number, personalMaxCap: number, ticketPrice: bigint, purchaseToken: PurchaseToken, raffleTicketPurchase: RaffleTicketPurchase, otherAccounts: HardhatEthersSigner[]) => {
   await Promise.all(
     Array.from(Array(parseInt((maxCap / personalMaxCap).toString())).keys()).map(async (i) => {
@@ -27,9 +150,212 @@ export const buyAllTickets = async (maxCap: number, personalMaxCap: number, tick
   );
 }
 
+export const buyAllTicketsWithNativeCurrency = async (maxCap: number, personalMaxCap: number, raffleTicketPurchase: RaffleTicketPurchase, otherAccounts: HardhatEthersSigner[]) => {
+  const value = BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice());
+  for (const account of otherAccounts.slice(0, Math.floor(maxCap / personalMaxCap))) {
+    await raffleTicketPurchase.connect(account).purchaseTickets(personalMaxCap, ZeroAddress, { value });
+  }
+};
+
+// Creation code of an ERC-1167 minimal proxy delegating every call to the implementation, the same proxy deployed by OpenZeppelin Clones.
+export const cloneCreationCode = (implementation: string) =>
+  concat(["0x3d602d80600a3d3981f3363d3d373d3d3d363d73", implementation, "0x5af43d82803e903d91602b57fd5bf3"]);
+
+// Deploys an implementation and a clone of it initialized by the signer of the factory, the way the raffle manager deploys raffle contracts.
+export const deployInitializedClone = async <F extends ContractFactory>(factory: F, args: unknown[]) => {
+  const implementation = await factory.deploy();
+  const deployer = factory.runner as Signer;
+  const receipt = await (await deployer.sendTransaction({ data: cloneCreationCode(await implementation.getAddress()) })).wait();
+  const clone = factory.attach(receipt!.contractAddress!) as Awaited<ReturnType<F["deploy"]>>;
+  await (await clone.getFunction("initialize")(...args)).wait();
+  return clone;
+};
+
+// Signs an EIP-2612 permit of the owner's tokens for the spender, to be passed to RaffleTicketPurchase.purchaseTicketsWithPermit.
+export const signPermit = async (owner: Signer, token: ERC20Permit, spender: string, value: bigint, deadline: bigint) => {
+  const ownerAddress = await owner.getAddress();
+  const domain = {
+    name: await token.name(),
+    version: (await token.eip712Domain()).version,
+    chainId: (await owner.provider!.getNetwork()).chainId,
+    verifyingContract: await token.getAddress(),
+  };
+  const types = {
+    Permit: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  };
+  const message = { owner: ownerAddress, spender, value, nonce: await token.nonces(ownerAddress), deadline };
+  return Signature.from(await owner.signTypedData(domain, types, message));
+};
+
+export type PermitTransferFrom = { permitted: { token: string; amount: bigint }; nonce: bigint; deadline: bigint };
+
+// Signs a Permit2 signature transfer of the owner's tokens to the spender, to be passed to RaffleTicketPurchase.purchaseTicketsWithPermit2.
+// Permit2 nonces are unordered, any nonce not used before by the owner is valid.
+export const signPermit2Transfer = async (owner: Signer, permit: PermitTransferFrom, spender: string, permit2Address = PERMIT2_ADDRESS) => {
+  const domain = { name: "Permit2", chainId: (await owner.provider!.getNetwork()).chainId, verifyingContract: permit2Address };
+  const types = {
+    PermitTransferFrom: [
+      { name: "permitted", type: "TokenPermissions" },
+      { name: "spender", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+    TokenPermissions: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+  };
+  return owner.signTypedData(domain, types, { ...permit, spender });
+};
+
 export const makeParticipantsProof = (participants: Participant[]) => {
-  const abi = ethers.AbiCoder.defaultAbiCoder();
-  return ethers.keccak256(abi.encode(["(address addr, uint256 ticketCount, uint256 cumulativeCount)[]"], [participants]));
+  const abi = AbiCoder.defaultAbiCoder();
+  return keccak256(abi.encode(["(address addr, uint256 ticketCount, uint256 cumulativeCount)[]"], [participants]));
+};
+
+export const makeParticipantLeaf = (participant: Participant) => {
+  const abi = AbiCoder.defaultAbiCoder();
+  return keccak256(keccak256(abi.encode(["address", "uint256", "uint256"], [participant.addr, participant.ticketCount, participant.cumulativeCount])));
+};
+
+// Pairs are hashed in sorted order, as OpenZeppelin MerkleProof expects, and an unpaired node is carried to the next layer.
+const hashPair = (a: string, b: string) => (BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a])));
+
+const makeMerkleTree = (leaves: string[]): MerkleTree => {
+  const layers = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], leaves, layers };
+};
+
+export const makeParticipantsMerkleTree = (participants: Participant[]): ParticipantsMerkleTree => {
+  if (participants.length === 0) throw new Error("Cannot build a Merkle tree without participants");
+  return makeMerkleTree(participants.map(makeParticipantLeaf));
+};
+
+export const makeParticipantMerkleProof = (tree: MerkleTree, index: number) => {
+  const proof = [];
+  for (const layer of tree.layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < layer.length) proof.push(layer[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+};
+
+// The purchase gate of the raffles whose tickets anyone can purchase
+export const OPEN_SALE: PurchaseGate = { gateType: GateType.None, allowlistRoot: ZeroHash, token: ZeroAddress, minBalance: 0n, signer: ZeroAddress };
+
+export const allowlistGate = (allowlistRoot: string): PurchaseGate => ({ ...OPEN_SALE, gateType: GateType.Allowlist, allowlistRoot });
+
+export const tokenHoldingGate = (token: string, minBalance: bigint): PurchaseGate => ({ ...OPEN_SALE, gateType: GateType.TokenHolding, token, minBalance });
+
+export const signatureGate = (signer: string): PurchaseGate => ({ ...OPEN_SALE, gateType: GateType.Signature, signer });
+
+// The pricing of the raffles selling their tickets at the ticket price
+export const FLAT_PRICING: Pricing = { priceWindows: [], discountTiers: [] };
+
+// Fills the sale options left out with those of createNewRaffle: revenue paid to the revenue receiver, open sale, flat price
+// and no granted tickets
+export const saleOptions = (options: Partial<SaleOptions> = {}): SaleOptions => ({
+  payouts: [],
+  purchaseGate: OPEN_SALE,
+  pricing: FLAT_PRICING,
+  maxGrantedTickets: 0n,
+  ...options,
+});
+
+// Applies a discount the way RaffleTicketPurchase.quote does, rounding the discount down
+export const applyDiscount = (price: bigint, discountBps: bigint) => price - (price * discountBps) / 10_000n;
+
+export const makeAllowlistLeaf = (entry: AllowlistEntry) => {
+  const abi = AbiCoder.defaultAbiCoder();
+  return keccak256(keccak256(abi.encode(["address", "uint256"], [entry.addr, entry.maxTickets])));
+};
+
+export const makeAllowlistMerkleTree = (entries: AllowlistEntry[]): MerkleTree => {
+  if (entries.length === 0) throw new Error("Cannot build a Merkle tree without allowlist entries");
+  const addresses = new Set(entries.map((entry) => getAddress(entry.addr)));
+  if (addresses.size !== entries.length) throw new Error("Allowlist entries must have distinct addresses");
+  return makeMerkleTree(entries.map(makeAllowlistLeaf));
+};
+
+// Builds the gate proof of an allowlisted address, to be passed to RaffleTicketPurchase.submitGateProof or purchaseTicketsWithGateProof.
+export const makeAllowlistGateProof = (tree: MerkleTree, entries: AllowlistEntry[], addr: string) => {
+  const index = entries.findIndex((entry) => getAddress(entry.addr) === getAddress(addr));
+  if (index === -1) throw new Error(`${addr} is not in the allowlist`);
+  const proof = makeParticipantMerkleProof(tree, index);
+  return AbiCoder.defaultAbiCoder().encode(["uint256", "bytes32[]"], [entries[index].maxTickets, proof]);
+};
+
+// Signs the EIP-712 approval of a purchaser by the signer of a Signature gate and returns it as the gate proof of the purchaser,
+// to be passed to RaffleTicketPurchase.submitGateProof or purchaseTicketsWithGateProof. maxTickets 0 keeps the personal cap of the raffle.
+export const signPurchaseApproval = async (
+  signer: Signer,
+  raffleTicketPurchase: RaffleTicketPurchase,
+  purchaser: string,
+  maxTickets: bigint,
+  deadline: bigint
+) => {
+  const { name, version, chainId, verifyingContract } = await raffleTicketPurchase.eip712Domain();
+  const types = {
+    PurchaseApproval: [
+      { name: "purchaser", type: "address" },
+      { name: "maxTickets", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  };
+  const signature = await signer.signTypedData({ name, version, chainId, verifyingContract }, types, { purchaser, maxTickets, deadline });
+  return AbiCoder.defaultAbiCoder().encode(["uint256", "uint256", "bytes"], [maxTickets, deadline, signature]);
+};
+
+// Returns the index of the participant whose range [cumulativeCount - ticketCount, cumulativeCount) contains the ticket.
+export const findWinningParticipantIndex = (participants: Participant[], winningTicketIndex: bigint) =>
+  participants.findIndex((p) => p.cumulativeCount - p.ticketCount <= winningTicketIndex && winningTicketIndex < p.cumulativeCount);
+
+// Must match RaffleRewarder.MAX_DRAW_ATTEMPTS.
+export const MAX_DRAW_ATTEMPTS = 32;
+
+// Mirrors RaffleRewarder.drawTicket: the first attempt uses the random word, later ones rehash it with the attempt number.
+export const drawTicketIndex = (randomWord: bigint, attempt: number, totalTickets: bigint) => {
+  if (attempt === 0) return randomWord % totalTickets;
+  return BigInt(keccak256(AbiCoder.defaultAbiCoder().encode(["uint256", "uint256"], [randomWord, attempt]))) % totalTickets;
+};
+
+// Returns the index of the participant winning each prize, -1 for a prize left unawarded, drawing again the tickets of earlier winners
+// and of the winners of claimed prizes unless multiple wins are allowed. Claimed prizes, given by the index of their winner, are not drawn.
+export const findWinningParticipantIndexes = (
+  participants: Participant[],
+  randomWords: bigint[],
+  totalTickets: bigint,
+  allowMultipleWins: boolean,
+  claimedWinnerIndexes: (number | undefined)[] = []
+) => {
+  const winnerIndexes = randomWords.map((_, i) => claimedWinnerIndexes[i] ?? -1);
+  randomWords.forEach((randomWord, i) => {
+    if (claimedWinnerIndexes[i] !== undefined) return;
+    for (let attempt = 0; attempt < MAX_DRAW_ATTEMPTS; attempt++) {
+      const index = findWinningParticipantIndex(participants, drawTicketIndex(randomWord, attempt, totalTickets));
+      if (allowMultipleWins || !winnerIndexes.includes(index)) {
+        winnerIndexes[i] = index;
+        break;
+      }
+    }
+  });
+  return winnerIndexes;
 };
 
 export const exampleAddress = "0x0000000000000000000000000000000000000001";
@@ -63,6 +389,7 @@ export const errors = {
   invalidTimestamps: "InvalidTimestamps",
   invalidCaps: "InvalidCaps",
   refundNotAvailable: "RefundNotAvailable",
+  raffleNotFailed: "RaffleNotFailed",
   invalidTicketAmount: "InvalidTicketAmount",
   personalMaxCapReached: "PersonalMaxCapReached",
   maxCapReached: "MaxCapReached",
@@ -74,7 +401,40 @@ export const errors = {
   invalidId: "InvalidId",
   noExcessPurchaseToken: "NoExcessPurchaseToken",
   invalidInitialization: "InvalidInitialization",
-  rewardingAlreadyStarted: "RewardingAlreadyStarted"
+  rewardingAlreadyStarted: "RewardingAlreadyStarted",
+  wrongProofType: "WrongProofType",
+  invalidTicketIndex: "InvalidTicketIndex",
+  invalidPrizes: "InvalidPrizes",
+  invalidPrize: "InvalidPrize",
+  incorrectPaymentAmount: "IncorrectPaymentAmount",
+  prizeAlreadyClaimed: "PrizeAlreadyClaimed",
+  cannotRecoverPrizes: "CannotRecoverPrizes",
+  invalidReferralCode: "InvalidReferralCode",
+  referralCodeAlreadyRegistered: "ReferralCodeAlreadyRegistered",
+  invalidReferralFee: "InvalidReferralFee",
+  noReferralFees: "NoReferralFees",
+  raffleAlreadyCanceled: "RaffleAlreadyCanceled",
+  fundsAlreadyWithdrawn: "FundsAlreadyWithdrawn",
+  invalidPayouts: "InvalidPayouts",
+  missingRole: "AccessControlUnauthorizedAccount",
+  rafflePaused: "RafflePaused",
+  invalidImplementation: "InvalidImplementation",
+  onlyVRFWrapperCanFulfill: "OnlyVRFWrapperCanFulfill",
+  onlyCoordinatorCanFulfill: "OnlyCoordinatorCanFulfill",
+  incorrectRandomnessPayment: "IncorrectRandomnessPayment",
+  randomnessRequestPending: "RandomnessRequestPending",
+  vrfSubscriptionNotSet: "VRFSubscriptionNotSet",
+  invalidRewardingConfig: "InvalidRewardingConfig",
+  versionAlreadyRegistered: "VersionAlreadyRegistered",
+  versionNotRegistered: "VersionNotRegistered",
+  upkeepNotNeeded: "UpkeepNotNeeded",
+  invalidPurchaseGate: "InvalidPurchaseGate",
+  purchaseNotAllowed: "PurchaseNotAllowed",
+  invalidGateProof: "InvalidGateProof",
+  invalidPricing: "InvalidPricing",
+  maxGrantedTicketsReached: "MaxGrantedTicketsReached",
+  referralFeesAlreadyClaimed: "ReferralFeesAlreadyClaimed",
+  revenueReceiverNotSet: "RevenueReceiverNotSet",
 };
 
 export const expectedVRFLinkCost = process.env.npm_lifecycle_event?.includes("coverage") ? 130_000_000 : parseEther("0.15");
@@ -0,0 +1,58 @@
+import { task, types } from "hardhat/config";
+import { buildParticipantsSnapshot, writeParticipantsSnapshot } from "../scripts/participantsSnapshot";
+import { buildReferralReport } from "../scripts/referralReport";
+import { getRaffleManager } from "./utils";
+
+task("raffle:snapshot", "Builds the participants snapshot of a raffle from its TicketPurchased, RefundIssued and TicketsGranted events")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addOptionalParam("out", "The path of the snapshot file, defaults to snapshots/<chainId>/raffle-<id>.json")
+  .addOptionalParam("fromBlock", "The first block to scan", 0, types.int)
+  .addOptionalParam("toBlock", "The last block to scan, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("batchSize", "The maximum block range of a single logs query", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const { raffleTicketPurchase: raffleTicketPurchaseAddress } = await raffleManager.raffles(args.id);
+    const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffleTicketPurchaseAddress);
+
+    const snapshot = await buildParticipantsSnapshot(raffleTicketPurchase, {
+      fromBlock: args.fromBlock,
+      toBlock: args.toBlock,
+      batchSize: args.batchSize,
+    });
+
+    const out = args.out ?? `snapshots/${snapshot.chainId}/raffle-${snapshot.raffleId}.json`;
+    writeParticipantsSnapshot(out, snapshot);
+
+    console.log(`Snapshot of raffle ${snapshot.raffleId} at block ${snapshot.blockNumber} written to ${out}`);
+    console.log(
+      `Participants: ${snapshot.participants.length}, tickets: ${snapshot.totalTicketsSold}, granted: ${snapshot.totalTicketsGranted}, proof: ${snapshot.participantsProof}`
+    );
+  });
+
+task("raffle:referrals", "Reports the referred purchases and referral fees of a raffle per referrer from its TicketPurchased events")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addOptionalParam("fromBlock", "The first block to scan", 0, types.int)
+  .addOptionalParam("toBlock", "The last block to scan, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("batchSize", "The maximum block range of a single logs query", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const { raffleTicketPurchase: raffleTicketPurchaseAddress } = await raffleManager.raffles(args.id);
+    const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffleTicketPurchaseAddress);
+
+    const report = await buildReferralReport(raffleTicketPurchase, {
+      fromBlock: args.fromBlock,
+      toBlock: args.toBlock,
+      batchSize: args.batchSize,
+    });
+
+    console.log(`Referrals of raffle ${report.raffleId} at block ${report.blockNumber}`);
+    console.log(`  referral fee: ${report.referralFeeBps} bps, referred tickets: ${report.totalReferredTickets} of ${await raffleTicketPurchase.totalTicketsSold()}`);
+    for (const r of report.referrers) {
+      console.log(`  ${r.referrer}: ${r.tickets} tickets from ${r.purchasers} purchasers with ${r.codes.join(", ")}, fees ${r.fees}${r.feesClaimed ? " (claimed)" : ""}`);
+    }
+    for (const [code, tickets] of report.unregisteredCodes) {
+      console.log(`  unregistered code ${code}: ${tickets} tickets`);
+    }
+  });
@@ -0,0 +1,699 @@
+import { readFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatUnits, getAddress, Interface, isAddress, MaxUint256, parseUnits, ZeroAddress } from "ethers";
+import {
+  callbackGasLimit,
+  maxCap,
+  minCap,
+  ONE_DAY,
+  openSalePeriod,
+  personalMaxCap,
+  prizeClaimPeriod,
+  requestConfirmations,
+  ticketPrice,
+} from "../config/config";
+import { encodeUpkeepRange, findRafflesAwaitingRewarding, performDueUpkeeps } from "../scripts/keeper";
+import { buildParticipantsSnapshot, readOrFallback, readParticipantsSnapshot, snapshotParticipants } from "../scripts/participantsSnapshot";
+import {
+  AllowlistEntry,
+  allowlistGate,
+  erc1155Prize,
+  erc20Prize,
+  erc721Prize,
+  findWinningParticipantIndexes,
+  makeAllowlistMerkleTree,
+  makeParticipantMerkleProof,
+  makeParticipantsMerkleTree,
+  NATIVE_CURRENCY,
+  OPEN_SALE,
+  PaymentMode,
+  Pricing,
+  Prize,
+  PrizeKind,
+  ProofType,
+  RaffleRewards,
+  RaffleStatus,
+  RewardingConfig,
+  saleOptions,
+  signatureGate,
+  tokenHoldingGate,
+  UpkeepAction,
+} from "../scripts/utils";
+import { formatTimestamp, getRaffleLens, getRaffleManager, parseIsoDate, previewAndSend } from "./utils";
+
+const ERC20 = "@openzeppelin/contracts-v5/token/ERC20/extensions/IERC20Metadata.sol:IERC20Metadata";
+const ERC721 = "@openzeppelin/contracts-v5/token/ERC721/IERC721.sol:IERC721";
+const ERC1155 = "@openzeppelin/contracts-v5/token/ERC1155/IERC1155.sol:IERC1155";
+
+// The native currency is passed as "native" and has no token contract to read the decimals from
+const resolveToken = (token: string) => (token === "native" ? NATIVE_CURRENCY : token);
+
+const tokenDecimals = async (hre: HardhatRuntimeEnvironment, token: string) =>
+  token === NATIVE_CURRENCY ? 18n : (await hre.ethers.getContractAt(ERC20, token)).decimals();
+
+const raffleInterfaces = async (hre: HardhatRuntimeEnvironment) =>
+  Promise.all(["RaffleManager", "RaffleTicketPurchase", "RaffleRewarder"].map(async (name) => new Interface((await hre.artifacts.readArtifact(name)).abi)));
+
+const loadSnapshot = async (hre: HardhatRuntimeEnvironment, path: string, raffleTicketPurchase: string) => {
+  const snapshot = readParticipantsSnapshot(path);
+  const { chainId } = await hre.ethers.provider.getNetwork();
+
+  if (snapshot.chainId !== chainId.toString()) throw new Error(`Snapshot ${path} was taken on chain ${snapshot.chainId}, connected to ${chainId}`);
+  if (snapshot.raffleTicketPurchase.toLowerCase() !== raffleTicketPurchase.toLowerCase()) {
+    throw new Error(`Snapshot ${path} belongs to ${snapshot.raffleTicketPurchase}, raffle tickets are sold by ${raffleTicketPurchase}`);
+  }
+  return snapshot;
+};
+
+// Parses a comma separated list of contract:tokenId pairs, in award order.
+// Entries are contract:tokenId for ERC721, erc20:contract:amount with the amount in token units and erc1155:contract:tokenId:amount
+const parsePrizes = async (hre: HardhatRuntimeEnvironment, value: string): Promise<Prize[]> =>
+  Promise.all(
+    value.split(",").map(async (entry) => {
+      const parts = entry.trim().split(":");
+      const isInteger = (part: string | undefined): part is string => !!part && /^\d+$/.test(part);
+      if (parts[0] === "erc20" && parts.length === 3 && /^\d+(\.\d+)?$/.test(parts[2])) {
+        const token = await hre.ethers.getContractAt(ERC20, parts[1]);
+        return erc20Prize(parts[1], parseUnits(parts[2], await token.decimals()));
+      }
+      if (parts[0] === "erc1155" && parts.length === 4 && isInteger(parts[2]) && isInteger(parts[3])) {
+        return erc1155Prize(parts[1], BigInt(parts[2]), BigInt(parts[3]));
+      }
+      if (parts.length === 2 && isInteger(parts[1])) return erc721Prize(parts[0], BigInt(parts[1]));
+      throw new Error(`Invalid prize ${entry}, expected contract:tokenId, erc20:contract:amount or erc1155:contract:tokenId:amount`);
+    })
+  );
+
+// Parses a comma separated list of recipient:bps pairs, the shares of the ticket sale revenue must add up to 10000 bps
+const parsePayouts = (value: string) =>
+  value.split(",").map((entry) => {
+    const [recipient, shareBps, ...rest] = entry.trim().split(":");
+    if (!isAddress(recipient) || !/^\d+$/.test(shareBps ?? "") || rest.length > 0) throw new Error(`Invalid payout ${entry}, expected recipient:bps`);
+    return { recipient, shareBps: BigInt(shareBps) };
+  });
+
+// Reads a JSON object mapping the allowlisted addresses to their personal cap, 0 keeping the personal cap of the raffle.
+// The same file must be used to build the gate proofs of the purchasers, the tree depends on the order of the entries
+const readAllowlist = (path: string): AllowlistEntry[] =>
+  Object.entries(JSON.parse(readFileSync(path, "utf8")) as Record<string, number | string>).map(([addr, maxTickets]) => {
+    if (!isAddress(addr) || !/^\d+$/.test(String(maxTickets))) throw new Error(`Invalid allowlist entry ${addr}: ${maxTickets}`);
+    return { addr, maxTickets: BigInt(maxTickets) };
+  });
+
+// Builds the purchase gate of the single gate option passed, undefined for an open sale
+const parsePurchaseGate = (args: { allowlist?: string; holding?: string; signer?: string }) => {
+  const options = [args.allowlist, args.holding, args.signer].filter((option) => option !== undefined);
+  if (options.length > 1) throw new Error("Pass only one of --allowlist, --holding and --signer");
+
+  if (args.allowlist) {
+    const tree = makeAllowlistMerkleTree(readAllowlist(args.allowlist));
+    console.log(`Allowlist of ${tree.leaves.length} addresses with root ${tree.root}`);
+    return allowlistGate(tree.root);
+  }
+  if (args.holding) {
+    const [token, minBalance, ...rest] = args.holding.split(":");
+    if (!isAddress(token) || !/^\d+$/.test(minBalance ?? "") || rest.length > 0) throw new Error(`Invalid holding ${args.holding}, expected token:minBalance`);
+    console.log(`Tickets sold to the holders of ${minBalance} of ${token}`);
+    return tokenHoldingGate(token, BigInt(minBalance));
+  }
+  if (args.signer) {
+    if (!isAddress(args.signer)) throw new Error(`Invalid signer ${args.signer}`);
+    console.log(`Tickets sold to the purchasers approved by ${args.signer}`);
+    return signatureGate(args.signer);
+  }
+};
+
+// Parses the comma separated early-bird windows, as isoDate=bps ending at the date, and volume tiers, as minTickets:bps
+const parsePricing = (args: { earlyBird?: string; volumeDiscounts?: string }): Pricing => {
+  const priceWindows = (args.earlyBird ? args.earlyBird.split(",") : []).map((entry) => {
+    const [end, discountBps, ...rest] = entry.trim().split("=");
+    if (!/^\d+$/.test(discountBps ?? "") || rest.length > 0) throw new Error(`Invalid early-bird window ${entry}, expected isoDate=bps`);
+    console.log(`Early-bird discount of ${discountBps} bps until ${end}`);
+    return { endTimestamp: BigInt(parseIsoDate(end)), discountBps: BigInt(discountBps) };
+  });
+  const discountTiers = (args.volumeDiscounts ? args.volumeDiscounts.split(",") : []).map((entry) => {
+    const [minTickets, discountBps, ...rest] = entry.trim().split(":");
+    if (!/^\d+$/.test(minTickets) || !/^\d+$/.test(discountBps ?? "") || rest.length > 0)
+      throw new Error(`Invalid volume discount ${entry}, expected minTickets:bps`);
+    console.log(`Volume discount of ${discountBps} bps from ${minTickets} tickets`);
+    return { minTickets: BigInt(minTickets), discountBps: BigInt(discountBps) };
+  });
+  return { priceWindows, discountTiers };
+};
+
+// The manager escrows the prizes from the caller when rewarding starts, so it must be approved to transfer each of them.
+// A dry run only lists the approvals needed and returns their count, the approvals are sent otherwise.
+const approvePrizes = async (hre: HardhatRuntimeEnvironment, manager: string, prizes: Prize[], options: { approve: boolean; dryRun: boolean }) => {
+  const [signer] = await hre.ethers.getSigners();
+  const approvals: { description: string; send: () => Promise<{ wait: () => Promise<unknown> }> }[] = [];
+
+  const erc20Amounts = new Map<string, bigint>();
+  for (const prize of prizes.filter((prize) => prize.kind === PrizeKind.ERC20)) {
+    erc20Amounts.set(prize.contractAddress, (erc20Amounts.get(prize.contractAddress) ?? 0n) + prize.amount);
+  }
+  for (const [contractAddress, amount] of erc20Amounts) {
+    const token = await hre.ethers.getContractAt(ERC20, contractAddress);
+    if ((await token.allowance(signer.address, manager)) < amount) {
+      approvals.push({ description: `${amount} of ERC20 ${contractAddress}`, send: () => token.approve(manager, amount) });
+    }
+  }
+
+  for (const prize of prizes.filter((prize) => prize.kind === PrizeKind.ERC721)) {
+    const token = await hre.ethers.getContractAt(ERC721, prize.contractAddress);
+    if ((await token.getApproved(prize.tokenId)) !== manager && !(await token.isApprovedForAll(signer.address, manager))) {
+      approvals.push({ description: `ERC721 ${prize.contractAddress} #${prize.tokenId}`, send: () => token.approve(manager, prize.tokenId) });
+    }
+  }
+
+  for (const contractAddress of new Set(prizes.filter((prize) => prize.kind === PrizeKind.ERC1155).map((prize) => prize.contractAddress))) {
+    const token = await hre.ethers.getContractAt(ERC1155, contractAddress);
+    if (!(await token.isApprovedForAll(signer.address, manager))) {
+      approvals.push({ description: `all ERC1155 ${contractAddress}`, send: () => token.setApprovalForAll(manager, true) });
+    }
+  }
+
+  if (options.dryRun) {
+    for (const approval of approvals) console.log(`Needs approval of ${approval.description} to ${manager}`);
+    return approvals.length;
+  }
+  if (approvals.length > 0 && !options.approve) {
+    throw new Error(`The manager is not approved to escrow ${approvals.map((a) => a.description).join(", ")}, pass --approve to approve it`);
+  }
+  for (const approval of approvals) {
+    await (await approval.send()).wait();
+    console.log(`Approved ${approval.description} to ${manager}`);
+  }
+  return 0;
+};
+
+task("raffle:create", "Creates a new raffle")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("token", "The ERC20 token used to purchase tickets, or native for the native currency")
+  .addOptionalParam("price", "The ticket price in whole token units", ticketPrice.toString())
+  .addOptionalParam("start", "The ISO date the sale starts, defaults to five minutes from now")
+  .addOptionalParam("finish", "The ISO date the sale finishes, defaults to start plus the open sale period")
+  .addOptionalParam("minTickets", "The minimum tickets for the raffle to succeed", minCap, types.int)
+  .addOptionalParam("maxTickets", "The maximum tickets on sale", maxCap, types.int)
+  .addOptionalParam("personalMaxTickets", "The maximum tickets per purchaser", personalMaxCap, types.int)
+  .addOptionalParam("payouts", "The revenue split as a comma separated list of recipient:bps, defaults to the revenue receiver of the manager")
+  .addOptionalParam("allowlist", 'Only sell tickets to the addresses of a JSON file of "address": maxTickets entries, 0 keeping the personal max tickets')
+  .addOptionalParam("holding", "Only sell tickets to the holders of a token, as token:minBalance in the smallest unit of an ERC20 or ERC721 count")
+  .addOptionalParam("signer", "Only sell tickets to the purchasers approved by an EIP-712 signature of this signer")
+  .addOptionalParam("earlyBird", "Early-bird discounts as a comma separated list of isoDate=bps, the first window not ended applies")
+  .addOptionalParam("volumeDiscounts", "Volume discounts as a comma separated list of minTickets:bps, counting the tickets the purchaser holds")
+  .addOptionalParam("maxGrantedTickets", "The maximum free tickets that can be granted with raffle:grant-tickets, on top of the tickets on sale", 0, types.int)
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const purchaseGate = parsePurchaseGate(args);
+    const pricing = parsePricing(args);
+
+    // The ticket purchase contract scales the price by the token decimals, so only whole units can be represented
+    if (!/^\d+$/.test(args.price)) throw new Error(`Ticket price ${args.price} must be a whole number of token units`);
+
+    const start = args.start ? parseIsoDate(args.start) : Math.floor(Date.now() / 1000) + 300;
+    const finish = args.finish ? parseIsoDate(args.finish) : start + openSalePeriod;
+    console.log(`Sale from ${formatTimestamp(start)} to ${formatTimestamp(finish)}`);
+
+    const params = [resolveToken(args.token), BigInt(args.price), start, finish, args.minTickets, args.maxTickets, args.personalMaxTickets] as const;
+    const interfaces = await raffleInterfaces(hre);
+    const payouts = args.payouts ? parsePayouts(args.payouts) : [];
+    if (payouts.length > 0) {
+      const totalBps = payouts.reduce((total, payout) => total + payout.shareBps, 0n);
+      if (totalBps !== 10_000n) throw new Error(`Payout shares add up to ${totalBps} bps, expected 10000`);
+      for (const payout of payouts) console.log(`Payout ${payout.shareBps} bps to ${payout.recipient}`);
+    }
+
+    let events;
+    if (payouts.length > 0 || purchaseGate || pricing.priceWindows.length > 0 || pricing.discountTiers.length > 0 || args.maxGrantedTickets > 0) {
+      const options = saleOptions({ payouts, purchaseGate: purchaseGate ?? OPEN_SALE, pricing, maxGrantedTickets: BigInt(args.maxGrantedTickets) });
+      events = await previewAndSend(raffleManager.createNewRaffleWithOptions, [...params, options], { dryRun: args.dryRun, interfaces });
+    } else {
+      events = await previewAndSend(raffleManager.createNewRaffle, [...params], { dryRun: args.dryRun, interfaces });
+    }
+
+    const created = events?.find((e) => e.name === "RaffleCreated");
+    if (created) console.log(`Raffle ${created.args.id} created`);
+  });
+
+task("raffle:start-rewarding", "Withdraws the ticket sale funds and deploys the rewarder of a successful raffle")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addParam("prizes", "The prizes as a comma separated list, in award order: contract:tokenId (ERC721), erc20:contract:amount or erc1155:contract:tokenId:amount")
+  .addFlag("allowMultipleWins", "Let an address win more than one prize")
+  .addOptionalParam("snapshot", "The participants snapshot file built by raffle:snapshot, not needed with --ledger")
+  .addFlag("merkle", "Commit to the participants with a Merkle root instead of the hash of the whole list")
+  .addFlag("ledger", "Draw the winner from the on-chain ticket ledger instead of a participants snapshot")
+  .addOptionalParam("callbackGasLimit", "The VRF callback gas with a single random word", callbackGasLimit, types.int)
+  .addOptionalParam("requestConfirmations", "The confirmation count of the VRF requests", requestConfirmations, types.int)
+  .addOptionalParam("prizeClaimDays", "The days in which a prize can be claimed after being awarded", prizeClaimPeriod / ONE_DAY, types.float)
+  .addFlag("approve", "Approve the manager to escrow the prizes if it is not approved yet")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const prizes = await parsePrizes(hre, args.prizes);
+    const interfaces = await raffleInterfaces(hre);
+    const config: RewardingConfig = {
+      callbackGasLimit: BigInt(args.callbackGasLimit),
+      requestConfirmations: BigInt(args.requestConfirmations),
+      prizeClaimPeriod: BigInt(Math.round(args.prizeClaimDays * ONE_DAY)),
+    };
+    // Every argument is checked before the approvals are sent
+    if (args.ledger && (args.merkle || args.snapshot)) throw new Error("--ledger does not use a participants snapshot");
+    if (!args.ledger && !args.snapshot) throw new Error("Missing --snapshot, build one with raffle:snapshot or pass --ledger");
+    const snapshot = args.snapshot ? await loadSnapshot(hre, args.snapshot, (await raffleManager.raffles(args.id)).raffleTicketPurchase) : undefined;
+
+    // The escrow of the prizes reverts until the manager is approved, so the start cannot be simulated before
+    if ((await approvePrizes(hre, await raffleManager.getAddress(), prizes, { approve: args.approve, dryRun: args.dryRun })) > 0) {
+      console.log("Dry run, rewarding start not simulated until the manager is approved");
+      return;
+    }
+
+    if (!snapshot) {
+      await previewAndSend(raffleManager.startRewardingWithTicketLedger, [args.id, prizes, args.allowMultipleWins, config], {
+        dryRun: args.dryRun,
+        interfaces,
+      });
+    } else if (args.merkle) {
+      const { root } = makeParticipantsMerkleTree(snapshotParticipants(snapshot));
+      await previewAndSend(raffleManager.startRewardingWithMerkleRoot, [args.id, prizes, args.allowMultipleWins, root, config], {
+        dryRun: args.dryRun,
+        interfaces,
+      });
+    } else {
+      await previewAndSend(raffleManager.startRewarding, [args.id, prizes, args.allowMultipleWins, snapshot.participantsProof, config], {
+        dryRun: args.dryRun,
+        interfaces,
+      });
+    }
+  });
+
+task("raffle:ask-randomness", "Requests the randomness used to draw the winners of a raffle, paid by the caller unless charged to the VRF subscription")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addFlag("approve", "Approve the rewarder to spend the estimated LINK fee if the allowance is not enough")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const raffle = await raffleManager.raffles(args.id);
+    if (raffle.raffleRewarder === ZeroAddress) throw new Error(`Rewarding of raffle ${args.id} has not started`);
+
+    const [signer] = await hre.ethers.getSigners();
+    const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", raffle.raffleRewarder);
+    const randomness = await raffleRewarder.randomness();
+    const vrfV2Wrapper = await hre.ethers.getContractAt("VRFV2PlusWrapper", randomness.vrfV2PlusWrapper);
+    const paymentMode = Number(randomness.paymentMode);
+    const interfaces = await raffleInterfaces(hre);
+    const { gasPrice } = await hre.ethers.provider.getFeeData();
+
+    if (paymentMode === PaymentMode.Subscription) {
+      console.log(`Charged to VRF subscription ${randomness.subscription.subscriptionId}`);
+      await previewAndSend(raffleManager.askForRandomness, [args.id], { dryRun: args.dryRun, interfaces });
+      return;
+    }
+    if (paymentMode === PaymentMode.NativeWrapper) {
+      // The fee is charged at the gas price of the transaction, the excess is returned to the caller
+      const fee = await vrfV2Wrapper.estimateRequestPriceNative(await raffleRewarder.getCallbackGasLimit(), await raffleRewarder.getNumWords(), gasPrice ?? 0n);
+      console.log(`Estimated fee ${formatUnits(fee, 18)} native currency`);
+      await previewAndSend(raffleManager.askForRandomness, [args.id, { value: fee }], { dryRun: args.dryRun, interfaces });
+      return;
+    }
+
+    const linkToken = await hre.ethers.getContractAt(ERC20, await vrfV2Wrapper.link());
+    const fee = await vrfV2Wrapper.estimateRequestPrice(await raffleRewarder.getCallbackGasLimit(), await raffleRewarder.getNumWords(), gasPrice ?? 0n);
+    const allowance = await linkToken.allowance(signer.address, raffle.raffleRewarder);
+    console.log(`Estimated fee ${formatUnits(fee, 18)} LINK, allowance ${formatUnits(allowance, 18)} LINK`);
+
+    if (allowance < fee) {
+      if (!args.approve) throw new Error("LINK allowance is lower than the estimated fee, pass --approve to approve it");
+      if (!args.dryRun) await (await linkToken.approve(raffle.raffleRewarder, fee)).wait();
+      console.log(`Approved ${formatUnits(fee, 18)} LINK to ${raffle.raffleRewarder}`);
+    }
+
+    await previewAndSend(raffleManager.askForRandomness, [args.id], { dryRun: args.dryRun, interfaces });
+  });
+
+task("raffle:set-payment-mode", "Sets how the randomness requests of a raffle are paid")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addParam("mode", "link or native to be paid by the requester through the VRF wrapper, subscription to be charged to the VRF subscription")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const modes: Record<string, PaymentMode> = { link: PaymentMode.LinkWrapper, native: PaymentMode.NativeWrapper, subscription: PaymentMode.Subscription };
+    if (!(args.mode in modes)) throw new Error(`Invalid payment mode ${args.mode}, expected link, native or subscription`);
+
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    await previewAndSend(raffleManager.setRafflePaymentMode, [args.id, modes[args.mode]], { dryRun: args.dryRun, interfaces: await raffleInterfaces(hre) });
+  });
+
+task("raffle:set-vrf-subscription", "Sets the VRF subscription owned by the manager, created on a new coordinator")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("coordinator", "The VRF coordinator address")
+  .addParam("keyHash", "The gas lane of the requests")
+  .addFlag("nativePayment", "Charge the subscription in native currency instead of LINK")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    if (!isAddress(args.coordinator)) throw new Error(`Invalid coordinator ${args.coordinator}`);
+
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    await previewAndSend(raffleManager.setVRFSubscription, [args.coordinator, args.keyHash, args.nativePayment], {
+      dryRun: args.dryRun,
+      interfaces: await raffleInterfaces(hre),
+    });
+    if (!args.dryRun) console.log(`Fund subscription ${(await raffleManager.vrfSubscription()).subscriptionId} through the coordinator`);
+  });
+
+task("raffle:determine-winner", "Draws the winners of a raffle once its randomness is fulfilled")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addOptionalParam("snapshot", "The participants snapshot file used to start rewarding, not needed for ledger raffles")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const raffle = await raffleManager.raffles(args.id);
+    const interfaces = await raffleInterfaces(hre);
+
+    if (Number(raffle.proofType) === ProofType.TicketLedger) {
+      await previewAndSend(raffleManager.determineWinnerFromLedger, [args.id], { dryRun: args.dryRun, interfaces });
+      return;
+    }
+
+    if (!args.snapshot) throw new Error(`Missing --snapshot, raffle ${args.id} was rewarded with a participants snapshot`);
+    const snapshot = await loadSnapshot(hre, args.snapshot, raffle.raffleTicketPurchase);
+    const participants = snapshotParticipants(snapshot);
+
+    if (Number(raffle.proofType) === ProofType.MerkleRoot) {
+      const tree = makeParticipantsMerkleTree(participants);
+      if (tree.root !== raffle.participantsProof) throw new Error(`Snapshot Merkle root ${tree.root} differs from the raffle proof ${raffle.participantsProof}`);
+
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", raffle.raffleRewarder);
+      const randomWords = await raffleRewarder.getRandomWords();
+      if (randomWords.length === 0) throw new Error(`Randomness of raffle ${args.id} is not fulfilled yet`);
+
+      // Claimed prizes keep their winner, whose entry must be proven again
+      const previousWinners = await raffleRewarder.getWinners();
+      const claimedWinnerIndexes = await Promise.all(
+        randomWords.map(async (_, i) => ((await raffleRewarder.prizeClaimed(i)) ? participants.findIndex((p) => p.addr === previousWinners[i]) : undefined))
+      );
+      const winnerIndexes = findWinningParticipantIndexes(
+        participants,
+        randomWords,
+        await raffleRewarder.totalTickets(),
+        await raffleRewarder.allowMultipleWins(),
+        claimedWinnerIndexes
+      );
+      // The entry of a prize left unawarded is ignored by the rewarder
+      const winners = winnerIndexes.map((i) => participants[Math.max(i, 0)]);
+      const proofs = winnerIndexes.map((i) => (i < 0 ? [] : makeParticipantMerkleProof(tree, i)));
+      await previewAndSend(raffleManager.determineWinnerWithMerkleProof, [args.id, winners, proofs], { dryRun: args.dryRun, interfaces });
+      return;
+    }
+
+    if (snapshot.participantsProof !== raffle.participantsProof) {
+      throw new Error(`Snapshot proof ${snapshot.participantsProof} differs from the raffle proof ${raffle.participantsProof}`);
+    }
+
+    await previewAndSend(raffleManager.determineWinner, [args.id, participants], { dryRun: args.dryRun, interfaces });
+  });
+
+task("raffle:withdraw-excess", "Withdraws tokens sent by mistake to the ticket purchase contract of a raffle")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addParam("token", "The ERC20 token to withdraw, or native for the native currency")
+  .addParam("amount", "The amount to withdraw in token units, decimals allowed")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const token = resolveToken(args.token);
+    const amount = parseUnits(args.amount, await tokenDecimals(hre, token));
+
+    await previewAndSend(raffleManager.withdrawExcessTokens, [args.id, token, amount], {
+      dryRun: args.dryRun,
+      interfaces: await raffleInterfaces(hre),
+    });
+  });
+
+task("raffle:recover-prizes", "Recovers the unclaimed prizes of a raffle abandoned after repeated unclaimed draws")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addOptionalParam("receiver", "The address receiving the unclaimed prizes, defaults to the signer")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const receiver = args.receiver ?? (await hre.ethers.getSigners())[0].address;
+
+    await previewAndSend(raffleManager.recoverPrizes, [args.id, receiver], {
+      dryRun: args.dryRun,
+      interfaces: await raffleInterfaces(hre),
+    });
+  });
+
+task("raffle:keeper", "Polls the node and performs the due upkeeps of the raffles, as Chainlink Automation would")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addOptionalParam("from", "The first raffle id to check, every raffle is checked when --from and --to are omitted", undefined, types.int)
+  .addOptionalParam("to", "The raffle id after the last one to check, defaults to the last raffle", undefined, types.int)
+  .addOptionalParam("interval", "The polling interval in seconds", 60, types.int)
+  .addOptionalParam("maxUpkeeps", "The maximum number of upkeeps performed in a single round", undefined, types.int)
+  .addFlag("once", "Perform the due upkeeps a single time instead of polling")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const checkData = args.from === undefined && args.to === undefined ? undefined : encodeUpkeepRange(args.from ?? 0, args.to ?? MaxUint256);
+
+    for (;;) {
+      try {
+        const performed = await performDueUpkeeps(raffleManager, { checkData, maxUpkeeps: args.maxUpkeeps });
+        for (const upkeep of performed) {
+          console.log(`${new Date().toISOString()} raffle ${upkeep.raffleId}: ${UpkeepAction[upkeep.action]} in ${upkeep.transactionHash}`);
+        }
+        const awaiting = await findRafflesAwaitingRewarding(raffleManager);
+        if (awaiting.length > 0) console.log(`${new Date().toISOString()} raffles awaiting startRewarding: ${awaiting.join(", ")}`);
+      } catch (error) {
+        // Another keeper may have performed the same upkeep first, the next round checks again
+        if (args.once) throw error;
+        console.error(`${new Date().toISOString()} upkeep round failed: ${error instanceof Error ? error.message : error}`);
+      }
+      if (args.once) return;
+      await new Promise((resolve) => setTimeout(resolve, args.interval * 1000));
+    }
+  });
+
+task("raffle:cancel", "Cancels a raffle that has not started rewarding, opening refunds to its purchasers")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    await previewAndSend(raffleManager.cancelRaffle, [args.id], { dryRun: args.dryRun, interfaces: await raffleInterfaces(hre) });
+  });
+
+task("raffle:grant-tickets", "Grants free tickets of a raffle, up to the maximum set at its creation")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addParam("recipients", "Comma separated addresses receiving the tickets")
+  .addParam("tickets", "The number of tickets granted to each recipient", undefined, types.int)
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const recipients = (args.recipients as string).split(",").map((addr) => getAddress(addr.trim()));
+    await previewAndSend(raffleManager.grantTickets, [args.id, recipients, args.tickets], { dryRun: args.dryRun, interfaces: await raffleInterfaces(hre) });
+  });
+
+task("raffle:pause", "Pauses a raffle, or every raffle without --id, halting ticket sales, withdrawals, draws and claims")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addOptionalParam("id", "The id of the raffle, every raffle is paused when omitted", undefined, types.int)
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const options = { dryRun: args.dryRun, interfaces: await raffleInterfaces(hre) };
+
+    if (args.id === undefined) await previewAndSend(raffleManager.pause, [], options);
+    else await previewAndSend(raffleManager.setRafflePaused, [args.id, true], options);
+  });
+
+task("raffle:unpause", "Unpauses a raffle, or lifts the global pause without --id")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addOptionalParam("id", "The id of the raffle, the global pause is lifted when omitted", undefined, types.int)
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const options = { dryRun: args.dryRun, interfaces: await raffleInterfaces(hre) };
+
+    if (args.id === undefined) await previewAndSend(raffleManager.unpause, [], options);
+    else await previewAndSend(raffleManager.setRafflePaused, [args.id, false], options);
+  });
+
+task("raffle:refund", "Pushes the refunds of a failed or canceled raffle to the purchasers found in its TicketPurchased events")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .addOptionalParam("batchSize", "The maximum purchasers refunded in a single transaction", 100, types.int)
+  .addOptionalParam("fromBlock", "The first block to scan for purchases", 0, types.int)
+  .addFlag("dryRun", "Only report the purchasers left to refund and simulate the transactions")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    const { raffleTicketPurchase: raffleTicketPurchaseAddress } = await raffleManager.raffles(args.id);
+    const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffleTicketPurchaseAddress);
+
+    // Refunded purchasers are left out of the snapshot, which checks every remaining ticket count against the contract.
+    // Granted tickets are never refunded, so their recipients are only kept for the tickets they purchased.
+    const unrefunded = async () => {
+      const { participants } = await buildParticipantsSnapshot(raffleTicketPurchase, { fromBlock: args.fromBlock });
+      const purchased = await Promise.all(participants.map(async (p) => ({ addr: p.addr, ticketCount: await raffleTicketPurchase.ticketsPurchased(p.addr) })));
+      return purchased.filter((p) => p.ticketCount > 0n);
+    };
+
+    const purchasers = await unrefunded();
+    console.log(`Raffle ${args.id} has ${purchasers.length} purchasers left to refund`);
+    if (purchasers.length === 0) return;
+    if (!(await raffleTicketPurchase.isFailed())) throw new Error(`Raffle ${args.id} has not failed nor been canceled, refunds are not open`);
+
+    const interfaces = await raffleInterfaces(hre);
+    for (let i = 0; i < purchasers.length; i += args.batchSize) {
+      const batch = purchasers.slice(i, i + args.batchSize).map((p) => p.addr);
+      console.log(`Refunding purchasers ${i} to ${i + batch.length - 1}`);
+      await previewAndSend(raffleManager.refundPurchasers, [args.id, batch], { dryRun: args.dryRun, interfaces });
+    }
+
+    const remaining = args.dryRun ? purchasers : await unrefunded();
+    console.log(`${remaining.length} purchasers left to refund${remaining.length > 0 ? ":" : ""}`);
+    for (const p of remaining) console.log(`  ${p.addr}: ${p.ticketCount} tickets`);
+  });
+
+task("raffle:set-referral-fee", "Sets the referral fee of the raffles created from now on")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("bps", "The share of the revenue of referred tickets paid to their referrer, in basis points", undefined, types.int)
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    await previewAndSend(raffleManager.setReferralFee, [args.bps], { dryRun: args.dryRun, interfaces: await raffleInterfaces(hre) });
+  });
+
+task("raffle:set-revenue-receiver", "Sets the receiver of the ticket revenue of the raffles without payouts")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("receiver", "The address receiving the revenue when the raffles start rewarding")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    if (!isAddress(args.receiver)) throw new Error(`Invalid receiver ${args.receiver}`);
+
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    await previewAndSend(raffleManager.setRevenueReceiver, [args.receiver], { dryRun: args.dryRun, interfaces: await raffleInterfaces(hre) });
+  });
+
+task("raffle:register-referral-code", "Registers a referral code to the signer")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("code", "The referral code")
+  .addFlag("dryRun", "Only preview and simulate the transaction")
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+
+    const referrer = await raffleManager.referrerOf(args.code);
+    if (referrer !== ZeroAddress) throw new Error(`Referral code ${args.code} is already registered to ${referrer}`);
+
+    await previewAndSend(raffleManager.registerReferralCode, [args.code], { dryRun: args.dryRun, interfaces: await raffleInterfaces(hre) });
+  });
+
+task("raffle:list", "Lists a page of raffles with their status, read through the RaffleLens")
+  .addOptionalParam("lens", "The RaffleLens address, defaults to RAFFLE_LENS_ADDRESS")
+  .addOptionalParam("offset", "The id of the first raffle listed", 0, types.int)
+  .addOptionalParam("limit", "The maximum number of raffles listed", 50, types.int)
+  .setAction(async (args, hre) => {
+    const raffleLens = await getRaffleLens(hre, args.lens);
+
+    const details = await raffleLens.getRaffles(args.offset, args.limit);
+    if (details.length === 0) console.log(`No raffle from id ${args.offset}`);
+    for (const { id, raffle, status } of details) {
+      console.log(
+        `Raffle ${id}: ${RaffleStatus[Number(status)]}, sale ${formatTimestamp(raffle.startTimestamp)} -> ${formatTimestamp(raffle.finishTimestamp)}, ${
+          raffle.prizes.length
+        } prizes`
+      );
+    }
+  });
+
+task("raffle:status", "Prints the state of a raffle")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addParam("id", "The id of the raffle", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+    if (BigInt(args.id) >= (await raffleManager.lastRaffleId())) throw new Error(`Raffle ${args.id} does not exist`);
+
+    const raffle = await raffleManager.raffles(args.id);
+    const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffle.raffleTicketPurchase);
+    const symbol = raffle.purchaseToken === NATIVE_CURRENCY ? "native currency" : await (await hre.ethers.getContractAt(ERC20, raffle.purchaseToken)).symbol();
+
+    console.log(`Raffle ${args.id} (version ${raffle.version}): ${RaffleStatus[Number(await raffleManager.getRaffleStatus(args.id))]}`);
+    console.log(`  ticket purchase: ${raffle.raffleTicketPurchase}`);
+    console.log(`  purchase token: ${raffle.purchaseToken} (${symbol})`);
+    console.log(`  ticket price: ${raffle.ticketPrice}`);
+    console.log(`  sale: ${formatTimestamp(raffle.startTimestamp)} -> ${formatTimestamp(raffle.finishTimestamp)}`);
+    console.log(`  caps: min ${raffle.minCap}, max ${raffle.maxCap}, personal ${raffle.personalMaxCap}`);
+    // The ticket purchase contracts deployed before the clones only count the tickets, sold at the full price without sale options or referrals
+    const sale = await readOrFallback(
+      () => raffleTicketPurchase.sale(),
+      async () => {
+        const totalTicketsSold = await raffleTicketPurchase.totalTicketsSold();
+        return { totalTicketsSold, totalGrantedTickets: 0n, totalPaid: totalTicketsSold * (await raffleTicketPurchase.ticketPrice()) };
+      }
+    );
+    const saleOptions = await readOrFallback(
+      () => raffleTicketPurchase.getSaleOptions(),
+      () => undefined
+    );
+    console.log(`  tickets sold: ${sale.totalTicketsSold}`);
+    if (saleOptions && saleOptions.maxGrantedTickets > 0n) console.log(`  tickets granted: ${sale.totalGrantedTickets} of ${saleOptions.maxGrantedTickets}`);
+    console.log(`  successful: ${await raffleTicketPurchase.isSuccessful()}${raffle.canceled ? ", canceled" : ""}`);
+    if (await raffleManager.isRafflePaused(args.id)) console.log(`  paused: ${raffle.paused ? "this raffle" : "every raffle"}`);
+    const referrals = await readOrFallback(
+      () => raffleTicketPurchase.referrals(),
+      () => ({ totalTickets: 0n })
+    );
+    console.log(`  referral fee: ${raffle.referralFeeBps} bps, referred tickets: ${referrals.totalTickets}`);
+    for (const payout of saleOptions?.payouts ?? []) console.log(`  payout: ${payout.shareBps} bps to ${payout.recipient}`);
+    for (const priceWindow of saleOptions?.pricing.priceWindows ?? []) {
+      console.log(`  early-bird discount: ${priceWindow.discountBps} bps until ${formatTimestamp(priceWindow.endTimestamp)}`);
+    }
+    for (const tier of saleOptions?.pricing.discountTiers ?? []) console.log(`  volume discount: ${tier.discountBps} bps from ${tier.minTickets} tickets`);
+    console.log(`  paid: ${sale.totalPaid}`);
+
+    if (raffle.raffleRewarder === ZeroAddress) {
+      console.log("  rewarding: not started");
+      return;
+    }
+
+    const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", raffle.raffleRewarder);
+    const request = await raffleRewarder.request();
+    const draw = await raffleRewarder.draw();
+    const rewards: RaffleRewards = {
+      prizes: (await raffleRewarder.getPrizes()).map(({ kind, contractAddress, tokenId, amount }) => ({ kind: Number(kind), contractAddress, tokenId, amount })),
+      allowMultipleWins: await raffleRewarder.allowMultipleWins(),
+      winners: await raffleRewarder.getWinners(),
+      claimed: await Promise.all(Array.from({ length: Number(await raffleRewarder.getNumWords()) }, (_, i) => raffleRewarder.prizeClaimed(i))),
+    };
+
+    console.log(`  rewarder: ${raffle.raffleRewarder}`);
+    console.log(`  participants proof: ${raffle.participantsProof} (${ProofType[Number(raffle.proofType)]})`);
+    const config = await raffleRewarder.rewardingConfig();
+    console.log(
+      `  VRF callback gas ${config.callbackGasLimit}, ${config.requestConfirmations} confirmations, claim period ${
+        Number(config.prizeClaimPeriod) / ONE_DAY
+      } days`
+    );
+    const paymentMode = Number((await raffleRewarder.randomness()).paymentMode);
+    const paid =
+      paymentMode === PaymentMode.Subscription
+        ? "charged to the subscription"
+        : `paid ${formatUnits(request.paid, 18)} ${paymentMode === PaymentMode.NativeWrapper ? "native currency" : "LINK"}`;
+    console.log(`  randomness request: ${request.requestId} (${paid}, fulfilled ${request.fulfilled})`);
+    if (request.requestId !== 0n && !request.fulfilled) {
+      const timeoutAt = request.requestedAt + (await raffleRewarder.REQUEST_TIMEOUT());
+      console.log(`  request timeout: ${formatTimestamp(timeoutAt)}${(await raffleRewarder.canAskForRandomness()) ? ", can be requested again" : ""}`);
+    }
+    console.log(`  prizes${rewards.allowMultipleWins ? " (multiple wins allowed)" : ""}:`);
+    rewards.prizes.forEach((prize, i) => {
+      const description = prize.kind === PrizeKind.ERC20 ? `${prize.amount}` : prize.kind === PrizeKind.ERC1155 ? `#${prize.tokenId} x${prize.amount}` : `#${prize.tokenId}`;
+      const winner = rewards.winners[i] && rewards.winners[i] !== ZeroAddress ? rewards.winners[i] : "not determined";
+      console.log(`    ${i}: ${PrizeKind[prize.kind]} ${prize.contractAddress} ${description}, winner ${winner}${rewards.claimed[i] ? " (claimed)" : ""}`);
+    });
+    if (request.fulfilled) console.log(`  claim deadline: ${formatTimestamp(draw.startClaimTime + (await raffleRewarder.rewardingConfig()).prizeClaimPeriod)}`);
+    console.log(`  draws: ${draw.drawCount} of ${await raffleRewarder.MAX_UNCLAIMED_DRAWS()} before recovery${draw.prizesRecovered ? ", prizes recovered" : ""}`);
+  });
@@ -0,0 +1,28 @@
+import { task, types } from "hardhat/config";
+import { buildRoleAudit } from "../scripts/roleAudit";
+import { getRaffleManager } from "./utils";
+
+task("raffle:roles", "Audits the current holders of the RaffleManager roles from its RoleGranted and RoleRevoked events")
+  .addOptionalParam("manager", "The RaffleManager address, defaults to RAFFLE_MANAGER_ADDRESS")
+  .addOptionalParam("fromBlock", "The first block to scan, the block the RaffleManager was deployed at", 0, types.int)
+  .addOptionalParam("toBlock", "The last block to scan, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("batchSize", "The maximum block range of a single logs query", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const raffleManager = await getRaffleManager(hre, args.manager);
+
+    const audit = await buildRoleAudit(raffleManager, {
+      fromBlock: args.fromBlock,
+      toBlock: args.toBlock,
+      batchSize: args.batchSize,
+    });
+
+    const names = new Map(audit.roles.map(({ role, name }) => [role, name]));
+    console.log(`Roles of RaffleManager ${audit.raffleManager} at block ${audit.blockNumber}`);
+    console.log(`  owner: ${audit.owner}`);
+    for (const { name, adminRole, holders } of audit.roles) {
+      console.log(`  ${name} (admin ${names.get(adminRole) ?? adminRole}): ${holders.length === 0 ? "no holders" : `${holders.length} holders`}`);
+      for (const holder of holders) {
+        console.log(`    ${holder.account}, granted by ${holder.grantedBy} at block ${holder.grantedAtBlock}`);
+      }
+    }
+  });
@@ -0,0 +1,93 @@
+import { ContractTransactionResponse, FunctionFragment, Interface, Result } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export const getRaffleManager = async (hre: HardhatRuntimeEnvironment, address?: string) => {
+  const managerAddress = address ?? process.env.RAFFLE_MANAGER_ADDRESS;
+  if (!managerAddress) throw new Error("Missing RaffleManager address, pass --manager or set RAFFLE_MANAGER_ADDRESS");
+
+  return hre.ethers.getContractAt("RaffleManager", managerAddress);
+};
+
+export const getRaffleLens = async (hre: HardhatRuntimeEnvironment, address?: string) => {
+  const lensAddress = address ?? process.env.RAFFLE_LENS_ADDRESS;
+  if (!lensAddress) throw new Error("Missing RaffleLens address, pass --lens or set RAFFLE_LENS_ADDRESS");
+
+  return hre.ethers.getContractAt("RaffleLens", lensAddress);
+};
+
+export const parseIsoDate = (value: string) => {
+  const ms = Date.parse(value);
+  if (isNaN(ms)) throw new Error(`Invalid ISO date ${value}`);
+  return Math.floor(ms / 1000);
+};
+
+export const formatTimestamp = (timestamp: bigint | number) => `${new Date(Number(timestamp) * 1000).toISOString()} (${timestamp})`;
+
+const formatEntries = (obj: Record<string, any>) =>
+  `{ ${Object.entries(obj)
+    .map(([k, v]) => `${k}: ${formatValue(v)}`)
+    .join(", ")} }`;
+
+export const formatValue = (value: any): string => {
+  if (value instanceof Result) {
+    try {
+      return formatEntries(value.toObject());
+    } catch {
+      // Unnamed values can't be turned into an object
+      return `[${value.map(formatValue).join(", ")}]`;
+    }
+  }
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`;
+  if (value !== null && typeof value === "object") return formatEntries(value);
+  return String(value);
+};
+
+type PreviewableMethod = {
+  fragment: FunctionFragment;
+  populateTransaction: (...args: any[]) => Promise<{ to: string; data: string }>;
+  staticCall: (...args: any[]) => Promise<any>;
+  send: (...args: any[]) => Promise<ContractTransactionResponse>;
+};
+
+// Prints the decoded call, simulates it and, unless dryRun is set, sends it and prints the events it emitted.
+export const previewAndSend = async (method: PreviewableMethod, args: any[], options: { dryRun: boolean; interfaces: Interface[] }) => {
+  const tx = await method.populateTransaction(...args);
+  const decoded = new Interface([method.fragment]).decodeFunctionData(method.fragment, tx.data);
+  console.log(`Call ${method.fragment.format()} on ${tx.to}`);
+  method.fragment.inputs.forEach((input, i) => console.log(`  ${input.name}: ${formatValue(decoded[i])}`));
+  console.log(`  calldata: ${tx.data}`);
+
+  await method.staticCall(...args);
+  console.log("Simulation succeeded");
+
+  if (options.dryRun) {
+    console.log("Dry run, transaction not sent");
+    return;
+  }
+
+  const response = await method.send(...args);
+  console.log(`Transaction sent: ${response.hash}`);
+  const receipt = await response.wait();
+  if (!receipt) throw new Error(`Transaction ${response.hash} not mined`);
+  console.log(`Mined in block ${receipt.blockNumber}, gas used ${receipt.gasUsed}`);
+
+  const events = [];
+  for (const log of receipt.logs) {
+    for (const iface of options.interfaces) {
+      // Events sharing a signature may differ in their indexed params, so a decoding failure means another interface
+      const parsed = (() => {
+        try {
+          return iface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })();
+      if (parsed) {
+        console.log(`  ${parsed.name} @ ${log.address}: ${formatValue(parsed.args)}`);
+        events.push(parsed);
+        break;
+      }
+    }
+  }
+  return events;
+};
@@ -0,0 +1,177 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { maxCap, minCap, openSalePeriod, personalMaxCap, ticketPrice } from "../config/config";
+import { MaxUint256, parseUnits, ZeroAddress } from "ethers";
+import { deployInitializedClone, FLAT_PRICING, makeParticipantsProof, OPEN_SALE } from "../scripts/utils";
+import { buildParticipantsSnapshot, snapshotParticipants } from "../scripts/participantsSnapshot";
+
+describe("ParticipantsSnapshot", function () {
+  async function deployRaffleTicketPurchaseFixture() {
+    const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+
+    const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+
+    const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+
+    const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+      0,
+      await purchaseToken.getAddress(),
+      ticketPrice,
+      now,
+      now + openSalePeriod,
+      minCap,
+      maxCap,
+      personalMaxCap,
+      "0x31",
+      ZeroAddress,
+      0,
+      [],
+      ZeroAddress,
+      OPEN_SALE,
+      FLAT_PRICING,
+      10,
+    ]);
+
+    const buyers = otherAccounts.slice(0, 3);
+    for (const buyer of buyers) {
+      await purchaseToken.transfer(buyer.address, parseUnits((BigInt(personalMaxCap) * ticketPrice).toString(), await purchaseToken.decimals()));
+      await purchaseToken.connect(buyer).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+    }
+
+    return { raffleTicketPurchase, purchaseToken, owner, buyers };
+  }
+
+  async function deployRaffleTicketPurchaseV1Fixture() {
+    const [, ...otherAccounts] = await hre.ethers.getSigners();
+
+    const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+
+    const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+
+    const raffleTicketPurchaseV1 = await hre.ethers.deployContract("RaffleTicketPurchaseV1", [
+      0,
+      await purchaseToken.getAddress(),
+      ticketPrice,
+      now,
+      now + openSalePeriod,
+      minCap,
+      maxCap,
+      personalMaxCap,
+      "0x31",
+    ]);
+    // Read as the current contract, like the tools do for every raffle
+    const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", await raffleTicketPurchaseV1.getAddress());
+
+    const buyers = otherAccounts.slice(0, 2);
+    for (const buyer of buyers) {
+      await purchaseToken.transfer(buyer.address, BigInt(personalMaxCap) * (await raffleTicketPurchaseV1.ticketPrice()));
+      await purchaseToken.connect(buyer).approve(await raffleTicketPurchaseV1.getAddress(), MaxUint256);
+    }
+
+    return { raffleTicketPurchaseV1, raffleTicketPurchase, buyers };
+  }
+
+  it("Should aggregate purchases per address in address order with cumulative counts", async function () {
+    const { raffleTicketPurchase, buyers } = await loadFixture(deployRaffleTicketPurchaseFixture);
+
+    await raffleTicketPurchase.connect(buyers[0]).purchaseTickets(3, "refCode");
+    await raffleTicketPurchase.connect(buyers[1]).purchaseTickets(5, "refCode");
+    await raffleTicketPurchase.connect(buyers[0]).purchaseTickets(2, "refCode");
+    await raffleTicketPurchase.connect(buyers[2]).purchaseTickets(1, "refCode");
+
+    const snapshot = await buildParticipantsSnapshot(raffleTicketPurchase);
+    const participants = snapshotParticipants(snapshot);
+
+    const expectedCounts = new Map([
+      [buyers[0].address, 5n],
+      [buyers[1].address, 5n],
+      [buyers[2].address, 1n],
+    ]);
+    const expectedOrder = [...expectedCounts.keys()].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+
+    expect(participants.map((p) => p.addr)).to.deep.equal(expectedOrder);
+    let cumulativeCount = 0n;
+    for (const participant of participants) {
+      cumulativeCount += expectedCounts.get(participant.addr)!;
+      expect(participant.ticketCount).to.equal(expectedCounts.get(participant.addr));
+      expect(participant.cumulativeCount).to.equal(cumulativeCount);
+    }
+
+    expect(snapshot.totalTicketsSold).to.equal("11");
+    expect(snapshot.participantsProof).to.equal(makeParticipantsProof(participants));
+  });
+
+  it("Should drop refunded purchasers", async function () {
+    const { raffleTicketPurchase, buyers } = await loadFixture(deployRaffleTicketPurchaseFixture);
+
+    await raffleTicketPurchase.connect(buyers[0]).purchaseTickets(3, "refCode");
+    await raffleTicketPurchase.connect(buyers[1]).purchaseTickets(5, "refCode");
+
+    await time.increase(openSalePeriod + 100);
+    await raffleTicketPurchase.connect(buyers[0]).claimRefund();
+
+    const participants = snapshotParticipants(await buildParticipantsSnapshot(raffleTicketPurchase));
+
+    expect(participants).to.deep.equal([{ addr: buyers[1].address, ticketCount: 5n, cumulativeCount: 5n }]);
+  });
+
+  it("Should add the granted tickets to the purchased ones and keep them after refunds", async function () {
+    const { raffleTicketPurchase, owner, buyers } = await loadFixture(deployRaffleTicketPurchaseFixture);
+
+    await raffleTicketPurchase.connect(buyers[0]).purchaseTickets(3, "refCode");
+    await raffleTicketPurchase.grantTickets([buyers[0].address, owner.address], 2);
+
+    let snapshot = await buildParticipantsSnapshot(raffleTicketPurchase);
+    expect(snapshot.totalTicketsSold).to.equal("3");
+    expect(snapshot.totalTicketsGranted).to.equal("4");
+    expect(snapshot.participants.find((p) => p.addr === buyers[0].address)?.ticketCount).to.equal("5");
+
+    await raffleTicketPurchase.cancel();
+    await raffleTicketPurchase.connect(buyers[0]).claimRefund();
+
+    snapshot = await buildParticipantsSnapshot(raffleTicketPurchase);
+    expect(snapshotParticipants(snapshot).map((p) => [p.addr, p.ticketCount])).to.have.deep.members([
+      [buyers[0].address, 2n],
+      [owner.address, 2n],
+    ]);
+  });
+
+  it("Should read the purchases of the contracts deployed before the clones from their TicketPurchased event", async function () {
+    const { raffleTicketPurchaseV1, raffleTicketPurchase, buyers } = await loadFixture(deployRaffleTicketPurchaseV1Fixture);
+
+    await raffleTicketPurchaseV1.connect(buyers[0]).purchaseTickets(3, "refCode");
+    await raffleTicketPurchaseV1.connect(buyers[1]).purchaseTickets(5, "");
+    await raffleTicketPurchaseV1.connect(buyers[0]).purchaseTickets(1, "refCode");
+
+    const snapshot = await buildParticipantsSnapshot(raffleTicketPurchase);
+
+    expect(snapshot.totalTicketsSold).to.equal("9");
+    expect(snapshot.totalTicketsGranted).to.equal("0");
+    expect(snapshotParticipants(snapshot).map((p) => [p.addr, p.ticketCount])).to.have.deep.members([
+      [buyers[0].address, 4n],
+      [buyers[1].address, 5n],
+    ]);
+  });
+
+  it("Should produce the same snapshot when scanning in batches", async function () {
+    const { raffleTicketPurchase, buyers } = await loadFixture(deployRaffleTicketPurchaseFixture);
+
+    for (const buyer of buyers) {
+      await raffleTicketPurchase.connect(buyer).purchaseTickets(2, "refCode");
+    }
+
+    expect(await buildParticipantsSnapshot(raffleTicketPurchase, { batchSize: 2 })).to.deep.equal(await buildParticipantsSnapshot(raffleTicketPurchase));
+  });
+
+  it("Should refuse to emit a snapshot that disagrees with the chain", async function () {
+    const { raffleTicketPurchase, buyers } = await loadFixture(deployRaffleTicketPurchaseFixture);
+
+    await raffleTicketPurchase.connect(buyers[0]).purchaseTickets(3, "refCode");
+    await raffleTicketPurchase.connect(buyers[1]).purchaseTickets(5, "refCode");
+
+    const fromBlock = await hre.ethers.provider.getBlockNumber();
+
+    await expect(buildParticipantsSnapshot(raffleTicketPurchase, { fromBlock })).to.be.rejectedWith("disagree with totalTicketsSold");
+  });
+});
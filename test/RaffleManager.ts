@@ -1,7 +1,9 @@
 import hre from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import {
   baseFee,
+  callbackGasLimit,
   coordinatorGasOverheadLink,
   coordinatorGasOverheadNative,
   coordinatorGasOverheadPerWord,
@@ -17,19 +19,55 @@ import {
   maxCap,
   maxNumWords,
   minCap,
+  ONE_DAY,
   openSalePeriod,
   personalMaxCap,
+  prizeClaimPeriod,
+  requestConfirmations,
   stalenessSeconds,
   ticketPrice,
   wrapperGasOverhead,
 } from "../config/config";
 import { expect } from "chai";
-import { MaxUint256, parseEther, parseUnits, ZeroAddress } from "ethers";
-import { buyAllTickets, errors, exampleParticipants, expectedVRFLinkCost, makeParticipantsProof, maxVRFLinkCostDraft } from "../scripts/utils";
-import { PurchaseToken, RaffleManager, RaffleManagerV2 } from "../typechain-types";
+import { AbiCoder, concat, MaxUint256, parseEther, parseUnits, ZeroAddress, ZeroHash } from "ethers";
+import {
+  allowlistGate,
+  applyDiscount,
+  buyAllTickets,
+  buyAllTicketsWithNativeCurrency,
+  erc1155Prize,
+  erc20Prize,
+  erc721Prize,
+  errors,
+  exampleParticipants,
+  expectedVRFLinkCost,
+  findWinningParticipantIndex,
+  FLAT_PRICING,
+  GateType,
+  makeAllowlistGateProof,
+  makeAllowlistMerkleTree,
+  makeParticipantMerkleProof,
+  makeParticipantsMerkleTree,
+  makeParticipantsProof,
+  maxVRFLinkCostDraft,
+  NATIVE_CURRENCY,
+  OPEN_SALE,
+  PaymentMode,
+  ProofType,
+  RaffleStatus,
+  saleOptions,
+  UpkeepAction,
+} from "../scripts/utils";
+import { buildParticipantsSnapshot, snapshotParticipants } from "../scripts/participantsSnapshot";
+import { encodeUpkeepRange, findRafflesAwaitingRewarding, performDueUpkeeps } from "../scripts/keeper";
+import { PurchaseToken, RaffleManager, RaffleManagerV1, RaffleManagerV2 } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { getStorageLayout, getStorageUpgradeReport, getVersion, Manifest, withValidationDefaults } from "@openzeppelin/upgrades-core";
+import { readValidations } from "@openzeppelin/hardhat-upgrades/dist/utils";
 
 describe("RaffleManager", function () {
+  const rewardingConfig = { callbackGasLimit, requestConfirmations, prizeClaimPeriod };
+
   async function deployRaffleManagerFixture() {
     // Contracts are deployed using the first signer/account by default
     const [owner, ...otherAccounts] = await hre.ethers.getSigners();
@@ -72,17 +110,41 @@ describe("RaffleManager", function () {
 
     const NftPrize = await hre.ethers.getContractFactory("NftPrize");
     const nftPrize = await NftPrize.deploy();
-    const prize = { contractAddress: await nftPrize.getAddress(), tokenId: 1n };
+    const prize = erc721Prize(await nftPrize.getAddress(), 1n);
+    const prizes = [1n, 2n, 3n].map((tokenId) => erc721Prize(prize.contractAddress, tokenId));
 
     const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
 
-    const contractArgs = [await vrfV2Wrapper.getAddress()];
+    const raffleTicketPurchaseImplementation = await hre.ethers.deployContract("RaffleTicketPurchase");
+    const raffleRewarderImplementation = await hre.ethers.deployContract("RaffleRewarder");
+
+    const contractArgs = [
+      await vrfV2Wrapper.getAddress(),
+      await raffleTicketPurchaseImplementation.getAddress(),
+      await raffleRewarderImplementation.getAddress(),
+    ];
     const RaffleManager = await hre.ethers.getContractFactory("RaffleManager");
     const raffleManager = (await hre.upgrades.deployProxy(RaffleManager, contractArgs, {
       initializer: "initialize",
     })) as unknown as RaffleManager;
-
-    return { raffleManager, purchaseToken, nftPrize, linkToken, vrfV2Wrapper, vrfCoordinator, prize, owner, otherAccounts };
+    // The prizes are escrowed from the owner when rewarding starts, and the revenue of the raffles without payouts sent back to it
+    await nftPrize.setApprovalForAll(await raffleManager.getAddress(), true);
+    await raffleManager.setRevenueReceiver(owner.address);
+
+    return {
+      raffleManager,
+      raffleTicketPurchaseImplementation,
+      raffleRewarderImplementation,
+      purchaseToken,
+      nftPrize,
+      linkToken,
+      vrfV2Wrapper,
+      vrfCoordinator,
+      prize,
+      prizes,
+      owner,
+      otherAccounts,
+    };
   }
 
   describe("Deployment", function () {
@@ -99,7 +161,7 @@ describe("RaffleManager", function () {
 
     it("Should disable initializer", async function () {
       const { raffleManager } = await loadFixture(deployRaffleManagerFixture);
-      await expect(raffleManager.initialize(ZeroAddress)).to.be.revertedWithCustomError(raffleManager, errors.invalidInitialization);
+      await expect(raffleManager.initialize(ZeroAddress, ZeroAddress, ZeroAddress)).to.be.revertedWithCustomError(raffleManager, errors.invalidInitialization);
     });
   });
 
@@ -109,6 +171,7 @@ describe("RaffleManager", function () {
 
       const tokenAddress = await purchaseToken.getAddress();
       const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
       await expect(raffleManager.createNewRaffle(tokenAddress, ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap)).to.emit(
         raffleManager,
         "RaffleCreated"
@@ -186,6 +249,7 @@ describe("RaffleManager", function () {
       ({ raffleManager, purchaseToken, owner, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture));
       tokenAddress = await purchaseToken.getAddress();
       const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
       await raffleManager.createNewRaffle(tokenAddress, ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
     });
 
@@ -195,12 +259,44 @@ describe("RaffleManager", function () {
       const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffle[0]);
 
       await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
-      await expect(raffleManager.startRewarding(0, prize, makeParticipantsProof([]))).to.emit(raffleManager, "RewardingStarted");
+      await expect(raffleManager.startRewarding(0, [prize], false, makeParticipantsProof([]), rewardingConfig)).to.emit(raffleManager, "RewardingStarted");
+    });
+
+    it("should escrow the prizes from the caller into the rewarder", async function () {
+      const raffle = await raffleManager.raffles(0);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffle.raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      const nftPrize = await hre.ethers.getContractAt("NftPrize", prize.contractAddress);
+      const tokenPrize = await hre.ethers.deployContract("TokenPrize");
+      const collectiblePrize = await hre.ethers.deployContract("CollectiblePrize");
+      await tokenPrize.approve(await raffleManager.getAddress(), parseEther("10"));
+      await collectiblePrize.setApprovalForAll(await raffleManager.getAddress(), true);
+
+      const prizes = [prize, erc20Prize(await tokenPrize.getAddress(), parseEther("10")), erc1155Prize(await collectiblePrize.getAddress(), 1n, 4n)];
+      await raffleManager.startRewardingWithTicketLedger(0, prizes, false, rewardingConfig);
+
+      const raffleRewarder = (await raffleManager.raffles(0)).raffleRewarder;
+      expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(raffleRewarder);
+      expect(await tokenPrize.balanceOf(raffleRewarder)).to.equal(parseEther("10"));
+      expect(await collectiblePrize.balanceOf(raffleRewarder, 1n)).to.equal(4n);
+      expect(await collectiblePrize.balanceOf(owner.address, 1n)).to.equal(6n);
+    });
+
+    it("should revert when the manager is not approved to escrow a prize", async function () {
+      const raffle = await raffleManager.raffles(0);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffle.raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      const unapprovedNftPrize = await hre.ethers.deployContract("NftPrize");
+      await expect(
+        raffleManager.startRewardingWithTicketLedger(0, [erc721Prize(await unapprovedNftPrize.getAddress(), 1n)], false, rewardingConfig)
+      ).to.be.revertedWithCustomError(unapprovedNftPrize, "ERC721InsufficientApproval");
     });
 
     it("should revert when starting rewarding for a non-existent raffle", async function () {
       const nonExistentRaffleId = 999; // Assuming this ID hasn't been created
-      await expect(raffleManager.connect(owner).startRewarding(nonExistentRaffleId, prize, makeParticipantsProof([]))).to.be.revertedWithCustomError(
+      await expect(raffleManager.connect(owner).startRewarding(nonExistentRaffleId, [prize], false, makeParticipantsProof([]), rewardingConfig)).to.be.revertedWithCustomError(
         raffleManager,
         errors.invalidId
       );
@@ -209,7 +305,7 @@ describe("RaffleManager", function () {
     it("should fail to start rewarding on an unsuccessful raffle", async function () {
       // Assume the raffle at index 0 was not successful
       // Mock the isSuccessful() to return false or check the conditions that would make it unsuccessful
-      await expect(raffleManager.connect(owner).startRewarding(0, prize, makeParticipantsProof([]))).to.be.revertedWithCustomError(
+      await expect(raffleManager.connect(owner).startRewarding(0, [prize], false, makeParticipantsProof([]), rewardingConfig)).to.be.revertedWithCustomError(
         raffleManager,
         errors.raffleNotSuccessful
       );
@@ -225,6 +321,19 @@ describe("RaffleManager", function () {
       ({ raffleManager, purchaseToken } = await loadFixture(deployRaffleManagerFixture));
     });
 
+    it("Should keep the storage layout of the implementation behind the Polygon proxy", async function () {
+      const { impls } = await new Manifest(137).read();
+      const [deployedLayout] = Object.values(impls).map((impl) => impl!.layout);
+      const validations = await readValidations(hre);
+
+      // RaffleManagerV1 reproduces the deployed manager for the tests of the raffles created before the upgrade
+      for (const contractName of ["RaffleManagerV1", "RaffleManager", "RaffleManagerV2"]) {
+        const { bytecode } = await hre.ethers.getContractFactory(contractName);
+        const report = getStorageUpgradeReport(deployedLayout, getStorageLayout(validations, getVersion(bytecode)), withValidationDefaults({}));
+        expect(report.ok, `${contractName}: ${report.explain()}`).to.be.true;
+      }
+    });
+
     it("should deploy and upgrade RaffleManager to V2", async function () {
       const vrfV2Wrapper = await raffleManager.vrfV2Wrapper();
 
@@ -243,22 +352,477 @@ describe("RaffleManager", function () {
 
       const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
 
+      await time.setNextBlockTimestamp(now);
       await raffleManagerV2.createNewRaffle(await purchaseToken.getAddress(), 100, now, now + openSalePeriod, 10, 100, 1);
       await raffleManagerV2.cancelRaffle(0);
 
-      expect(await raffleManagerV2.isCanceled(0)).to.be.true;
+      expect((await raffleManagerV2.raffles(0)).canceled).to.be.true;
     });
 
-    it("should revert when trying to cancel a non-pending raffle", async function () {
+    it("should revert when trying to cancel a canceled raffle", async function () {
       const RaffleManagerV2 = await hre.ethers.getContractFactory("RaffleManagerV2");
       raffleManagerV2 = (await hre.upgrades.upgradeProxy(await raffleManager.getAddress(), RaffleManagerV2)) as unknown as RaffleManagerV2;
 
       const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
 
+      await time.setNextBlockTimestamp(now);
       await raffleManagerV2.createNewRaffle(await purchaseToken.getAddress(), 100, now, now + openSalePeriod, 10, 100, 1);
       await raffleManagerV2.cancelRaffle(0); // Cancel once
 
-      await expect(raffleManagerV2.cancelRaffle(0)).to.be.revertedWith("Raffle already canceled");
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManagerV2.raffles(0)).raffleTicketPurchase);
+      await expect(raffleManagerV2.cancelRaffle(0)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.raffleAlreadyCanceled);
+    });
+
+    // Creates a raffle with the manager deployed on Polygon and sells the personal cap to each purchaser, until its sale ends
+    async function createRaffleBeforeUpgrade(vrfV2Wrapper: string, purchasers: HardhatEthersSigner[]) {
+      const raffleManagerV1 = (await hre.upgrades.deployProxy(await hre.ethers.getContractFactory("RaffleManagerV1"), [vrfV2Wrapper], {
+        initializer: "initialize",
+      })) as unknown as RaffleManagerV1;
+
+      const now = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManagerV1.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchaseV1", (await raffleManagerV1.raffles(0)).raffleTicketPurchase);
+      const price = await raffleTicketPurchase.ticketPrice();
+      for (const purchaser of purchasers) {
+        await purchaseToken.transfer(purchaser.address, price * BigInt(personalMaxCap));
+        await purchaseToken.connect(purchaser).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+        await raffleTicketPurchase.connect(purchaser).purchaseTickets(personalMaxCap, "");
+      }
+      await time.increaseTo(now + openSalePeriod);
+
+      return { raffleManagerV1, raffleTicketPurchase, price };
+    }
+
+    async function upgradeFromV1(raffleManagerV1: RaffleManagerV1) {
+      return (await hre.upgrades.upgradeProxy(await raffleManagerV1.getAddress(), await hre.ethers.getContractFactory("RaffleManager"))) as unknown as RaffleManager;
+    }
+
+    it("Should start rewarding a raffle created with full contracts before the upgrade", async function () {
+      const { raffleTicketPurchaseImplementation, raffleRewarderImplementation, vrfV2Wrapper, prize, nftPrize, owner, otherAccounts } = await loadFixture(
+        deployRaffleManagerFixture
+      );
+      const { raffleManagerV1, raffleTicketPurchase, price } = await createRaffleBeforeUpgrade(await vrfV2Wrapper.getAddress(), otherAccounts.slice(0, 2));
+
+      const upgradedManager = await upgradeFromV1(raffleManagerV1);
+      await upgradedManager.initializeRoles();
+      await upgradedManager.setRevenueReceiver(owner.address);
+      await upgradedManager.registerVersion("0x31", await raffleTicketPurchaseImplementation.getAddress(), await raffleRewarderImplementation.getAddress());
+      await nftPrize.setApprovalForAll(await upgradedManager.getAddress(), true);
+
+      await expect(upgradedManager.startRewarding(0, [prize], false, makeParticipantsProof([]), rewardingConfig)).to.changeTokenBalances(
+        purchaseToken,
+        [raffleTicketPurchase, owner],
+        [-price * BigInt(2 * personalMaxCap), price * BigInt(2 * personalMaxCap)]
+      );
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await upgradedManager.raffles(0)).raffleRewarder);
+      expect(await raffleRewarder.totalTickets()).to.equal(2 * personalMaxCap);
+    });
+
+    it("Should determine the winner of a raffle rewarding with full contracts before the upgrade", async function () {
+      const { vrfV2Wrapper, vrfCoordinator, linkToken, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const purchasers = otherAccounts.slice(0, 2);
+      const { raffleManagerV1 } = await createRaffleBeforeUpgrade(await vrfV2Wrapper.getAddress(), purchasers);
+      const participants = purchasers.map((purchaser, i) => ({
+        addr: purchaser.address,
+        ticketCount: BigInt(personalMaxCap),
+        cumulativeCount: BigInt((i + 1) * personalMaxCap),
+      }));
+      await raffleManagerV1.startRewarding(0, { contractAddress: prize.contractAddress, tokenId: prize.tokenId }, makeParticipantsProof(participants));
+
+      const upgradedManager = await upgradeFromV1(raffleManagerV1);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarderV1", (await upgradedManager.raffles(0)).raffleRewarder);
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256);
+      await upgradedManager.askForRandomness(0);
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+
+      // The full rewarder only exposes the winner of its single prize
+      await upgradedManager.determineWinner(0, participants);
+      const winner = await raffleRewarder.winner();
+      expect(purchasers.map((purchaser) => purchaser.address)).to.include(winner);
+      expect(await upgradedManager.getRaffleWinners(0)).to.deep.equal([winner]);
+      expect((await upgradedManager.raffles(0)).winner).to.equal(winner);
+    });
+  });
+
+  describe("Raffle Cancellation", function () {
+    it("Should let the owner cancel a raffle and its purchasers claim a refund", async function () {
+      const { raffleManager, purchaseToken, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      await expect(raffleManager.connect(otherAccounts[0]).cancelRaffle(0)).to.be.revertedWithCustomError(raffleManager, errors.missingRole);
+      await expect(raffleManager.cancelRaffle(0)).to.emit(raffleManager, "RaffleCanceled").withArgs(0);
+
+      expect((await raffleManager.raffles(0)).canceled).to.be.true;
+      expect((await raffleTicketPurchase.sale()).canceled).to.be.true;
+
+      const refundAmount = BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice());
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).claimRefund()).to.changeTokenBalance(purchaseToken, otherAccounts[0], refundAmount);
+    });
+
+    it("Should not start rewarding a canceled raffle", async function () {
+      const { raffleManager, purchaseToken, owner, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      await raffleManager.cancelRaffle(0);
+
+      await expect(
+        raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)
+      ).to.be.revertedWithCustomError(raffleManager, errors.raffleNotSuccessful);
+    });
+
+    it("Should not cancel a raffle once rewarding started", async function () {
+      const { raffleManager, purchaseToken, owner, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      await raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig);
+
+      await expect(raffleManager.cancelRaffle(0)).to.be.revertedWithCustomError(raffleManager, errors.rewardingAlreadyStarted);
+    });
+
+    it("Should let the owner push the refunds of a canceled raffle", async function () {
+      const { raffleManager, purchaseToken, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      const purchasers = otherAccounts.slice(0, maxCap / personalMaxCap).map((account) => account.address);
+
+      await expect(raffleManager.refundPurchasers(0, purchasers)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.raffleNotFailed);
+      await raffleManager.cancelRaffle(0);
+      await expect(raffleManager.connect(otherAccounts[0]).refundPurchasers(0, purchasers)).to.be.revertedWithCustomError(raffleManager, errors.missingRole);
+
+      await raffleManager.refundPurchasers(0, purchasers.slice(0, 2));
+      await raffleManager.refundPurchasers(0, purchasers);
+
+      expect(await purchaseToken.balanceOf(raffleTicketPurchase)).to.equal(0);
+      for (const purchaser of purchasers) {
+        expect(await purchaseToken.balanceOf(purchaser)).to.equal(BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice()));
+      }
+    });
+  });
+
+  describe("Revenue Split", function () {
+    it("Should pay the revenue of a raffle created with payouts to its recipients when rewarding starts", async function () {
+      const { raffleManager, purchaseToken, owner, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const payouts = [
+        { recipient: otherAccounts[10].address, shareBps: 7000n },
+        { recipient: otherAccounts[11].address, shareBps: 3000n },
+      ];
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 10;
+      const args = [
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        saleOptions({ payouts }),
+      ] as const;
+      await expect(raffleManager.connect(otherAccounts[0]).createNewRaffleWithOptions(...args)).to.be.revertedWithCustomError(
+        raffleManager,
+        errors.missingRole
+      );
+      await time.setNextBlockTimestamp(now);
+      await expect(raffleManager.createNewRaffleWithOptions(...args)).to.emit(raffleManager, "RaffleCreated");
+
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      const revenue = BigInt(maxCap) * (await raffleTicketPurchase.ticketPrice());
+
+      await expect(raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)).to.changeTokenBalances(
+        purchaseToken,
+        [owner, otherAccounts[10], otherAccounts[11]],
+        [0, (revenue * 7000n) / 10_000n, (revenue * 3000n) / 10_000n]
+      );
+    });
+
+    it("Should pay the revenue of a raffle without payouts to the receiver set by the treasurer rather than the caller", async function () {
+      const { raffleManager, purchaseToken, owner, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const [receiver, treasurer] = otherAccounts.slice(10);
+      await raffleManager.grantRole(await raffleManager.TREASURER_ROLE(), treasurer.address);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      const revenue = BigInt(maxCap) * (await raffleTicketPurchase.ticketPrice());
+
+      await expect(raffleManager.connect(treasurer).setRevenueReceiver(ZeroAddress)).to.emit(raffleManager, "RevenueReceiverSet").withArgs(ZeroAddress);
+      await expect(
+        raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)
+      ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.revenueReceiverNotSet);
+
+      await expect(raffleManager.connect(treasurer).setRevenueReceiver(receiver.address))
+        .to.emit(raffleManager, "RevenueReceiverSet")
+        .withArgs(receiver.address);
+      expect(await raffleManager.revenueReceiver()).to.equal(receiver.address);
+      await expect(raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)).to.changeTokenBalances(
+        purchaseToken,
+        [owner, receiver],
+        [0, revenue]
+      );
+    });
+  });
+
+  describe("Purchase Gate", function () {
+    it("Should create a raffle whose tickets are only sold to the purchasers meeting its gate", async function () {
+      const { raffleManager, purchaseToken, owner, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const [allowed, outsider] = otherAccounts;
+      const allowlist = [
+        { addr: allowed.address, maxTickets: 0n },
+        { addr: otherAccounts[10].address, maxTickets: 0n },
+      ];
+      const allowlistTree = makeAllowlistMerkleTree(allowlist);
+      const payouts = [{ recipient: owner.address, shareBps: 10_000n }];
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 10;
+      const args = [
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        saleOptions({ payouts, purchaseGate: allowlistGate(allowlistTree.root) }),
+      ] as const;
+      await expect(raffleManager.connect(otherAccounts[0]).createNewRaffleWithOptions(...args)).to.be.revertedWithCustomError(
+        raffleManager,
+        errors.missingRole
+      );
+      await time.setNextBlockTimestamp(now);
+      await expect(raffleManager.createNewRaffleWithOptions(...args)).to.emit(raffleManager, "RaffleCreated");
+
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      expect((await raffleTicketPurchase.getSaleOptions()).purchaseGate.gateType).to.equal(GateType.Allowlist);
+      for (const purchaser of [allowed, outsider]) {
+        await purchaseToken.transfer(purchaser.address, parseUnits("1000", await purchaseToken.decimals()));
+        await purchaseToken.connect(purchaser).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+      }
+
+      await raffleTicketPurchase
+        .connect(allowed)
+        .purchaseTicketsWithGateProof(1, ZeroAddress, makeAllowlistGateProof(allowlistTree, allowlist, allowed.address));
+      expect(await raffleTicketPurchase.ticketsPurchased(allowed.address)).to.equal(1);
+      await expect(raffleTicketPurchase.connect(outsider).purchaseTickets(1, ZeroAddress)).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.purchaseNotAllowed
+      );
+    });
+  });
+
+  describe("Pricing", function () {
+    it("Should create a raffle discounting its tickets and refund the purchasers what they paid", async function () {
+      const { raffleManager, purchaseToken, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const [earlyBird, latecomer] = otherAccounts;
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 10;
+      const pricing = { priceWindows: [{ endTimestamp: BigInt(now + 100), discountBps: 2_000n }], discountTiers: [] };
+
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffleWithOptions(
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        saleOptions({ pricing })
+      );
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      const fullPrice = await raffleTicketPurchase.ticketPrice();
+      expect((await raffleTicketPurchase.getSaleOptions()).pricing.priceWindows).to.deep.equal([[BigInt(now + 100), 2_000n]]);
+      for (const purchaser of [earlyBird, latecomer]) {
+        await purchaseToken.transfer(purchaser.address, parseUnits("1000", await purchaseToken.decimals()));
+        await purchaseToken.connect(purchaser).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+      }
+
+      await expect(raffleTicketPurchase.connect(earlyBird).purchaseTickets(2, ZeroAddress)).to.changeTokenBalance(
+        purchaseToken,
+        earlyBird,
+        -2n * applyDiscount(fullPrice, 2_000n)
+      );
+      await time.increaseTo(now + 100);
+      await expect(raffleTicketPurchase.connect(latecomer).purchaseTickets(2, ZeroAddress)).to.changeTokenBalance(purchaseToken, latecomer, -2n * fullPrice);
+
+      await raffleManager.cancelRaffle(0);
+      await expect(raffleTicketPurchase.connect(earlyBird).claimRefund()).to.changeTokenBalance(
+        purchaseToken,
+        earlyBird,
+        2n * applyDiscount(fullPrice, 2_000n)
+      );
+      await expect(raffleTicketPurchase.connect(latecomer).claimRefund()).to.changeTokenBalance(purchaseToken, latecomer, 2n * fullPrice);
+    });
+  });
+
+  describe("Granted Tickets", function () {
+    it("Should grant free tickets of a raffle which take part in the draw of its ticket ledger", async function () {
+      const { raffleManager, purchaseToken, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const grantees = [otherAccounts[10].address, otherAccounts[11].address];
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 10;
+
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffleWithOptions(
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        saleOptions({ maxGrantedTickets: 10n })
+      );
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+
+      await expect(raffleManager.connect(otherAccounts[0]).grantTickets(0, grantees, 5)).to.be.revertedWithCustomError(raffleManager, errors.missingRole);
+      await expect(raffleManager.grantTickets(0, grantees, 5)).to.emit(raffleTicketPurchase, "TicketsGranted").withArgs(0, grantees[0], 5);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      await raffleManager.startRewardingWithTicketLedger(0, [prize], false, rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      expect(await raffleRewarder.totalTickets()).to.equal(maxCap + 10);
+      expect(await raffleTicketPurchase.ticketOwner(9)).to.equal(grantees[1]);
+    });
+  });
+
+  describe("Pause", function () {
+    async function deployRaffleManagerWithRaffleFixture() {
+      const fixture = await deployRaffleManagerFixture();
+      const { raffleManager, purchaseToken } = fixture;
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+
+      return { ...fixture, raffleTicketPurchase };
+    }
+
+    it("Should only let pausers pause raffles", async function () {
+      const { raffleManager, otherAccounts } = await loadFixture(deployRaffleManagerWithRaffleFixture);
+      const pauserRole = await raffleManager.PAUSER_ROLE();
+
+      for (const call of [raffleManager.connect(otherAccounts[0]).pause(), raffleManager.connect(otherAccounts[0]).setRafflePaused(0, true)]) {
+        await expect(call).to.be.revertedWithCustomError(raffleManager, errors.missingRole).withArgs(otherAccounts[0].address, pauserRole);
+      }
+
+      await raffleManager.grantRole(pauserRole, otherAccounts[0].address);
+      await expect(raffleManager.connect(otherAccounts[0]).pause()).to.emit(raffleManager, "Paused").withArgs(otherAccounts[0].address);
+      await expect(raffleManager.connect(otherAccounts[0]).unpause()).to.emit(raffleManager, "Unpaused").withArgs(otherAccounts[0].address);
+      await expect(raffleManager.connect(otherAccounts[0]).setRafflePaused(0, true)).to.emit(raffleManager, "RafflePauseSet").withArgs(0, true);
+    });
+
+    it("Should not let the next raffle be paused or have its payment mode set before it is created", async function () {
+      const { raffleManager, purchaseToken } = await loadFixture(deployRaffleManagerWithRaffleFixture);
+      const nextId = await raffleManager.lastRaffleId();
+
+      await expect(raffleManager.setRafflePaused(nextId, true)).to.be.revertedWithCustomError(raffleManager, errors.invalidId);
+      await expect(raffleManager.setRafflePaymentMode(nextId, PaymentMode.NativeWrapper)).to.be.revertedWithCustomError(raffleManager, errors.invalidId);
+
+      const now = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffle = await raffleManager.raffles(nextId);
+      expect(raffle.paused).to.be.false;
+      expect(raffle.paymentMode).to.equal(PaymentMode.LinkWrapper);
+      expect(await raffleManager.isRafflePaused(nextId)).to.be.false;
+    });
+
+    it("Should report a raffle paused while it or every raffle is paused", async function () {
+      const { raffleManager, raffleTicketPurchase } = await loadFixture(deployRaffleManagerWithRaffleFixture);
+
+      await raffleManager.setRafflePaused(0, true);
+      expect(await raffleManager.isRafflePaused(0)).to.be.true;
+      expect(await raffleManager.isRafflePaused(1)).to.be.false;
+      expect((await raffleManager.raffles(0)).paused).to.be.true;
+
+      await raffleManager.pause();
+      await raffleManager.setRafflePaused(0, false);
+      expect(await raffleManager.isRafflePaused(0)).to.be.true;
+      expect(await raffleManager.isRafflePaused(1)).to.be.true;
+      expect(await raffleTicketPurchase.isPaused()).to.be.true;
+
+      await raffleManager.unpause();
+      expect(await raffleManager.isRafflePaused(0)).to.be.false;
+      expect(await raffleTicketPurchase.isPaused()).to.be.false;
+    });
+
+    it("Should halt the ticket sales of a paused raffle", async function () {
+      const { raffleManager, raffleTicketPurchase, purchaseToken, otherAccounts } = await loadFixture(deployRaffleManagerWithRaffleFixture);
+      await purchaseToken.transfer(otherAccounts[0].address, await raffleTicketPurchase.ticketPrice());
+      await purchaseToken.connect(otherAccounts[0]).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+
+      await raffleManager.setRafflePaused(0, true);
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(1, "")).to.be.revertedWithCustomError(raffleTicketPurchase, errors.rafflePaused);
+
+      await raffleManager.setRafflePaused(0, false);
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(1, "")).to.emit(raffleTicketPurchase, "TicketPurchased");
+    });
+
+    it("Should halt rewarding, draws and claims while every raffle is paused", async function () {
+      const { raffleManager, raffleTicketPurchase, purchaseToken, owner, prize, otherAccounts, linkToken, vrfCoordinator, vrfV2Wrapper, nftPrize } =
+        await loadFixture(deployRaffleManagerWithRaffleFixture);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      const participants = exampleParticipants(owner.address);
+
+      await raffleManager.pause();
+      await expect(raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(participants), rewardingConfig)).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.rafflePaused
+      );
+      await raffleManager.unpause();
+      await raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(participants), rewardingConfig);
+
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+
+      await raffleManager.pause();
+      await expect(raffleManager.askForRandomness(0)).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+      await raffleManager.unpause();
+      await raffleManager.askForRandomness(0);
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+
+      await raffleManager.pause();
+      await expect(raffleManager.determineWinner(0, participants)).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+      await raffleManager.unpause();
+      await raffleManager.determineWinner(0, participants);
+
+      await raffleManager.setRafflePaused(0, true);
+      await expect(raffleRewarder.claimPrize(0)).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+      await raffleManager.setRafflePaused(0, false);
+      await raffleRewarder.claimPrize(0);
+      expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(owner.address);
+    });
+
+    it("Should keep the refunds of a canceled raffle available while every raffle is paused", async function () {
+      const { raffleManager, raffleTicketPurchase, purchaseToken, otherAccounts } = await loadFixture(deployRaffleManagerWithRaffleFixture);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      const refund = BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice());
+
+      await raffleManager.pause();
+      await raffleManager.cancelRaffle(0);
+
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).claimRefund()).to.changeTokenBalance(purchaseToken, otherAccounts[0], refund);
+      await expect(raffleManager.refundPurchasers(0, [otherAccounts[1].address])).to.changeTokenBalance(purchaseToken, otherAccounts[1], refund);
     });
   });
 
@@ -268,6 +832,7 @@ describe("RaffleManager", function () {
 
       const tokenAddress = await purchaseToken.getAddress();
       const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
       await raffleManager.createNewRaffle(tokenAddress, ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
 
       const { raffleTicketPurchase: raffleTicketPurchaseAddress } = await raffleManager.raffles(0);
@@ -275,7 +840,7 @@ describe("RaffleManager", function () {
 
       await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
 
-      await raffleManager.startRewarding(0, prize, makeParticipantsProof([]));
+      await raffleManager.startRewarding(0, [prize], false, makeParticipantsProof([]), rewardingConfig);
 
       const raffle = await raffleManager.raffles(0);
 
@@ -299,6 +864,7 @@ describe("RaffleManager", function () {
       const { raffleManager, purchaseToken, owner } = await loadFixture(deployRaffleManagerFixture);
       const tokenAddress = await purchaseToken.getAddress();
       const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
       await raffleManager.createNewRaffle(tokenAddress, ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
 
       const { raffleTicketPurchase: raffleTicketPurchaseAddress } = await raffleManager.raffles(0);
@@ -341,14 +907,100 @@ describe("RaffleManager", function () {
     });
   });
 
-  describe("Only Owner Functions", function () {
-    it("Should revert if a non-owner user tries to call only owner functions", async function () {
+  describe("Roles", function () {
+    it("Should grant every role to the deployer", async function () {
+      const { raffleManager, owner } = await loadFixture(deployRaffleManagerFixture);
+
+      for (const role of [
+        await raffleManager.DEFAULT_ADMIN_ROLE(),
+        await raffleManager.RAFFLE_CREATOR_ROLE(),
+        await raffleManager.REWARDING_OPERATOR_ROLE(),
+        await raffleManager.TREASURER_ROLE(),
+        await raffleManager.VRF_ADMIN_ROLE(),
+        await raffleManager.PAUSER_ROLE(),
+      ]) {
+        expect(await raffleManager.hasRole(role, owner.address)).to.be.true;
+      }
+    });
+
+    it("Should revert if an account without the role calls a restricted function", async function () {
       const { raffleManager, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const account = otherAccounts[0];
+      const raffleManagerAsAccount = raffleManager.connect(account);
+
+      await expect(raffleManagerAsAccount.createNewRaffle(ZeroAddress, 0, 0, 0, 0, 0, 0))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.RAFFLE_CREATOR_ROLE());
+      await expect(raffleManagerAsAccount.cancelRaffle(0))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.RAFFLE_CREATOR_ROLE());
+      await expect(raffleManagerAsAccount.startRewarding(0, [erc721Prize(ZeroAddress, 0n)], false, makeParticipantsProof([]), rewardingConfig))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.REWARDING_OPERATOR_ROLE());
+      await expect(raffleManagerAsAccount.recoverPrizes(0, account.address))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.REWARDING_OPERATOR_ROLE());
+      await expect(raffleManagerAsAccount.withdrawExcessTokens(0, ZeroAddress, 0))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.TREASURER_ROLE());
+      await expect(raffleManagerAsAccount.setReferralFee(0))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.TREASURER_ROLE());
+      await expect(raffleManagerAsAccount.setRevenueReceiver(account.address))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.TREASURER_ROLE());
+      await expect(raffleManagerAsAccount.setWrapper(ZeroAddress))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.VRF_ADMIN_ROLE());
+      await expect(raffleManagerAsAccount.grantRole(await raffleManager.TREASURER_ROLE(), account.address))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(account.address, await raffleManager.DEFAULT_ADMIN_ROLE());
+    });
+
+    it("Should let each role holder run its operations only", async function () {
+      const { raffleManager, purchaseToken, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const [creator, treasurer, vrfAdmin] = otherAccounts.slice(10);
+      await raffleManager.grantRole(await raffleManager.RAFFLE_CREATOR_ROLE(), creator.address);
+      await raffleManager.grantRole(await raffleManager.TREASURER_ROLE(), treasurer.address);
+      await raffleManager.grantRole(await raffleManager.VRF_ADMIN_ROLE(), vrfAdmin.address);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await expect(
+        raffleManager.connect(creator).createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap)
+      ).to.emit(raffleManager, "RaffleCreated");
+      await expect(
+        raffleManager
+          .connect(treasurer)
+          .createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap)
+      )
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(treasurer.address, await raffleManager.RAFFLE_CREATOR_ROLE());
 
-      await expect(raffleManager.connect(otherAccounts[0]).createNewRaffle(ZeroAddress, 0, 0, 0, 0, 0, 0)).to.be.revertedWithCustomError(raffleManager, errors.callerNotOwner);
-      await expect(raffleManager.connect(otherAccounts[0]).startRewarding(0, { contractAddress: ZeroAddress, tokenId: 0 }, makeParticipantsProof([]))).to.be.revertedWithCustomError(raffleManager, errors.callerNotOwner);
-      await expect(raffleManager.connect(otherAccounts[0]).withdrawExcessTokens(0, ZeroAddress, 0)).to.be.revertedWithCustomError(raffleManager, errors.callerNotOwner);
-      await expect(raffleManager.connect(otherAccounts[0]).setWrapper(ZeroAddress)).to.be.revertedWithCustomError(raffleManager, errors.callerNotOwner);
+      await expect(raffleManager.connect(treasurer).setReferralFee(500)).to.emit(raffleManager, "ReferralFeeSet").withArgs(500);
+      await expect(raffleManager.connect(creator).setReferralFee(500)).to.be.revertedWithCustomError(raffleManager, errors.missingRole);
+
+      await expect(raffleManager.connect(vrfAdmin).setWrapper(ZeroAddress)).to.emit(raffleManager, "WrapperSet").withArgs(ZeroAddress);
+      await expect(raffleManager.connect(treasurer).setWrapper(ZeroAddress)).to.be.revertedWithCustomError(raffleManager, errors.missingRole);
+
+      await expect(raffleManager.connect(creator).cancelRaffle(0)).to.emit(raffleManager, "RaffleCanceled").withArgs(0);
+    });
+
+    it("Should let the owner grant every role once to migrate a proxy deployed before roles", async function () {
+      const { raffleManager, owner, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const adminRole = await raffleManager.DEFAULT_ADMIN_ROLE();
+      const creatorRole = await raffleManager.RAFFLE_CREATOR_ROLE();
+
+      // Without any role, the owner is left as it was before the migration
+      await raffleManager.renounceRole(creatorRole, owner.address);
+      await raffleManager.renounceRole(adminRole, owner.address);
+
+      await expect(raffleManager.connect(otherAccounts[0]).initializeRoles()).to.be.revertedWithCustomError(raffleManager, errors.callerNotOwner);
+      await expect(raffleManager.initializeRoles()).to.emit(raffleManager, "RoleGranted").withArgs(creatorRole, owner.address, owner.address);
+      expect(await raffleManager.hasRole(adminRole, owner.address)).to.be.true;
+      expect(await raffleManager.hasRole(creatorRole, owner.address)).to.be.true;
+
+      await expect(raffleManager.initializeRoles()).to.be.revertedWithCustomError(raffleManager, errors.invalidInitialization);
     });
   });
 
@@ -360,6 +1012,578 @@ describe("RaffleManager", function () {
     });
   });
 
+  describe("Rewarding config", function () {
+    async function deployRaffleManagerWithSuccessfulRaffleFixture() {
+      const fixture = await deployRaffleManagerFixture();
+      const { raffleManager, purchaseToken, otherAccounts } = fixture;
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      return { ...fixture, raffleTicketPurchase };
+    }
+
+    it("Should store the rewarding config of a raffle and give its winners the claim period", async function () {
+      const { raffleManager, prize, linkToken, vrfCoordinator, vrfV2Wrapper, nftPrize } = await loadFixture(deployRaffleManagerWithSuccessfulRaffleFixture);
+      const config = { callbackGasLimit: 300_000n, requestConfirmations: 10n, prizeClaimPeriod: BigInt(30 * ONE_DAY) };
+
+      await expect(raffleManager.startRewardingWithTicketLedger(0, [prize], false, config))
+        .to.emit(raffleManager, "RewardingStarted")
+        .withArgs(0, Object.values(config));
+      expect((await raffleManager.raffles(0)).rewardingConfig).to.deep.equal(Object.values(config));
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      expect(await raffleRewarder.rewardingConfig()).to.deep.equal(Object.values(config));
+      expect(await raffleRewarder.getCallbackGasLimit()).to.equal(config.callbackGasLimit);
+
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+      await expect(raffleManager.askForRandomness(0))
+        .to.emit(vrfCoordinator, "RandomWordsRequested")
+        .withArgs(keyHash, anyValue, anyValue, anyValue, config.requestConfirmations, anyValue, 1n, anyValue, await vrfV2Wrapper.getAddress());
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+      await raffleManager.determineWinnerFromLedger(0);
+      const [winner] = await raffleManager.getRaffleWinners(0);
+
+      // Past the default claim period
+      await time.increase(prizeClaimPeriod + ONE_DAY);
+      await raffleRewarder.connect(await hre.ethers.getSigner(winner)).claimPrize(0);
+      expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(winner);
+    });
+
+    it("Should not start rewarding with a rewarding config out of bounds", async function () {
+      const { raffleManager, raffleRewarderImplementation, prize } = await loadFixture(deployRaffleManagerWithSuccessfulRaffleFixture);
+
+      await expect(
+        raffleManager.startRewardingWithTicketLedger(0, [prize], false, { ...rewardingConfig, prizeClaimPeriod: BigInt(365 * ONE_DAY) })
+      ).to.be.revertedWithCustomError(raffleRewarderImplementation, errors.invalidRewardingConfig);
+      await expect(
+        raffleManager.startRewardingWithTicketLedger(0, [prize], false, { ...rewardingConfig, requestConfirmations: 0n })
+      ).to.be.revertedWithCustomError(raffleRewarderImplementation, errors.invalidRewardingConfig);
+    });
+  });
+
+  describe("Randomness payment", function () {
+    async function deployRaffleManagerWithSuccessfulRaffleFixture() {
+      const fixture = await deployRaffleManagerFixture();
+      const { raffleManager, purchaseToken, otherAccounts } = fixture;
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      return { ...fixture, raffleTicketPurchase };
+    }
+
+    it("Should let the VRF admin set a VRF subscription owned by the manager", async function () {
+      const { raffleManager, vrfCoordinator, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const coordinator = await vrfCoordinator.getAddress();
+
+      await expect(raffleManager.connect(otherAccounts[0]).setVRFSubscription(coordinator, keyHash, false))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(otherAccounts[0].address, await raffleManager.VRF_ADMIN_ROLE());
+
+      await expect(raffleManager.setVRFSubscription(coordinator, keyHash, false)).to.emit(raffleManager, "VRFSubscriptionSet");
+      const { subscriptionId } = await raffleManager.vrfSubscription();
+      expect((await vrfCoordinator.getSubscription(subscriptionId)).subOwner).to.equal(await raffleManager.getAddress());
+
+      // The subscription is kept on the same coordinator
+      await expect(raffleManager.setVRFSubscription(coordinator, ZeroHash, true))
+        .to.emit(raffleManager, "VRFSubscriptionSet")
+        .withArgs(coordinator, subscriptionId, ZeroHash, true);
+      expect(await raffleManager.vrfSubscription()).to.deep.equal([coordinator, subscriptionId, ZeroHash, true]);
+
+      await expect(raffleManager.connect(otherAccounts[0]).cancelVRFSubscription(otherAccounts[0].address))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(otherAccounts[0].address, await raffleManager.TREASURER_ROLE());
+      await expect(raffleManager.cancelVRFSubscription(otherAccounts[0].address))
+        .to.emit(raffleManager, "VRFSubscriptionCanceled")
+        .withArgs(subscriptionId, otherAccounts[0].address);
+      expect((await raffleManager.vrfSubscription()).coordinator).to.equal(ZeroAddress);
+      await expect(raffleManager.cancelVRFSubscription(otherAccounts[0].address)).to.be.revertedWithCustomError(raffleManager, errors.vrfSubscriptionNotSet);
+    });
+
+    it("Should charge the randomness of a raffle to the VRF subscription", async function () {
+      const { raffleManager, vrfCoordinator, prize, owner, otherAccounts, nftPrize } = await loadFixture(deployRaffleManagerWithSuccessfulRaffleFixture);
+      const participants = exampleParticipants(owner.address);
+
+      await expect(raffleManager.setRafflePaymentMode(0, PaymentMode.Subscription)).to.be.revertedWithCustomError(
+        raffleManager,
+        errors.vrfSubscriptionNotSet
+      );
+      await raffleManager.setVRFSubscription(await vrfCoordinator.getAddress(), keyHash, false);
+      const { subscriptionId } = await raffleManager.vrfSubscription();
+      await vrfCoordinator.fundSubscription(subscriptionId, parseEther("100"));
+
+      await expect(raffleManager.connect(otherAccounts[0]).setRafflePaymentMode(0, PaymentMode.Subscription))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(otherAccounts[0].address, await raffleManager.VRF_ADMIN_ROLE());
+      await expect(raffleManager.setRafflePaymentMode(0, PaymentMode.Subscription))
+        .to.emit(raffleManager, "RafflePaymentModeSet")
+        .withArgs(0, PaymentMode.Subscription);
+      expect((await raffleManager.raffles(0)).paymentMode).to.equal(PaymentMode.Subscription);
+
+      // The rewarder becomes a consumer of the subscription when rewarding starts
+      await raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(participants), rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      expect((await raffleRewarder.randomness()).paymentMode).to.equal(PaymentMode.Subscription);
+      expect(await vrfCoordinator.consumerIsAdded(subscriptionId, await raffleRewarder.getAddress())).to.be.true;
+
+      // The caller holds no LINK
+      await raffleManager.connect(otherAccounts[0]).askForRandomness(0);
+      const request = await raffleRewarder.request();
+      expect(request.paid).to.equal(0n);
+      expect(await vrfCoordinator.requestSubscriptionId(request.requestId)).to.equal(subscriptionId);
+      await vrfCoordinator.fulfillRandomWords(request.requestId, await raffleRewarder.getAddress());
+
+      await raffleManager.determineWinner(0, participants);
+      await raffleRewarder.claimPrize(0);
+      expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(owner.address);
+
+      await raffleManager.removeVRFConsumer(0);
+      expect(await vrfCoordinator.consumerIsAdded(subscriptionId, await raffleRewarder.getAddress())).to.be.false;
+    });
+
+    it("Should let the caller pay the randomness of a raffle in native currency", async function () {
+      const { raffleManager, vrfCoordinator, vrfV2Wrapper, prize, owner, otherAccounts } = await loadFixture(deployRaffleManagerWithSuccessfulRaffleFixture);
+      await vrfCoordinator.fundSubscriptionWithNative(await vrfV2Wrapper.SUBSCRIPTION_ID(), { value: parseEther("10") });
+      await raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+
+      // Applied to the rewarder of a raffle already rewarding
+      await raffleManager.setRafflePaymentMode(0, PaymentMode.NativeWrapper);
+      expect((await raffleRewarder.randomness()).paymentMode).to.equal(PaymentMode.NativeWrapper);
+
+      const tx = raffleManager.connect(otherAccounts[0]).askForRandomness(0, { value: parseEther("1") });
+      await expect(tx).to.emit(raffleRewarder, "RandomnessRequested");
+      const request = await raffleRewarder.request();
+      await expect(tx).to.changeEtherBalances([raffleManager, raffleRewarder, vrfV2Wrapper], [0n, 0n, request.paid]);
+      expect(await vrfCoordinator.isNativePaymentRequest(request.requestId)).to.be.true;
+
+      await vrfCoordinator.fulfillRandomWords(request.requestId, await vrfV2Wrapper.getAddress());
+      expect((await raffleRewarder.request()).fulfilled).to.be.true;
+    });
+  });
+
+  describe("Automation", function () {
+    const performData = (id: number) => AbiCoder.defaultAbiCoder().encode(["uint256"], [id]);
+
+    async function deployRaffleManagerWithSubscriptionRaffleFixture() {
+      const fixture = await deployRaffleManagerFixture();
+      const { raffleManager, vrfCoordinator, purchaseToken, otherAccounts } = fixture;
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      await raffleManager.setVRFSubscription(await vrfCoordinator.getAddress(), keyHash, false);
+      await vrfCoordinator.fundSubscription((await raffleManager.vrfSubscription()).subscriptionId, parseEther("100"));
+      await raffleManager.setRafflePaymentMode(0, PaymentMode.Subscription);
+
+      return { ...fixture, raffleTicketPurchase };
+    }
+
+    it("Should request the randomness and determine the winners of a ledger raffle charged to the VRF subscription", async function () {
+      const { raffleManager, vrfCoordinator, prize, otherAccounts } = await loadFixture(deployRaffleManagerWithSubscriptionRaffleFixture);
+
+      expect(await raffleManager.checkUpkeep("0x")).to.deep.equal([false, "0x"]);
+      await expect(raffleManager.performUpkeep(performData(0))).to.be.revertedWithCustomError(raffleManager, errors.upkeepNotNeeded);
+
+      await raffleManager.startRewardingWithTicketLedger(0, [prize], false, rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      expect(await raffleManager.checkUpkeep("0x")).to.deep.equal([true, performData(0)]);
+
+      // Anyone can perform an upkeep, the caller holds no LINK
+      const askTx = raffleManager.connect(otherAccounts[0]).performUpkeep(performData(0));
+      await expect(askTx).to.emit(raffleManager, "UpkeepPerformed").withArgs(0, UpkeepAction.AskForRandomness);
+      await expect(askTx).to.emit(raffleRewarder, "RandomnessRequested");
+      expect((await raffleManager.checkUpkeep("0x")).upkeepNeeded).to.be.false;
+      await expect(raffleManager.performUpkeep(performData(0))).to.be.revertedWithCustomError(raffleManager, errors.upkeepNotNeeded);
+
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await raffleRewarder.getAddress());
+      expect(await raffleManager.checkUpkeep("0x")).to.deep.equal([true, performData(0)]);
+      const determineTx = raffleManager.performUpkeep(performData(0));
+      await expect(determineTx).to.emit(raffleManager, "UpkeepPerformed").withArgs(0, UpkeepAction.DetermineWinners);
+      await expect(determineTx).to.emit(raffleManager, "WinnerDetermined");
+      expect((await raffleManager.getRaffleWinners(0))[0]).not.to.equal(ZeroAddress);
+      expect((await raffleManager.checkUpkeep("0x")).upkeepNeeded).to.be.false;
+
+      // The unclaimed prize is drawn again once the claim period has elapsed
+      await time.increase(prizeClaimPeriod + 1);
+      expect(await raffleRewarder.getUpkeepAction()).to.equal(UpkeepAction.AskForRandomness);
+      await expect(raffleManager.performUpkeep(performData(0)))
+        .to.emit(raffleManager, "UpkeepPerformed")
+        .withArgs(0, UpkeepAction.AskForRandomness);
+      expect((await raffleRewarder.draw()).drawCount).to.equal(2n);
+    });
+
+    it("Should leave to the operators the steps needing off-chain input or payment", async function () {
+      const { raffleManager, vrfCoordinator, prize, owner } = await loadFixture(deployRaffleManagerWithSubscriptionRaffleFixture);
+      const participants = exampleParticipants(owner.address);
+
+      await raffleManager.setRafflePaymentMode(0, PaymentMode.LinkWrapper);
+      await raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(participants), rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      expect(await raffleRewarder.getUpkeepAction()).to.equal(UpkeepAction.None);
+
+      await raffleManager.setRafflePaymentMode(0, PaymentMode.Subscription);
+      expect(await raffleRewarder.getUpkeepAction()).to.equal(UpkeepAction.AskForRandomness);
+      await raffleManager.setRafflePaused(0, true);
+      expect((await raffleManager.checkUpkeep("0x")).upkeepNeeded).to.be.false;
+      await raffleManager.setRafflePaused(0, false);
+      await raffleManager.performUpkeep(performData(0));
+
+      // The winners of a raffle committed to off-chain participants are determined by the operator
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await raffleRewarder.getAddress());
+      expect(await raffleRewarder.getUpkeepAction()).to.equal(UpkeepAction.None);
+      await raffleManager.determineWinner(0, participants);
+      await raffleRewarder.claimPrize(0);
+
+      // Every prize is claimed, no new draw is needed
+      await time.increase(prizeClaimPeriod + 1);
+      expect(await raffleRewarder.canAskForRandomness()).to.be.false;
+      expect((await raffleManager.checkUpkeep("0x")).upkeepNeeded).to.be.false;
+    });
+
+    it("Should request randomness again once the pending request has timed out", async function () {
+      const { raffleManager, prize } = await loadFixture(deployRaffleManagerWithSubscriptionRaffleFixture);
+      await raffleManager.startRewardingWithTicketLedger(0, [prize], false, rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+
+      await raffleManager.performUpkeep(performData(0));
+      const abandonedRequest = await raffleRewarder.request();
+      expect((await raffleManager.checkUpkeep("0x")).upkeepNeeded).to.be.false;
+
+      await time.increase((await raffleRewarder.REQUEST_TIMEOUT()) + 1n);
+      expect(await raffleManager.checkUpkeep("0x")).to.deep.equal([true, performData(0)]);
+      await expect(raffleManager.performUpkeep(performData(0)))
+        .to.emit(raffleRewarder, "RandomnessRequestAbandoned")
+        .withArgs(0, abandonedRequest.requestId);
+      expect((await raffleRewarder.draw()).drawCount).to.equal(1n);
+    });
+
+    it("Should not let a third party drain the VRF subscription by asking for randomness", async function () {
+      const { raffleManager, vrfCoordinator, prize, otherAccounts } = await loadFixture(deployRaffleManagerWithSubscriptionRaffleFixture);
+      await raffleManager.startRewardingWithTicketLedger(0, [prize], false, rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      const thirdParty = raffleManager.connect(otherAccounts[0]);
+
+      const maxUnclaimedDraws = await raffleRewarder.MAX_UNCLAIMED_DRAWS();
+      for (let draw = 0n; draw < maxUnclaimedDraws; draw++) {
+        // Only the requests the upkeep would send are charged to the subscription
+        await thirdParty.askForRandomness(0);
+        await expect(thirdParty.askForRandomness(0)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotAskNewRandomness);
+        await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await raffleRewarder.getAddress());
+        await expect(thirdParty.askForRandomness(0)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotAskNewRandomness);
+        await raffleManager.determineWinnerFromLedger(0);
+        await time.increase(prizeClaimPeriod + 1);
+      }
+
+      // The prize is left unclaimed after the last draw
+      expect((await raffleRewarder.draw()).drawCount).to.equal(maxUnclaimedDraws);
+      expect(await raffleRewarder.canAskForRandomness()).to.be.false;
+      await expect(thirdParty.askForRandomness(0)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotAskNewRandomness);
+    });
+
+    it("Should let the keeper script perform the due upkeeps of the raffles in range", async function () {
+      const { raffleManager, vrfCoordinator, prize } = await loadFixture(deployRaffleManagerWithSubscriptionRaffleFixture);
+
+      expect(await findRafflesAwaitingRewarding(raffleManager)).to.deep.equal([0n]);
+      await raffleManager.startRewardingWithTicketLedger(0, [prize], false, rewardingConfig);
+      expect(await findRafflesAwaitingRewarding(raffleManager)).to.deep.equal([]);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+
+      expect((await raffleManager.checkUpkeep(encodeUpkeepRange(1, 5))).upkeepNeeded).to.be.false;
+      expect(await performDueUpkeeps(raffleManager, { checkData: encodeUpkeepRange(1, 5) })).to.deep.equal([]);
+
+      const [askUpkeep] = await performDueUpkeeps(raffleManager, { checkData: encodeUpkeepRange(0, 1) });
+      expect(askUpkeep).to.include({ raffleId: 0n, action: UpkeepAction.AskForRandomness });
+      expect(await performDueUpkeeps(raffleManager)).to.deep.equal([]);
+
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await raffleRewarder.getAddress());
+      const performed = await performDueUpkeeps(raffleManager);
+      expect(performed.map(({ raffleId, action }) => ({ raffleId, action }))).to.deep.equal([{ raffleId: 0n, action: UpkeepAction.DetermineWinners }]);
+      expect((await raffleManager.getRaffleWinners(0))[0]).not.to.equal(ZeroAddress);
+    });
+  });
+
+  describe("Status", function () {
+    it("Should walk a raffle through the phases of its sale and rewarding", async function () {
+      const { raffleManager, purchaseToken, linkToken, vrfCoordinator, vrfV2Wrapper, prize, nftPrize, otherAccounts } = await loadFixture(
+        deployRaffleManagerFixture
+      );
+      const status = async () => Number(await raffleManager.getRaffleStatus(0));
+
+      const start = (await time.latest()) + ONE_DAY;
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, start, start + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      expect(await status()).to.equal(RaffleStatus.Scheduled);
+      await expect(raffleManager.getRaffleStatus(1)).to.be.revertedWithCustomError(raffleManager, errors.invalidId);
+
+      await time.increaseTo(start);
+      expect(await status()).to.equal(RaffleStatus.Open);
+      // Above the minimum cap but not sold out
+      await buyAllTickets(2 * personalMaxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      expect(await status()).to.equal(RaffleStatus.Open);
+      await time.increaseTo(start + openSalePeriod);
+      expect(await status()).to.equal(RaffleStatus.Succeeded);
+
+      await raffleManager.startRewardingWithTicketLedger(0, [prize], false, rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      expect(await status()).to.equal(RaffleStatus.Rewarding);
+
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+      await raffleManager.askForRandomness(0);
+      expect(await status()).to.equal(RaffleStatus.AwaitingRandomness);
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+      expect(await status()).to.equal(RaffleStatus.AwaitingWinner);
+      await raffleManager.determineWinnerFromLedger(0);
+      expect(await status()).to.equal(RaffleStatus.Claimable);
+
+      await time.increase(prizeClaimPeriod + 1);
+      expect(await status()).to.equal(RaffleStatus.Expired);
+
+      // The unclaimed prize is drawn again
+      await raffleManager.askForRandomness(0);
+      expect(await status()).to.equal(RaffleStatus.AwaitingRandomness);
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+      expect(await status()).to.equal(RaffleStatus.AwaitingWinner);
+      await raffleManager.determineWinnerFromLedger(0);
+      expect(await status()).to.equal(RaffleStatus.Claimable);
+
+      const [winnerAddress] = await raffleRewarder.getWinners();
+      const winner = otherAccounts.find((account) => account.address === winnerAddress)!;
+      await raffleRewarder.connect(winner).claimPrize(0);
+      expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(winner.address);
+      expect(await status()).to.equal(RaffleStatus.Claimed);
+    });
+
+    it("Should report sold out, failed and canceled raffles", async function () {
+      const { raffleManager, purchaseToken, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+
+      const now = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(now);
+      for (let i = 0; i < 3; i++) {
+        await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now + i, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      }
+      const soldOutRaffle = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, soldOutRaffle, otherAccounts);
+      await raffleManager.cancelRaffle(2);
+
+      expect(await raffleManager.getRaffleStatus(0)).to.equal(RaffleStatus.SoldOut);
+      expect(await raffleManager.getRaffleStatus(1)).to.equal(RaffleStatus.Open);
+      expect(await raffleManager.getRaffleStatus(2)).to.equal(RaffleStatus.Canceled);
+
+      await time.increaseTo(now + openSalePeriod);
+      expect(await raffleManager.getRaffleStatus(0)).to.equal(RaffleStatus.SoldOut);
+      expect(await raffleManager.getRaffleStatus(1)).to.equal(RaffleStatus.Failed);
+    });
+
+    it("Should list pages of raffles with their details and status through the lens", async function () {
+      const { raffleManager, purchaseToken, prize, owner, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const raffleLens = await hre.ethers.deployContract("RaffleLens", [await raffleManager.getAddress()]);
+      expect(await raffleLens.getRaffles(0, 10)).to.deep.equal([]);
+
+      const now = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(now);
+      for (let i = 0; i < 3; i++) {
+        await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now + i, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      }
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(1)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      await raffleManager.startRewarding(1, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig);
+
+      const page = await raffleLens.getRaffles(0, 2);
+      expect(page.map(({ id }) => id)).to.deep.equal([0n, 1n]);
+      expect(page.map(({ status }) => Number(status))).to.deep.equal([RaffleStatus.Open, RaffleStatus.Rewarding]);
+      expect(page[1].raffle.raffleTicketPurchase).to.equal(await raffleTicketPurchase.getAddress());
+      expect(page[1].raffle.prizes).to.deep.equal([Object.values(prize)]);
+      expect(page[1].raffle.rewardingConfig).to.deep.equal(Object.values(rewardingConfig).map(BigInt));
+      expect(page[1].raffle).to.deep.equal(await raffleLens.getRaffle(1));
+
+      const lastPage = await raffleLens.getRaffles(2, 10);
+      expect(lastPage.map(({ id }) => id)).to.deep.equal([2n]);
+      expect(await raffleLens.getRaffles(3, 10)).to.deep.equal([]);
+    });
+  });
+
+  describe("Clones", function () {
+    // Runtime code of an ERC-1167 minimal proxy delegating to the implementation
+    const cloneCode = (implementation: string) => concat(["0x363d3d373d3d3d363d73", implementation, "0x5af43d82803e903d91602b57fd5bf3"]);
+
+    async function deployRaffleManagerWithRewardingFixture() {
+      const fixture = await deployRaffleManagerFixture();
+      const { raffleManager, purchaseToken, prize, owner, otherAccounts } = fixture;
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      const createReceipt = await (
+        await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap)
+      ).wait();
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      const rewardingReceipt = await (
+        await raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)
+      ).wait();
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+
+      return { ...fixture, raffleTicketPurchase, raffleRewarder, createGas: createReceipt!.gasUsed, rewardingGas: rewardingReceipt!.gasUsed };
+    }
+
+    it("Should deploy the raffle contracts as clones of the implementations", async function () {
+      const { raffleManager, raffleTicketPurchase, raffleRewarder, raffleTicketPurchaseImplementation, raffleRewarderImplementation, purchaseToken } =
+        await loadFixture(deployRaffleManagerWithRewardingFixture);
+
+      expect(await hre.ethers.provider.getCode(await raffleTicketPurchase.getAddress())).to.equal(
+        cloneCode(await raffleTicketPurchaseImplementation.getAddress()).toLowerCase()
+      );
+      expect(await hre.ethers.provider.getCode(await raffleRewarder.getAddress())).to.equal(
+        cloneCode(await raffleRewarderImplementation.getAddress()).toLowerCase()
+      );
+
+      expect(await raffleTicketPurchase.owner()).to.equal(await raffleManager.getAddress());
+      expect(await raffleTicketPurchase.purchaseToken()).to.equal(await purchaseToken.getAddress());
+      expect(await raffleRewarder.owner()).to.equal(await raffleManager.getAddress());
+      expect(await raffleRewarder.raffleTicketPurchase()).to.equal(await raffleTicketPurchase.getAddress());
+    });
+
+    it("Should not let the implementations or the clones be initialized again", async function () {
+      const { raffleTicketPurchase, raffleRewarder, raffleTicketPurchaseImplementation, raffleRewarderImplementation, purchaseToken, prize } =
+        await loadFixture(deployRaffleManagerWithRewardingFixture);
+      const now = await time.latest();
+
+      for (const contract of [raffleTicketPurchaseImplementation, raffleTicketPurchase]) {
+        await expect(
+          contract.initialize(
+            0,
+            await purchaseToken.getAddress(),
+            ticketPrice,
+            now + 10,
+            now + openSalePeriod,
+            minCap,
+            maxCap,
+            personalMaxCap,
+            "0x31",
+            ZeroAddress,
+            0,
+            [],
+            ZeroAddress,
+            OPEN_SALE,
+            FLAT_PRICING,
+            0
+          )
+        ).to.be.revertedWithCustomError(contract, errors.invalidInitialization);
+      }
+      for (const contract of [raffleRewarderImplementation, raffleRewarder]) {
+        await expect(
+          contract.initialize(0, [prize], false, ZeroHash, ProofType.TicketLedger, ZeroAddress, ZeroAddress, "0x31", ZeroAddress, rewardingConfig)
+        ).to.be.revertedWithCustomError(contract, errors.invalidInitialization);
+      }
+    });
+
+    // Run with REPORT_GAS=true to compare the gas of the manager methods with the deployment gas of the full contracts
+    it("Should cost less gas than deploying the full raffle contracts", async function () {
+      const { raffleTicketPurchaseImplementation, raffleRewarderImplementation, createGas, rewardingGas } = await loadFixture(
+        deployRaffleManagerWithRewardingFixture
+      );
+      const purchaseDeploymentGas = (await raffleTicketPurchaseImplementation.deploymentTransaction()!.wait())!.gasUsed;
+      const rewarderDeploymentGas = (await raffleRewarderImplementation.deploymentTransaction()!.wait())!.gasUsed;
+
+      // Deploying the full contracts cost their whole deployment gas on top of the bookkeeping, the clones cost under half of it in total
+      expect(createGas).to.be.lessThan(purchaseDeploymentGas / 2n);
+      expect(rewardingGas).to.be.lessThan(rewarderDeploymentGas / 2n);
+    });
+  });
+
+  describe("Versions", function () {
+    async function deployVersion() {
+      const raffleTicketPurchaseImplementation = await hre.ethers.deployContract("RaffleTicketPurchase");
+      const raffleRewarderImplementation = await hre.ethers.deployContract("RaffleRewarder");
+      return [await raffleTicketPurchaseImplementation.getAddress(), await raffleRewarderImplementation.getAddress()] as const;
+    }
+
+    it("Should register and activate the first version on initialization", async function () {
+      const { raffleManager, raffleTicketPurchaseImplementation, raffleRewarderImplementation } = await loadFixture(deployRaffleManagerFixture);
+
+      expect(await raffleManager.version()).to.equal("0x31");
+      expect(await raffleManager.getVersions()).to.deep.equal(["0x31"]);
+      expect(await raffleManager.implementations("0x31")).to.deep.equal([
+        await raffleTicketPurchaseImplementation.getAddress(),
+        await raffleRewarderImplementation.getAddress(),
+      ]);
+    });
+
+    it("Should let the admin register and activate a version", async function () {
+      const { raffleManager, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const implementations = await deployVersion();
+      const adminRole = await raffleManager.DEFAULT_ADMIN_ROLE();
+
+      await expect(raffleManager.connect(otherAccounts[0]).registerVersion("0x32", ...implementations))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(otherAccounts[0].address, adminRole);
+      await expect(raffleManager.registerVersion("0x31", ...implementations)).to.be.revertedWithCustomError(raffleManager, errors.versionAlreadyRegistered);
+      await expect(raffleManager.registerVersion("0x32", otherAccounts[0].address, implementations[1])).to.be.revertedWithCustomError(
+        raffleManager,
+        errors.invalidImplementation
+      );
+      await expect(raffleManager.registerVersion("0x32", implementations[0], ZeroAddress)).to.be.revertedWithCustomError(
+        raffleManager,
+        errors.invalidImplementation
+      );
+      await expect(raffleManager.setActiveVersion("0x32")).to.be.revertedWithCustomError(raffleManager, errors.versionNotRegistered);
+
+      await expect(raffleManager.registerVersion("0x32", ...implementations))
+        .to.emit(raffleManager, "VersionRegistered")
+        .withArgs("0x32", ...implementations);
+      expect(await raffleManager.getVersions()).to.deep.equal(["0x31", "0x32"]);
+      expect(await raffleManager.version()).to.equal("0x31");
+
+      await expect(raffleManager.connect(otherAccounts[0]).setActiveVersion("0x32"))
+        .to.be.revertedWithCustomError(raffleManager, errors.missingRole)
+        .withArgs(otherAccounts[0].address, adminRole);
+      await expect(raffleManager.setActiveVersion("0x32")).to.emit(raffleManager, "ActiveVersionSet").withArgs("0x32");
+      expect(await raffleManager.version()).to.equal("0x32");
+    });
+
+    it("Should clone the implementations of the version each raffle was created with", async function () {
+      const { raffleManager, raffleTicketPurchaseImplementation, raffleRewarderImplementation, purchaseToken, prize, owner, otherAccounts } = await loadFixture(
+        deployRaffleManagerFixture
+      );
+      const implementations = await deployVersion();
+      const cloneCode = (implementation: string) => concat(["0x363d3d373d3d3d363d73", implementation, "0x5af43d82803e903d91602b57fd5bf3"]).toLowerCase();
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      await raffleManager.registerVersion("0x32", ...implementations);
+      await raffleManager.setActiveVersion("0x32");
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now + 10, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+
+      expect((await raffleManager.raffles(0)).version).to.equal("0x31");
+      expect((await raffleManager.raffles(1)).version).to.equal("0x32");
+      expect(await raffleManager.getRafflesByVersion("0x31")).to.deep.equal([0n]);
+      expect(await raffleManager.getRafflesByVersion("0x32")).to.deep.equal([1n]);
+      expect(await raffleManager.getRafflesByVersion("0x33")).to.deep.equal([]);
+      expect(await hre.ethers.provider.getCode((await raffleManager.raffles(0)).raffleTicketPurchase)).to.equal(
+        cloneCode(await raffleTicketPurchaseImplementation.getAddress())
+      );
+      expect(await hre.ethers.provider.getCode((await raffleManager.raffles(1)).raffleTicketPurchase)).to.equal(cloneCode(implementations[0]));
+
+      // The raffle created before the switch keeps the rewarder of its version
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      await raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      expect(await hre.ethers.provider.getCode(await raffleRewarder.getAddress())).to.equal(cloneCode(await raffleRewarderImplementation.getAddress()));
+      expect(await raffleRewarder.version()).to.equal("0x31");
+    });
+  });
+
   describe("Simulate a full raffle behavior", function () {
     it("Should handle all the raffle until the winner claims the prize", async function () {
       const { raffleManager, purchaseToken, owner, prize, otherAccounts, linkToken, vrfCoordinator, vrfV2Wrapper, nftPrize } = await loadFixture(
@@ -368,6 +1592,7 @@ describe("RaffleManager", function () {
       const tokenAddress = await purchaseToken.getAddress();
 
       const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
       await raffleManager.createNewRaffle(tokenAddress, ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
 
       let raffle = await raffleManager.raffles(0);
@@ -375,11 +1600,11 @@ describe("RaffleManager", function () {
 
       await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
 
-      await expect(raffleManager.startRewarding(0, prize, makeParticipantsProof(exampleParticipants(owner.address)))).to.emit(
+      await expect(raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)).to.emit(
         raffleManager,
         "RewardingStarted"
       );
-      await expect(raffleManager.startRewarding(0, prize, makeParticipantsProof(exampleParticipants(owner.address)))).to.be.revertedWithCustomError(
+      await expect(raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)).to.be.revertedWithCustomError(
         raffleManager,
         errors.rewardingAlreadyStarted
       );
@@ -408,14 +1633,257 @@ describe("RaffleManager", function () {
       await raffleManager.determineWinner(0, exampleParticipants(owner.address));
       const blockTimestamp = (await tx.getBlock())?.timestamp;
 
-      expect(await raffleRewarder.winner()).to.equal(owner.address);
-      expect(await raffleRewarder.startClaimTime()).to.equal(blockTimestamp);
-
-      await nftPrize.approve(await raffleRewarder.getAddress(), 1);
+      expect(await raffleRewarder.getWinners()).to.deep.equal([owner.address]);
+      expect((await raffleRewarder.draw()).startClaimTime).to.equal(blockTimestamp);
 
-      await expect(raffleRewarder.claimPrize()).to.emit(nftPrize, "Transfer").withArgs(owner.address, owner.address, 1n);
+      await expect(raffleRewarder.claimPrize(0))
+        .to.emit(nftPrize, "Transfer")
+        .withArgs(await raffleRewarder.getAddress(), owner.address, 1n);
 
       expect(await nftPrize.ownerOf(1)).to.equal(owner.address);
     });
+
+    it("Should forward the native currency paid for the tickets when rewarding starts", async function () {
+      const { raffleManager, owner, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const nativeTicketPrice = 1;
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(NATIVE_CURRENCY, nativeTicketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+
+      const raffle = await raffleManager.raffles(0);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffle.raffleTicketPurchase);
+      expect(await raffleTicketPurchase.isNativeCurrency()).to.be.true;
+
+      await buyAllTicketsWithNativeCurrency(maxCap, personalMaxCap, raffleTicketPurchase, otherAccounts);
+      const funds = BigInt(maxCap) * parseEther(nativeTicketPrice.toString());
+
+      await expect(raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)).to.changeEtherBalances(
+        [owner, raffleTicketPurchase],
+        [funds, -funds]
+      );
+    });
+
+    it("Should handle a raffle rewarded with a Merkle root until the winner claims the prize", async function () {
+      const { raffleManager, purchaseToken, owner, prize, otherAccounts, linkToken, vrfCoordinator, vrfV2Wrapper, nftPrize } = await loadFixture(
+        deployRaffleManagerFixture
+      );
+      const tokenAddress = await purchaseToken.getAddress();
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(tokenAddress, ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+
+      let raffle = await raffleManager.raffles(0);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffle.raffleTicketPurchase);
+
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      const participants = snapshotParticipants(await buildParticipantsSnapshot(raffleTicketPurchase));
+      const tree = makeParticipantsMerkleTree(participants);
+
+      await expect(raffleManager.startRewardingWithMerkleRoot(0, [prize], false, tree.root, rewardingConfig)).to.emit(raffleManager, "RewardingStarted");
+      await expect(raffleManager.startRewardingWithMerkleRoot(0, [prize], false, tree.root, rewardingConfig)).to.be.revertedWithCustomError(
+        raffleManager,
+        errors.rewardingAlreadyStarted
+      );
+
+      raffle = await raffleManager.raffles(0);
+      expect(raffle.participantsProof).to.equal(tree.root);
+      expect(raffle.proofType).to.equal(ProofType.MerkleRoot);
+
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", raffle.raffleRewarder);
+      expect(await raffleRewarder.totalTickets()).to.equal(maxCap);
+
+      await linkToken.approve(raffle.raffleRewarder, MaxUint256 - 1n);
+      await raffleManager.askForRandomness(0);
+
+      const request = await raffleRewarder.request();
+      await vrfCoordinator.fulfillRandomWords(request.requestId, await vrfV2Wrapper.getAddress());
+
+      await expect(raffleManager.determineWinner(0, participants)).to.be.revertedWithCustomError(raffleRewarder, errors.wrongProofType);
+
+      const [randomWord] = await raffleRewarder.getRandomWords();
+      const winnerIndex = findWinningParticipantIndex(participants, randomWord % BigInt(maxCap));
+      const winner = participants[winnerIndex].addr;
+
+      await expect(raffleManager.determineWinnerWithMerkleProof(0, [participants[winnerIndex]], [makeParticipantMerkleProof(tree, winnerIndex)]))
+        .to.emit(raffleManager, "WinnerDetermined")
+        .withArgs(0, [winner]);
+      expect((await raffleManager.raffles(0)).winner).to.equal(winner);
+
+      const winnerSigner = otherAccounts.find((account) => account.address === winner)!;
+      await expect(raffleRewarder.connect(winnerSigner).claimPrize(0))
+        .to.emit(nftPrize, "Transfer")
+        .withArgs(await raffleRewarder.getAddress(), winner, 1n);
+    });
+
+    it("Should handle a raffle with multiple prizes rewarded from the ticket ledger until every winner claims their prize", async function () {
+      const { raffleManager, purchaseToken, owner, prizes, otherAccounts, linkToken, vrfCoordinator, vrfV2Wrapper, nftPrize } = await loadFixture(
+        deployRaffleManagerFixture
+      );
+      const tokenAddress = await purchaseToken.getAddress();
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(tokenAddress, ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+
+      let raffle = await raffleManager.raffles(0);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffle.raffleTicketPurchase);
+
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      await expect(raffleManager.startRewardingWithTicketLedger(0, prizes, false, rewardingConfig)).to.emit(raffleManager, "RewardingStarted");
+
+      raffle = await raffleManager.raffles(0);
+      expect(raffle.proofType).to.equal(ProofType.TicketLedger);
+      expect(raffle.prize).to.deep.equal([prizes[0].contractAddress, prizes[0].tokenId]);
+      expect(await raffleManager.getRafflePrizes(0)).to.deep.equal(prizes.map((prize) => [prize.kind, prize.contractAddress, prize.tokenId, prize.amount]));
+
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", raffle.raffleRewarder);
+      expect(await raffleRewarder.raffleTicketPurchase()).to.equal(raffle.raffleTicketPurchase);
+
+      await linkToken.approve(raffle.raffleRewarder, MaxUint256 - 1n);
+      await raffleManager.askForRandomness(0);
+
+      const request = await raffleRewarder.request();
+      await vrfCoordinator.fulfillRandomWords(request.requestId, await vrfV2Wrapper.getAddress());
+
+      const randomWords = await raffleRewarder.getRandomWords();
+      expect(randomWords).to.have.length(prizes.length);
+
+      await expect(raffleManager.determineWinnerFromLedger(0)).to.emit(raffleManager, "WinnerDetermined");
+
+      const winners = await raffleManager.getRaffleWinners(0);
+      expect(winners).to.deep.equal(await raffleRewarder.getWinners());
+      expect(new Set(winners).size).to.equal(prizes.length);
+      expect((await raffleManager.raffles(0)).winner).to.equal(winners[0]);
+      // The first prize goes to the owner of the ticket drawn by its random word
+      expect(winners[0]).to.equal(await raffleTicketPurchase.ticketOwner(randomWords[0] % BigInt(maxCap)));
+
+      const winnerSigners = winners.map((winner) => otherAccounts.find((account) => account.address === winner)!);
+      for (const [i, winnerSigner] of winnerSigners.entries()) {
+        await expect(raffleRewarder.connect(winnerSigner).claimPrize((i + 1) % prizes.length)).to.be.revertedWithCustomError(
+          raffleRewarder,
+          errors.callerNotWinner
+        );
+      }
+      for (const [i, winnerSigner] of winnerSigners.entries()) {
+        await expect(raffleRewarder.connect(winnerSigner).claimPrize(i))
+          .to.emit(raffleRewarder, "PrizeClaimed")
+          .withArgs(0, winnerSigner.address, i, prizes[i].tokenId, prizes[i].amount);
+        expect(await nftPrize.ownerOf(prizes[i].tokenId)).to.equal(winnerSigner.address);
+        await expect(raffleRewarder.connect(winnerSigner).claimPrize(i)).to.be.revertedWithCustomError(raffleRewarder, errors.prizeAlreadyClaimed);
+      }
+    });
+  });
+
+  describe("recoverPrizes", function () {
+    it("Should let the owner recover the prizes of a raffle abandoned after repeated unclaimed draws", async function () {
+      const { raffleManager, purchaseToken, owner, prizes, otherAccounts, linkToken, vrfCoordinator, vrfV2Wrapper, nftPrize } = await loadFixture(
+        deployRaffleManagerFixture
+      );
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", (await raffleManager.raffles(0)).raffleTicketPurchase);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+
+      await raffleManager.startRewardingWithTicketLedger(0, prizes, false, rewardingConfig);
+      const raffleRewarder = await hre.ethers.getContractAt("RaffleRewarder", (await raffleManager.raffles(0)).raffleRewarder);
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+
+      const maxUnclaimedDraws = await raffleRewarder.MAX_UNCLAIMED_DRAWS();
+      for (let draw = 0n; draw < maxUnclaimedDraws; draw++) {
+        await expect(raffleManager.recoverPrizes(0, owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotRecoverPrizes);
+
+        await raffleManager.askForRandomness(0);
+        await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+        await raffleManager.determineWinnerFromLedger(0);
+        await time.increase(prizeClaimPeriod);
+      }
+
+      await expect(raffleManager.connect(otherAccounts[0]).recoverPrizes(0, otherAccounts[0].address)).to.be.revertedWithCustomError(
+        raffleManager,
+        errors.missingRole
+      );
+      // The winners cannot claim while the raffle is paused, neither can their prizes be recovered
+      for (const [pause, unpause] of [
+        [() => raffleManager.pause(), () => raffleManager.unpause()],
+        [() => raffleManager.setRafflePaused(0, true), () => raffleManager.setRafflePaused(0, false)],
+      ]) {
+        await pause();
+        await expect(raffleManager.recoverPrizes(0, owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+        await unpause();
+      }
+      await expect(raffleManager.recoverPrizes(0, owner.address)).to.emit(raffleRewarder, "PrizesRecovered").withArgs(0, owner.address, prizes.length);
+
+      for (const prize of prizes) {
+        expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(owner.address);
+      }
+      await expect(raffleManager.recoverPrizes(0, owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotRecoverPrizes);
+      await expect(raffleManager.askForRandomness(0)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotAskNewRandomness);
+    });
+  });
+
+  describe("Referrals", function () {
+    it("Should register referral codes on a first come first served basis", async function () {
+      const { raffleManager, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+
+      await expect(raffleManager.connect(otherAccounts[0]).registerReferralCode("refCode"))
+        .to.emit(raffleManager, "ReferralCodeRegistered")
+        .withArgs("refCode", otherAccounts[0].address);
+      expect(await raffleManager.referrerOf("refCode")).to.equal(otherAccounts[0].address);
+      expect(await raffleManager.referrerOf("otherCode")).to.equal(ZeroAddress);
+
+      await expect(raffleManager.connect(otherAccounts[1]).registerReferralCode("refCode")).to.be.revertedWithCustomError(
+        raffleManager,
+        errors.referralCodeAlreadyRegistered
+      );
+      await expect(raffleManager.connect(otherAccounts[1]).registerReferralCode("")).to.be.revertedWithCustomError(raffleManager, errors.invalidReferralCode);
+    });
+
+    it("Should only let the owner set a referral fee of at most 100%", async function () {
+      const { raffleManager, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+
+      await expect(raffleManager.connect(otherAccounts[0]).setReferralFee(500)).to.be.revertedWithCustomError(raffleManager, errors.missingRole);
+      await expect(raffleManager.setReferralFee(10_001)).to.be.revertedWithCustomError(raffleManager, errors.invalidReferralFee);
+      await expect(raffleManager.setReferralFee(500)).to.emit(raffleManager, "ReferralFeeSet").withArgs(500);
+      expect(await raffleManager.referralFeeBps()).to.equal(500);
+    });
+
+    it("Should pay the referral fee set when the raffle was created to the referrers of registered codes", async function () {
+      const { raffleManager, purchaseToken, owner, prize, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+      const referrer = otherAccounts[9];
+      await raffleManager.connect(referrer).registerReferralCode("refCode");
+      await raffleManager.setReferralFee(500);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      await time.setNextBlockTimestamp(now);
+      await raffleManager.createNewRaffle(await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap);
+      await raffleManager.setReferralFee(1000);
+
+      const raffle = await raffleManager.raffles(0);
+      expect(raffle.referralFeeBps).to.equal(500);
+      const raffleTicketPurchase = await hre.ethers.getContractAt("RaffleTicketPurchase", raffle.raffleTicketPurchase);
+      expect((await raffleTicketPurchase.referrals()).registry).to.equal(await raffleManager.getAddress());
+      expect((await raffleTicketPurchase.referrals()).feeBps).to.equal(500);
+
+      const price = await raffleTicketPurchase.ticketPrice();
+      await purchaseToken.transfer(otherAccounts[0].address, BigInt(maxCap) * price);
+      await purchaseToken.connect(otherAccounts[0]).approve(raffle.raffleTicketPurchase, MaxUint256);
+      await raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(personalMaxCap, "refCode");
+      await buyAllTickets(maxCap - personalMaxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts.slice(1));
+
+      const revenue = BigInt(maxCap) * price;
+      const fees = (BigInt(personalMaxCap) * price * 500n) / 10_000n;
+      await expect(raffleManager.startRewarding(0, [prize], false, makeParticipantsProof(exampleParticipants(owner.address)), rewardingConfig)).to.changeTokenBalance(
+        purchaseToken,
+        owner,
+        revenue - fees
+      );
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees()).to.changeTokenBalance(purchaseToken, referrer, fees);
+    });
   });
 });
@@ -3,6 +3,7 @@ import { expect } from "chai";
 import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import {
   baseFee,
+  callbackGasLimit,
   coordinatorGasOverheadLink,
   coordinatorGasOverheadNative,
   coordinatorGasOverheadPerWord,
@@ -15,15 +16,71 @@ import {
   initialAnswer,
   keyHash,
   linkDecimals,
+  maxCap,
   maxNumWords,
+  minCap,
+  openSalePeriod,
+  personalMaxCap,
+  prizeClaimPeriod,
+  requestConfirmations,
   stalenessSeconds,
+  ticketPrice,
   verificationTime,
   wrapperGasOverhead,
 } from "../config/config";
-import { errors, exampleAddress, exampleParticipants, expectedVRFLinkCost, makeParticipantsProof, maxVRFLinkCostDraft } from "../scripts/utils";
-import { MaxUint256, ZeroAddress } from "ethers";
+import {
+  deployInitializedClone,
+  drawTicketIndex,
+  erc1155Prize,
+  erc20Prize,
+  erc721Prize,
+  errors,
+  exampleAddress,
+  exampleParticipants,
+  expectedVRFLinkCost,
+  findWinningParticipantIndex,
+  findWinningParticipantIndexes,
+  FLAT_PRICING,
+  makeParticipantMerkleProof,
+  makeParticipantsMerkleTree,
+  makeParticipantsProof,
+  MAX_DRAW_ATTEMPTS,
+  maxVRFLinkCostDraft,
+  OPEN_SALE,
+  PaymentMode,
+  Prize,
+  PrizeKind,
+  ProofType,
+} from "../scripts/utils";
+import { toParticipants } from "../scripts/participantsSnapshot";
+import { MaxUint256, parseEther, parseUnits, ZeroAddress, ZeroHash } from "ethers";
+import { CollectiblePrize, NftPrize, RaffleRewarder, TokenPrize } from "../typechain-types";
 
 describe("RaffleRewarder", function () {
+  const rewardingConfig = { callbackGasLimit, requestConfirmations, prizeClaimPeriod };
+  const noSubscription = { coordinator: ZeroAddress, subscriptionId: 0n, keyHash: ZeroHash, nativePayment: false };
+
+  // Transfers the prizes from the first signer to the rewarder, as RaffleManager does when rewarding starts
+  async function escrowPrizes(raffleRewarder: RaffleRewarder, prizes: Prize[]) {
+    const [owner] = await hre.ethers.getSigners();
+    for (const prize of prizes) {
+      if (prize.kind === PrizeKind.ERC721) {
+        const nftPrize = await hre.ethers.getContractAt("NftPrize", prize.contractAddress);
+        await nftPrize["safeTransferFrom(address,address,uint256)"](owner.address, raffleRewarder.target, prize.tokenId);
+      } else if (prize.kind === PrizeKind.ERC20) {
+        await (await hre.ethers.getContractAt("TokenPrize", prize.contractAddress)).transfer(raffleRewarder.target, prize.amount);
+      } else {
+        const collectiblePrize = await hre.ethers.getContractAt("CollectiblePrize", prize.contractAddress);
+        await collectiblePrize.safeTransferFrom(owner.address, raffleRewarder.target, prize.tokenId, prize.amount, "0x");
+      }
+    }
+  }
+
+  // Deploys a ticket purchase contract counting the tickets in the draw of a rewarder
+  async function deployTicketPurchase(totalTickets: bigint) {
+    return (await hre.ethers.deployContract("MockRaffleTicketPurchase", [totalTickets])).getAddress();
+  }
+
   async function deployRaffleRewarderFixture() {
     // Contracts are deployed using the first signer/account by default
     const [owner, otherAccount] = await hre.ethers.getSigners();
@@ -66,12 +123,26 @@ describe("RaffleRewarder", function () {
 
     const NftPrize = await hre.ethers.getContractFactory("NftPrize");
     const nftPrize = await NftPrize.deploy();
-    const prize = { contractAddress: await nftPrize.getAddress(), tokenId: 1n };
+    const prize = erc721Prize(await nftPrize.getAddress(), 1n);
+    const tokenPrize = await hre.ethers.deployContract("TokenPrize");
+    const collectiblePrize = await hre.ethers.deployContract("CollectiblePrize");
 
     const RaffleRewarder = await hre.ethers.getContractFactory("RaffleRewarder");
-    const raffleRewarder = await RaffleRewarder.deploy(0, prize, makeParticipantsProof(exampleParticipants()), await vrfV2Wrapper.getAddress(), "0x31");
+    const raffleRewarder = await deployInitializedClone(RaffleRewarder, [
+      0,
+      [prize],
+      false,
+      makeParticipantsProof(exampleParticipants()),
+      ProofType.ParticipantsHash,
+      await deployTicketPurchase(100n),
+      await vrfV2Wrapper.getAddress(),
+      "0x31",
+      ZeroAddress,
+      rewardingConfig,
+    ]);
+    await escrowPrizes(raffleRewarder, [prize]);
 
-    return { raffleRewarder, nftPrize, linkToken, vrfV2Wrapper, vrfCoordinator, prize, owner, otherAccount };
+    return { raffleRewarder, nftPrize, tokenPrize, collectiblePrize, linkToken, vrfV2Wrapper, vrfCoordinator, prize, owner, otherAccount };
   }
 
   async function deployRaffleRewarderFixtureWithOwnerWinner() {
@@ -114,20 +185,198 @@ describe("RaffleRewarder", function () {
 
     const NftPrize = await hre.ethers.getContractFactory("NftPrize");
     const nftPrize = await NftPrize.deploy();
-    const prize = { contractAddress: await nftPrize.getAddress(), tokenId: 1n };
+    const prize = erc721Prize(await nftPrize.getAddress(), 1n);
 
     const RaffleRewarder = await hre.ethers.getContractFactory("RaffleRewarder");
-    const raffleRewarder = await RaffleRewarder.deploy(
+    const raffleRewarder = await deployInitializedClone(RaffleRewarder, [
       0,
-      prize,
+      [prize],
+      false,
       makeParticipantsProof(exampleParticipants(owner.address)),
+      ProofType.ParticipantsHash,
+      await deployTicketPurchase(100n),
       await vrfV2Wrapper.getAddress(),
-      "0x31"
-    );
+      "0x31",
+      ZeroAddress,
+      rewardingConfig,
+    ]);
+    await escrowPrizes(raffleRewarder, [prize]);
 
     return { raffleRewarder, nftPrize, linkToken, vrfV2Wrapper, vrfCoordinator, prize, owner, otherAccount };
   }
 
+  async function deployRaffleRewardersForBothProofTypes(prizeCount: number) {
+    const { vrfV2Wrapper, vrfCoordinator, linkToken, owner } = await deployRaffleRewarderFixture();
+    // The NFT of the base fixture is escrowed in its rewarder
+    const nftPrize = await hre.ethers.deployContract("NftPrize");
+    const prizes = nftPrizes(prizeCount)({ nftPrize } as PrizeContracts);
+    const signers = await hre.ethers.getSigners();
+
+    const participants = toParticipants(new Map(signers.slice(0, 7).map((signer, i) => [signer.address, BigInt(i * 3 + 1)])));
+    const totalTickets = participants[participants.length - 1].cumulativeCount;
+    const tree = makeParticipantsMerkleTree(participants);
+
+    const RaffleRewarder = await hre.ethers.getContractFactory("RaffleRewarder");
+    const hashRewarder = await deployInitializedClone(RaffleRewarder, [
+      0,
+      prizes,
+      false,
+      makeParticipantsProof(participants),
+      ProofType.ParticipantsHash,
+      await deployTicketPurchase(totalTickets),
+      await vrfV2Wrapper.getAddress(),
+      "0x31",
+      ZeroAddress,
+      rewardingConfig,
+    ]);
+    const merkleRewarder = await deployInitializedClone(RaffleRewarder, [
+      0,
+      prizes,
+      false,
+      tree.root,
+      ProofType.MerkleRoot,
+      await deployTicketPurchase(totalTickets),
+      await vrfV2Wrapper.getAddress(),
+      "0x31",
+      ZeroAddress,
+      rewardingConfig,
+    ]);
+
+    await linkToken.approve(await hashRewarder.getAddress(), MaxUint256 - 1n);
+    await linkToken.approve(await merkleRewarder.getAddress(), MaxUint256 - 1n);
+    // Only the Merkle rewarder holds the prizes, both rewarders are compared on their draws
+    await escrowPrizes(merkleRewarder, prizes);
+
+    return { hashRewarder, merkleRewarder, participants, totalTickets, tree, prizes, nftPrize, vrfV2Wrapper, vrfCoordinator, owner };
+  }
+
+  async function deployRaffleRewardersForBothProofTypesFixture() {
+    return deployRaffleRewardersForBothProofTypes(1);
+  }
+
+  async function deployRaffleRewardersForBothProofTypesWithThreePrizesFixture() {
+    return deployRaffleRewardersForBothProofTypes(3);
+  }
+
+  async function deployRaffleRewarderWithTicketLedger(makePrizes: (prizeContracts: PrizeContracts) => Prize[], allowMultipleWins: boolean) {
+    const { vrfV2Wrapper, vrfCoordinator, linkToken, tokenPrize, collectiblePrize, owner } = await deployRaffleRewarderFixture();
+    // The NFT of the base fixture is escrowed in its rewarder
+    const nftPrize = await hre.ethers.deployContract("NftPrize");
+    const buyers = (await hre.ethers.getSigners()).slice(1, 4);
+
+    const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+    const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+    const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+      0,
+      await purchaseToken.getAddress(),
+      ticketPrice,
+      now,
+      now + openSalePeriod,
+      minCap,
+      maxCap,
+      personalMaxCap,
+      "0x31",
+      ZeroAddress,
+      0,
+      [],
+      ZeroAddress,
+      OPEN_SALE,
+      FLAT_PRICING,
+      0,
+    ]);
+
+    for (const buyer of buyers) {
+      await purchaseToken.transfer(buyer.address, parseUnits((BigInt(personalMaxCap) * ticketPrice).toString(), await purchaseToken.decimals()));
+      await purchaseToken.connect(buyer).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+    }
+
+    // Ticket ranges: buyer 0 [0, 3), buyer 1 [3, 8), buyer 0 [8, 10), buyer 2 [10, 11), buyer 1 [11, 15)
+    const purchases: [number, number][] = [
+      [0, 3],
+      [1, 5],
+      [0, 2],
+      [2, 1],
+      [1, 4],
+    ];
+    for (const [buyer, amount] of purchases) {
+      await raffleTicketPurchase.connect(buyers[buyer]).purchaseTickets(amount, "refCode");
+    }
+
+    const prizes = makePrizes({ nftPrize, tokenPrize, collectiblePrize });
+
+    const RaffleRewarder = await hre.ethers.getContractFactory("RaffleRewarder");
+    const raffleRewarder = await deployInitializedClone(RaffleRewarder, [
+      0,
+      prizes,
+      allowMultipleWins,
+      ZeroHash,
+      ProofType.TicketLedger,
+      await raffleTicketPurchase.getAddress(),
+      await vrfV2Wrapper.getAddress(),
+      "0x31",
+      ZeroAddress,
+      rewardingConfig,
+    ]);
+    await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+    await escrowPrizes(raffleRewarder, prizes);
+
+    return { raffleRewarder, raffleTicketPurchase, buyers, prizes, nftPrize, tokenPrize, collectiblePrize, vrfV2Wrapper, vrfCoordinator, owner };
+  }
+
+  type PrizeContracts = { nftPrize: NftPrize; tokenPrize: TokenPrize; collectiblePrize: CollectiblePrize };
+
+  const nftPrizes =
+    (prizeCount: number) =>
+    ({ nftPrize }: PrizeContracts) =>
+      Array.from({ length: prizeCount }, (_, i) => erc721Prize(nftPrize.target as string, BigInt(i + 1)));
+
+  async function deployRaffleRewarderWithTicketLedgerFixture() {
+    return deployRaffleRewarderWithTicketLedger(nftPrizes(1), false);
+  }
+
+  async function deployRaffleRewarderWithTicketLedgerAndThreePrizesFixture() {
+    return deployRaffleRewarderWithTicketLedger(nftPrizes(3), false);
+  }
+
+  async function deployRaffleRewarderWithTicketLedgerAndThreePrizesAllowingMultipleWinsFixture() {
+    return deployRaffleRewarderWithTicketLedger(nftPrizes(3), true);
+  }
+
+  async function deployRaffleRewarderWithTicketLedgerAndFourPrizesFixture() {
+    return deployRaffleRewarderWithTicketLedger(nftPrizes(4), false);
+  }
+
+  async function deployRaffleRewarderWithTicketLedgerAndMixedPrizesFixture() {
+    return deployRaffleRewarderWithTicketLedger(
+      ({ nftPrize, tokenPrize, collectiblePrize }) => [
+        erc721Prize(nftPrize.target as string, 1n),
+        erc20Prize(tokenPrize.target as string, parseEther("100")),
+        erc1155Prize(collectiblePrize.target as string, 1n, 5n),
+      ],
+      false
+    );
+  }
+
+  // Buyer index holding each ticket of deployRaffleRewarderWithTicketLedger
+  const ledgerTicketOwners = [0, 0, 0, 1, 1, 1, 1, 1, 0, 0, 2, 1, 1, 1, 1];
+
+  // Mirrors the draw of RaffleRewarder.determineWinnerFromLedger, returns the buyer index winning each prize or -1 for a prize left unawarded.
+  // Claimed prizes, given by the buyer index of their winner, are not drawn.
+  const drawLedgerWinners = (randomWords: bigint[], allowMultipleWins: boolean, claimedWinners: (number | undefined)[] = []) => {
+    const winners = randomWords.map((_, i) => claimedWinners[i] ?? -1);
+    randomWords.forEach((randomWord, i) => {
+      if (claimedWinners[i] !== undefined) return;
+      for (let attempt = 0; attempt < MAX_DRAW_ATTEMPTS; attempt++) {
+        const buyer = ledgerTicketOwners[Number(drawTicketIndex(randomWord, attempt, BigInt(ledgerTicketOwners.length)))];
+        if (allowMultipleWins || !winners.includes(buyer)) {
+          winners[i] = buyer;
+          break;
+        }
+      }
+    });
+    return winners;
+  };
+
   describe("Deployment", function () {
     it("Should set the right participantsProof", async function () {
       const { raffleRewarder } = await loadFixture(deployRaffleRewarderFixture);
@@ -137,10 +386,104 @@ describe("RaffleRewarder", function () {
     it("Should set the right prize", async function () {
       const { raffleRewarder, prize } = await loadFixture(deployRaffleRewarderFixture);
 
-      const contractPrize = await raffleRewarder.prize();
+      const contractPrize = await raffleRewarder.prizes(0);
 
       expect(contractPrize.contractAddress).to.equal(prize.contractAddress);
       expect(contractPrize.tokenId).to.equal(prize.tokenId);
+      expect(await raffleRewarder.getPrizes()).to.have.length(1);
+      expect(await raffleRewarder.getNumWords()).to.equal(1);
+    });
+    it("Should request one random word for each prize", async function () {
+      const { raffleRewarder, prizes } = await loadFixture(deployRaffleRewarderWithTicketLedgerAndThreePrizesFixture);
+
+      expect(await raffleRewarder.getPrizes()).to.deep.equal(prizes.map((prize) => [prize.kind, prize.contractAddress, prize.tokenId, prize.amount]));
+      expect(await raffleRewarder.getNumWords()).to.equal(prizes.length);
+      expect(await raffleRewarder.getCallbackGasLimit()).to.equal(
+        BigInt(callbackGasLimit) + (await raffleRewarder.CALLBACK_GAS_PER_EXTRA_WORD()) * BigInt(prizes.length - 1)
+      );
+    });
+    it("Should fail deployment without prizes or with too many prizes", async function () {
+      const { raffleRewarder, vrfV2Wrapper, prize } = await loadFixture(deployRaffleRewarderFixture);
+
+      const RaffleRewarder = await hre.ethers.getContractFactory("RaffleRewarder");
+      const maxPrizes = Number(await raffleRewarder.MAX_PRIZES());
+      for (const prizes of [[], Array(maxPrizes + 1).fill(prize)]) {
+        await expect(
+          deployInitializedClone(RaffleRewarder, [
+            0,
+            prizes,
+            false,
+            ZeroHash,
+            ProofType.TicketLedger,
+            ZeroAddress,
+            await vrfV2Wrapper.getAddress(),
+            "0x31",
+            ZeroAddress,
+            rewardingConfig,
+          ])
+        ).to.be.revertedWithCustomError(raffleRewarder, errors.invalidPrizes);
+      }
+    });
+    it("Should fail deployment with nonexistent prizes or with wrong amounts", async function () {
+      const { raffleRewarder, vrfV2Wrapper, nftPrize, tokenPrize, collectiblePrize } = await loadFixture(deployRaffleRewarderFixture);
+
+      const RaffleRewarder = await hre.ethers.getContractFactory("RaffleRewarder");
+      const invalidPrizes: Prize[] = [
+        erc721Prize(nftPrize.target as string, 99n),
+        { ...erc721Prize(nftPrize.target as string, 1n), amount: 2n },
+        erc721Prize(tokenPrize.target as string, 1n),
+        erc20Prize(tokenPrize.target as string, 0n),
+        erc1155Prize(collectiblePrize.target as string, 1n, 0n),
+        erc1155Prize(nftPrize.target as string, 1n, 1n),
+      ];
+      for (const prize of invalidPrizes) {
+        await expect(
+          deployInitializedClone(RaffleRewarder, [
+            0,
+            [prize],
+            false,
+            ZeroHash,
+            ProofType.TicketLedger,
+            ZeroAddress,
+            await vrfV2Wrapper.getAddress(),
+            "0x31",
+            ZeroAddress,
+            rewardingConfig,
+          ])
+        ).to.be.revertedWithCustomError(raffleRewarder, errors.invalidPrize);
+      }
+    });
+    it("Should set the rewarding config and fail deployment with one out of bounds", async function () {
+      const { raffleRewarder, vrfV2Wrapper, prize } = await loadFixture(deployRaffleRewarderFixture);
+
+      expect(await raffleRewarder.rewardingConfig()).to.deep.equal([callbackGasLimit, requestConfirmations, prizeClaimPeriod]);
+      expect(await raffleRewarder.getCallbackGasLimit()).to.equal(callbackGasLimit);
+
+      const RaffleRewarder = await hre.ethers.getContractFactory("RaffleRewarder");
+      const invalidConfigs = [
+        { ...rewardingConfig, callbackGasLimit: (await raffleRewarder.MIN_CALLBACK_GAS_LIMIT()) - 1n },
+        { ...rewardingConfig, callbackGasLimit: (await raffleRewarder.MAX_CALLBACK_GAS_LIMIT()) + 1n },
+        { ...rewardingConfig, requestConfirmations: (await raffleRewarder.MIN_REQUEST_CONFIRMATIONS()) - 1n },
+        { ...rewardingConfig, requestConfirmations: (await raffleRewarder.MAX_REQUEST_CONFIRMATIONS()) + 1n },
+        { ...rewardingConfig, prizeClaimPeriod: (await raffleRewarder.MIN_PRIZE_CLAIM_PERIOD()) - 1n },
+        { ...rewardingConfig, prizeClaimPeriod: (await raffleRewarder.MAX_PRIZE_CLAIM_PERIOD()) + 1n },
+      ];
+      for (const config of invalidConfigs) {
+        await expect(
+          deployInitializedClone(RaffleRewarder, [
+            0,
+            [prize],
+            false,
+            ZeroHash,
+            ProofType.TicketLedger,
+            ZeroAddress,
+            await vrfV2Wrapper.getAddress(),
+            "0x31",
+            ZeroAddress,
+            config,
+          ])
+        ).to.be.revertedWithCustomError(raffleRewarder, errors.invalidRewardingConfig);
+      }
     });
   });
 
@@ -193,6 +536,150 @@ describe("RaffleRewarder", function () {
 
       expect(request.fulfilled).to.be.true;
     });
+
+    it("Should only accept the randomness from the VRF wrapper", async function () {
+      const { raffleRewarder, owner, linkToken, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderFixture);
+
+      expect((await raffleRewarder.randomness()).vrfV2PlusWrapper).to.equal(await vrfV2Wrapper.getAddress());
+      expect((await raffleRewarder.randomness()).linkToken).to.equal(await linkToken.getAddress());
+
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+      await raffleRewarder.askForRandomness(owner.address);
+      const request = await raffleRewarder.request();
+
+      await expect(raffleRewarder.rawFulfillRandomWords(request.requestId, [1n]))
+        .to.be.revertedWithCustomError(raffleRewarder, errors.onlyVRFWrapperCanFulfill)
+        .withArgs(owner.address, await vrfV2Wrapper.getAddress());
+    });
+
+    it("Should request randomness paid in native currency through the VRF wrapper", async function () {
+      const { raffleRewarder, owner, linkToken, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderFixture);
+      await vrfCoordinator.fundSubscriptionWithNative(await vrfV2Wrapper.SUBSCRIPTION_ID(), { value: parseEther("10") });
+
+      await expect(raffleRewarder.askForRandomness(owner.address, { value: 1n })).to.be.revertedWithCustomError(
+        raffleRewarder,
+        errors.incorrectRandomnessPayment
+      );
+      await raffleRewarder.setPaymentMode(PaymentMode.NativeWrapper, noSubscription);
+      expect((await raffleRewarder.randomness()).paymentMode).to.equal(PaymentMode.NativeWrapper);
+      await expect(raffleRewarder.askForRandomness(owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.incorrectRandomnessPayment);
+
+      const linkBalance = await linkToken.balanceOf(owner.address);
+      const tx = raffleRewarder.askForRandomness(owner.address, { value: parseEther("1") });
+      await expect(tx).to.emit(raffleRewarder, "RandomnessRequested");
+      const request = await raffleRewarder.request();
+      expect(request.paid).to.be.greaterThan(0n);
+      // The excess is returned to the payer
+      await expect(tx).to.changeEtherBalances([raffleRewarder, vrfV2Wrapper], [0n, request.paid]);
+      expect(await linkToken.balanceOf(owner.address)).to.equal(linkBalance);
+      expect(await vrfCoordinator.isNativePaymentRequest(request.requestId)).to.be.true;
+
+      await vrfCoordinator.fulfillRandomWords(request.requestId, await vrfV2Wrapper.getAddress());
+      expect((await raffleRewarder.request()).fulfilled).to.be.true;
+    });
+
+    it("Should request randomness charged to a VRF subscription", async function () {
+      const { raffleRewarder, owner, linkToken, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderFixture);
+      const receipt = await (await vrfCoordinator.createSubscription()).wait();
+      const subscriptionId = receipt!.logs.map((log) => vrfCoordinator.interface.parseLog(log)).find((event) => event?.name === "SubscriptionCreated")!.args[0];
+      await vrfCoordinator.fundSubscription(subscriptionId, parseEther("100"));
+      await vrfCoordinator.addConsumer(subscriptionId, await raffleRewarder.getAddress());
+      const subscription = { coordinator: await vrfCoordinator.getAddress(), subscriptionId, keyHash, nativePayment: false };
+
+      await raffleRewarder.setPaymentMode(PaymentMode.Subscription, subscription);
+      expect((await raffleRewarder.randomness()).subscription).to.deep.equal(Object.values(subscription));
+
+      const linkBalance = await linkToken.balanceOf(owner.address);
+      await expect(raffleRewarder.askForRandomness(owner.address)).to.emit(raffleRewarder, "RandomnessRequested");
+      const request = await raffleRewarder.request();
+      expect(request.paid).to.equal(0n);
+      expect(await linkToken.balanceOf(owner.address)).to.equal(linkBalance);
+      expect(await vrfCoordinator.requestSubscriptionId(request.requestId)).to.equal(subscriptionId);
+      expect(await vrfCoordinator.isNativePaymentRequest(request.requestId)).to.be.false;
+
+      await expect(raffleRewarder.rawFulfillRandomWords(request.requestId, [1n]))
+        .to.be.revertedWithCustomError(raffleRewarder, errors.onlyCoordinatorCanFulfill)
+        .withArgs(owner.address, await vrfCoordinator.getAddress());
+      await vrfCoordinator.fulfillRandomWords(request.requestId, await raffleRewarder.getAddress());
+      expect((await raffleRewarder.request()).fulfilled).to.be.true;
+      expect(await raffleRewarder.getRandomWords()).to.have.lengthOf(1);
+    });
+
+    it("Should only let the owner change the payment mode while no request is pending", async function () {
+      const { raffleRewarder, owner, otherAccount, linkToken, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderFixture);
+
+      await expect(raffleRewarder.connect(otherAccount).setPaymentMode(PaymentMode.NativeWrapper, noSubscription)).to.be.revertedWithCustomError(
+        raffleRewarder,
+        errors.callerNotOwner
+      );
+      await expect(raffleRewarder.setPaymentMode(PaymentMode.Subscription, noSubscription)).to.be.revertedWithCustomError(
+        raffleRewarder,
+        errors.vrfSubscriptionNotSet
+      );
+
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+      await raffleRewarder.askForRandomness(owner.address);
+      await expect(raffleRewarder.setPaymentMode(PaymentMode.NativeWrapper, noSubscription)).to.be.revertedWithCustomError(
+        raffleRewarder,
+        errors.randomnessRequestPending
+      );
+
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+      await raffleRewarder.setPaymentMode(PaymentMode.NativeWrapper, noSubscription);
+      expect((await raffleRewarder.randomness()).paymentMode).to.equal(PaymentMode.NativeWrapper);
+    });
+
+    it("Should replace a request left unfulfilled after the request timeout", async function () {
+      const { raffleRewarder, owner, linkToken, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderFixture);
+      const timeout = await raffleRewarder.REQUEST_TIMEOUT();
+
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+      await raffleRewarder.askForRandomness(owner.address);
+      const abandonedRequest = await raffleRewarder.request();
+      expect(abandonedRequest.requestedAt).to.equal(await time.latest());
+      expect((await raffleRewarder.draw()).drawCount).to.equal(1n);
+
+      // The fulfillment is withheld until the timeout has elapsed
+      await time.setNextBlockTimestamp(abandonedRequest.requestedAt + timeout);
+      await expect(raffleRewarder.askForRandomness(owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotAskNewRandomness);
+      expect(await raffleRewarder.canAskForRandomness()).to.be.false;
+
+      await time.increase(1);
+      expect(await raffleRewarder.canAskForRandomness()).to.be.true;
+      const tx = raffleRewarder.askForRandomness(owner.address);
+      await expect(tx).to.emit(raffleRewarder, "RandomnessRequestAbandoned").withArgs(0, abandonedRequest.requestId);
+      await expect(tx).to.emit(raffleRewarder, "RandomnessRequested");
+      const request = await raffleRewarder.request();
+      expect(request.requestId).not.to.equal(abandonedRequest.requestId);
+      expect(request.fulfilled).to.be.false;
+      // The abandoned request does not count as a draw
+      expect((await raffleRewarder.draw()).drawCount).to.equal(1n);
+
+      // The late fulfillment of the abandoned request is ignored
+      await vrfCoordinator.fulfillRandomWordsWithOverride(abandonedRequest.requestId, await vrfV2Wrapper.getAddress(), [7n]);
+      expect((await raffleRewarder.request()).fulfilled).to.be.false;
+      expect(await raffleRewarder.getRandomWords()).to.be.empty;
+
+      await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [11n]);
+      expect((await raffleRewarder.request()).fulfilled).to.be.true;
+      expect(await raffleRewarder.getRandomWords()).to.deep.equal([11n]);
+      expect(await raffleRewarder.canAskForRandomness()).to.be.false;
+    });
+
+    it("Should let the payment mode change once the pending request has timed out", async function () {
+      const { raffleRewarder, owner, linkToken } = await loadFixture(deployRaffleRewarderFixture);
+
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+      await raffleRewarder.askForRandomness(owner.address);
+      await expect(raffleRewarder.setPaymentMode(PaymentMode.NativeWrapper, noSubscription)).to.be.revertedWithCustomError(
+        raffleRewarder,
+        errors.randomnessRequestPending
+      );
+
+      await time.increase(await raffleRewarder.REQUEST_TIMEOUT());
+      await raffleRewarder.setPaymentMode(PaymentMode.NativeWrapper, noSubscription);
+      expect((await raffleRewarder.randomness()).paymentMode).to.equal(PaymentMode.NativeWrapper);
+    });
   });
 
   describe("determineWinner", function () {
@@ -239,8 +726,433 @@ describe("RaffleRewarder", function () {
       await raffleRewarder.determineWinner(exampleParticipants());
       const blockTimestamp = (await tx.getBlock())?.timestamp;
 
-      expect(await raffleRewarder.winner()).to.equal(exampleAddress);
-      expect(await raffleRewarder.startClaimTime()).to.equal(blockTimestamp);
+      expect(await raffleRewarder.winners(0)).to.equal(exampleAddress);
+      expect((await raffleRewarder.draw()).startClaimTime).to.equal(blockTimestamp);
+    });
+  });
+
+  describe("determineWinnerWithMerkleProof", function () {
+    it("Should revert if the function does not match the proof type", async function () {
+      const { hashRewarder, merkleRewarder, participants, tree } = await loadFixture(deployRaffleRewardersForBothProofTypesFixture);
+
+      await expect(hashRewarder.determineWinnerWithMerkleProof([participants[0]], [makeParticipantMerkleProof(tree, 0)])).to.be.revertedWithCustomError(
+        hashRewarder,
+        errors.wrongProofType
+      );
+      await expect(merkleRewarder.determineWinner(participants)).to.be.revertedWithCustomError(merkleRewarder, errors.wrongProofType);
+    });
+    it("Should revert if randomness request is not fulfilled", async function () {
+      const { merkleRewarder, participants, tree, owner } = await loadFixture(deployRaffleRewardersForBothProofTypesFixture);
+
+      await merkleRewarder.askForRandomness(owner.address);
+
+      await expect(merkleRewarder.determineWinnerWithMerkleProof([participants[0]], [makeParticipantMerkleProof(tree, 0)])).to.be.revertedWithCustomError(
+        merkleRewarder,
+        errors.noRandomWords
+      );
+    });
+    it("Should revert if the participant is not in the tree or does not hold the winning ticket", async function () {
+      const { merkleRewarder, participants, tree, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewardersForBothProofTypesFixture);
+
+      await merkleRewarder.askForRandomness(owner.address);
+      const request = await merkleRewarder.request();
+      await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [0n]);
+
+      const forged = { ...participants[0], ticketCount: participants[0].ticketCount + 1n };
+      await expect(merkleRewarder.determineWinnerWithMerkleProof([forged], [makeParticipantMerkleProof(tree, 0)])).to.be.revertedWithCustomError(
+        merkleRewarder,
+        errors.wrongParticipants
+      );
+      await expect(merkleRewarder.determineWinnerWithMerkleProof([participants[1]], [makeParticipantMerkleProof(tree, 1)])).to.be.revertedWithCustomError(
+        merkleRewarder,
+        errors.wrongParticipants
+      );
+
+      await merkleRewarder.determineWinnerWithMerkleProof([participants[0]], [makeParticipantMerkleProof(tree, 0)]);
+      expect(await merkleRewarder.winners(0)).to.equal(participants[0].addr);
+    });
+    it("Should pick the same winner as the participants hash on the same snapshot", async function () {
+      const { participants, totalTickets } = await loadFixture(deployRaffleRewardersForBothProofTypesFixture);
+
+      // Ticket range boundaries plus words larger than the number of tickets
+      const randomWords = [
+        0n,
+        participants[0].cumulativeCount - 1n,
+        participants[0].cumulativeCount,
+        participants[3].cumulativeCount,
+        totalTickets - 1n,
+        totalTickets + participants[2].cumulativeCount,
+        MaxUint256 - 7n,
+      ];
+
+      for (const randomWord of randomWords) {
+        const { hashRewarder, merkleRewarder, tree, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewardersForBothProofTypesFixture);
+
+        for (const raffleRewarder of [hashRewarder, merkleRewarder]) {
+          await raffleRewarder.askForRandomness(owner.address);
+          const request = await raffleRewarder.request();
+          await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [randomWord]);
+        }
+
+        expect(await merkleRewarder.getRandomWords()).to.deep.equal([randomWord]);
+        const winnerIndex = findWinningParticipantIndex(participants, randomWord % totalTickets);
+
+        await hashRewarder.determineWinner(participants);
+        await merkleRewarder.determineWinnerWithMerkleProof([participants[winnerIndex]], [makeParticipantMerkleProof(tree, winnerIndex)]);
+
+        expect(await hashRewarder.winners(0)).to.equal(participants[winnerIndex].addr);
+        expect(await merkleRewarder.winners(0)).to.equal(participants[winnerIndex].addr);
+      }
+    });
+  });
+
+  describe("determineWinnerFromLedger", function () {
+    it("Should revert if the proof type is not TicketLedger", async function () {
+      const { raffleRewarder } = await loadFixture(deployRaffleRewarderFixture);
+
+      await expect(raffleRewarder.determineWinnerFromLedger()).to.be.revertedWithCustomError(raffleRewarder, errors.wrongProofType);
+    });
+    it("Should revert if randomness request is not fulfilled", async function () {
+      const { raffleRewarder, owner } = await loadFixture(deployRaffleRewarderWithTicketLedgerFixture);
+
+      await raffleRewarder.askForRandomness(owner.address);
+
+      await expect(raffleRewarder.determineWinnerFromLedger()).to.be.revertedWithCustomError(raffleRewarder, errors.noRandomWords);
+    });
+    it("Should reward the owner of the winning ticket in the ledger", async function () {
+      const expectedWinners: [bigint, number][] = [
+        [0n, 0],
+        [2n, 0],
+        [3n, 1],
+        [8n, 0],
+        [10n, 2],
+        [11n, 1],
+        [14n, 1],
+        [15n + 10n, 2],
+      ];
+
+      for (const [randomWord, buyer] of expectedWinners) {
+        const { raffleRewarder, buyers, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderWithTicketLedgerFixture);
+
+        await raffleRewarder.askForRandomness(owner.address);
+        const request = await raffleRewarder.request();
+        await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [randomWord]);
+
+        await expect(raffleRewarder.determineWinnerFromLedger()).to.emit(raffleRewarder, "WinnerDetermined").withArgs(0, 0, buyers[buyer].address);
+        expect(await raffleRewarder.winners(0)).to.equal(buyers[buyer].address);
+      }
+    });
+  });
+
+  describe("multiple prizes", function () {
+    // Repeated and colliding words force tickets of earlier winners to be drawn again
+    const randomWordSets = [
+      [0n, 1n, 2n],
+      [7n, 7n, 7n],
+      [3n, 10n, 11n],
+      [MaxUint256, MaxUint256 - 1n, 14n],
+    ];
+
+    it("Should draw a distinct winner for each prize from the ticket ledger", async function () {
+      for (const randomWords of randomWordSets) {
+        const { raffleRewarder, buyers, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderWithTicketLedgerAndThreePrizesFixture);
+
+        await raffleRewarder.askForRandomness(owner.address);
+        const request = await raffleRewarder.request();
+        await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), randomWords);
+
+        const expectedWinners = drawLedgerWinners(randomWords, false).map((buyer) => buyers[buyer].address);
+        expect(new Set(expectedWinners).size).to.equal(3);
+
+        const tx = raffleRewarder.determineWinnerFromLedger();
+        for (const [i, winner] of expectedWinners.entries()) {
+          await expect(tx).to.emit(raffleRewarder, "WinnerDetermined").withArgs(0, i, winner);
+        }
+        expect(await raffleRewarder.getWinners()).to.deep.equal(expectedWinners);
+      }
+    });
+    it("Should let an address win more than one prize when configured", async function () {
+      const { raffleRewarder, buyers, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(
+        deployRaffleRewarderWithTicketLedgerAndThreePrizesAllowingMultipleWinsFixture
+      );
+
+      await raffleRewarder.askForRandomness(owner.address);
+      const request = await raffleRewarder.request();
+      await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [0n, 1n, 2n]);
+
+      await raffleRewarder.determineWinnerFromLedger();
+
+      expect(await raffleRewarder.allowMultipleWins()).to.be.true;
+      expect(await raffleRewarder.getWinners()).to.deep.equal([buyers[0].address, buyers[0].address, buyers[0].address]);
+    });
+    it("Should leave unawarded the prizes exceeding the number of participants", async function () {
+      const { raffleRewarder, buyers, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderWithTicketLedgerAndFourPrizesFixture);
+
+      await raffleRewarder.askForRandomness(owner.address);
+      const request = await raffleRewarder.request();
+      await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [0n, 3n, 10n, 1n]);
+
+      await raffleRewarder.determineWinnerFromLedger();
+
+      expect(await raffleRewarder.getWinners()).to.deep.equal([buyers[0].address, buyers[1].address, buyers[2].address, ZeroAddress]);
+      await expect(raffleRewarder.connect(buyers[0]).claimPrize(3)).to.be.revertedWithCustomError(raffleRewarder, errors.winnerNotSet);
+      await expect(raffleRewarder.connect(buyers[0]).claimPrize(4)).to.be.revertedWithCustomError(raffleRewarder, errors.winnerNotSet);
+    });
+    it("Should pick the same winners with the participants hash and the Merkle root", async function () {
+      for (const randomWords of randomWordSets) {
+        const { hashRewarder, merkleRewarder, participants, totalTickets, tree, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(
+          deployRaffleRewardersForBothProofTypesWithThreePrizesFixture
+        );
+
+        for (const raffleRewarder of [hashRewarder, merkleRewarder]) {
+          await raffleRewarder.askForRandomness(owner.address);
+          const request = await raffleRewarder.request();
+          await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), randomWords);
+        }
+
+        const winnerIndexes = findWinningParticipantIndexes(participants, randomWords, totalTickets, false);
+        const expectedWinners = winnerIndexes.map((i) => participants[i].addr);
+        expect(new Set(expectedWinners).size).to.equal(3);
+
+        await hashRewarder.determineWinner(participants);
+        await merkleRewarder.determineWinnerWithMerkleProof(
+          winnerIndexes.map((i) => participants[i]),
+          winnerIndexes.map((i) => makeParticipantMerkleProof(tree, i))
+        );
+
+        expect(await hashRewarder.getWinners()).to.deep.equal(expectedWinners);
+        expect(await merkleRewarder.getWinners()).to.deep.equal(expectedWinners);
+      }
+    });
+    it("Should revert if a Merkle winner is not the holder of a ticket of an earlier winner drawn again", async function () {
+      const { merkleRewarder, participants, totalTickets, tree, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(
+        deployRaffleRewardersForBothProofTypesWithThreePrizesFixture
+      );
+
+      await merkleRewarder.askForRandomness(owner.address);
+      const request = await merkleRewarder.request();
+      await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [7n, 7n, 7n]);
+
+      // Claiming the first prize winner wins again, as the first attempt of every prize would pick
+      const firstIndex = findWinningParticipantIndex(participants, 7n % totalTickets);
+      await expect(
+        merkleRewarder.determineWinnerWithMerkleProof(Array(3).fill(participants[firstIndex]), Array(3).fill(makeParticipantMerkleProof(tree, firstIndex)))
+      ).to.be.revertedWithCustomError(merkleRewarder, errors.wrongParticipants);
+      await expect(merkleRewarder.determineWinnerWithMerkleProof([participants[firstIndex]], [makeParticipantMerkleProof(tree, firstIndex)])).to.be.revertedWithCustomError(
+        merkleRewarder,
+        errors.wrongParticipants
+      );
+    });
+    it("Should let each winner claim only their own prize", async function () {
+      const { raffleRewarder, buyers, prizes, nftPrize, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(
+        deployRaffleRewarderWithTicketLedgerAndThreePrizesFixture
+      );
+
+      await raffleRewarder.askForRandomness(owner.address);
+      const request = await raffleRewarder.request();
+      await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [0n, 3n, 10n]);
+      await raffleRewarder.determineWinnerFromLedger();
+
+      await expect(raffleRewarder.connect(buyers[1]).claimPrize(0)).to.be.revertedWithCustomError(raffleRewarder, errors.callerNotWinner);
+      for (const [i, buyer] of buyers.entries()) {
+        await expect(raffleRewarder.connect(buyer).claimPrize(i))
+          .to.emit(raffleRewarder, "PrizeClaimed")
+          .withArgs(0, buyer.address, i, prizes[i].tokenId, prizes[i].amount);
+        expect(await nftPrize.ownerOf(prizes[i].tokenId)).to.equal(buyer.address);
+      }
+    });
+    it("Should transfer ERC20 and ERC1155 prizes from the escrow", async function () {
+      const { raffleRewarder, buyers, prizes, nftPrize, tokenPrize, collectiblePrize, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(
+        deployRaffleRewarderWithTicketLedgerAndMixedPrizesFixture
+      );
+
+      await raffleRewarder.askForRandomness(owner.address);
+      const request = await raffleRewarder.request();
+      await vrfCoordinator.fulfillRandomWordsWithOverride(request.requestId, await vrfV2Wrapper.getAddress(), [0n, 3n, 10n]);
+      await raffleRewarder.determineWinnerFromLedger();
+
+      expect((await raffleRewarder.getPrizes()).map((prize) => prize.kind)).to.deep.equal([PrizeKind.ERC721, PrizeKind.ERC20, PrizeKind.ERC1155]);
+
+      await raffleRewarder.connect(buyers[0]).claimPrize(0);
+      expect(await nftPrize.ownerOf(prizes[0].tokenId)).to.equal(buyers[0].address);
+
+      await expect(raffleRewarder.connect(buyers[1]).claimPrize(1))
+        .to.emit(raffleRewarder, "PrizeClaimed")
+        .withArgs(0, buyers[1].address, 1, 0n, prizes[1].amount);
+      expect(await tokenPrize.balanceOf(buyers[1].address)).to.equal(prizes[1].amount);
+
+      await expect(raffleRewarder.connect(buyers[2]).claimPrize(2))
+        .to.emit(collectiblePrize, "TransferSingle")
+        .withArgs(await raffleRewarder.getAddress(), await raffleRewarder.getAddress(), buyers[2].address, prizes[2].tokenId, prizes[2].amount);
+      expect(await collectiblePrize.balanceOf(buyers[2].address, prizes[2].tokenId)).to.equal(prizes[2].amount);
+    });
+  });
+
+  describe("claimed prizes", function () {
+    it("Should keep the winner of a claimed prize when drawing again from the ledger", async function () {
+      const { raffleRewarder, buyers, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderWithTicketLedgerAndThreePrizesFixture);
+
+      await raffleRewarder.askForRandomness(owner.address);
+      await vrfCoordinator.fulfillRandomWordsWithOverride((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress(), [0n, 3n, 10n]);
+      await raffleRewarder.determineWinnerFromLedger();
+
+      await raffleRewarder.connect(buyers[0]).claimPrize(0);
+      await expect(raffleRewarder.connect(buyers[0]).claimPrize(0)).to.be.revertedWithCustomError(raffleRewarder, errors.prizeAlreadyClaimed);
+      expect(await raffleRewarder.prizeClaimed(0)).to.be.true;
+
+      await time.increase(prizeClaimPeriod);
+      await raffleRewarder.askForRandomness(owner.address);
+      // Ticket 0 of every word belongs to the winner of the claimed prize
+      await vrfCoordinator.fulfillRandomWordsWithOverride((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress(), [0n, 0n, 15n]);
+
+      expect(await raffleRewarder.getWinners()).to.deep.equal([buyers[0].address, ZeroAddress, ZeroAddress]);
+      await expect(raffleRewarder.connect(buyers[1]).claimPrize(1)).to.be.revertedWithCustomError(raffleRewarder, errors.winnerNotSet);
+
+      await raffleRewarder.determineWinnerFromLedger();
+      const expectedWinners = drawLedgerWinners([0n, 0n, 15n], false, [0]).map((buyer) => (buyer < 0 ? ZeroAddress : buyers[buyer].address));
+      expect(expectedWinners[0]).to.equal(buyers[0].address);
+      expect(expectedWinners.slice(1)).not.to.include(buyers[0].address);
+      expect(await raffleRewarder.getWinners()).to.deep.equal(expectedWinners);
+    });
+    it("Should require the Merkle leaf of the winner of a claimed prize when drawing again", async function () {
+      const { merkleRewarder, participants, totalTickets, tree, prizes, nftPrize, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(
+        deployRaffleRewardersForBothProofTypesWithThreePrizesFixture
+      );
+      const draw = async (randomWords: bigint[], claimedWinnerIndexes: (number | undefined)[]) => {
+        await merkleRewarder.askForRandomness(owner.address);
+        await vrfCoordinator.fulfillRandomWordsWithOverride((await merkleRewarder.request()).requestId, await vrfV2Wrapper.getAddress(), randomWords);
+        return findWinningParticipantIndexes(participants, randomWords, totalTickets, false, claimedWinnerIndexes);
+      };
+
+      const firstIndexes = await draw([3n, 10n, 11n], []);
+      await merkleRewarder.determineWinnerWithMerkleProof(
+        firstIndexes.map((i) => participants[i]),
+        firstIndexes.map((i) => makeParticipantMerkleProof(tree, i))
+      );
+      const claimer = await hre.ethers.getSigner(participants[firstIndexes[1]].addr);
+      await merkleRewarder.connect(claimer).claimPrize(1);
+      expect(await nftPrize.ownerOf(prizes[1].tokenId)).to.equal(claimer.address);
+
+      await time.increase(prizeClaimPeriod);
+      // The first word draws a ticket of the claimer, which is drawn again
+      const winnerIndexes = await draw([participants[firstIndexes[1]].cumulativeCount - 1n, MaxUint256, 14n], [undefined, firstIndexes[1], undefined]);
+      expect(winnerIndexes[1]).to.equal(firstIndexes[1]);
+      expect(winnerIndexes.filter((i) => i === firstIndexes[1])).to.have.length(1);
+
+      const entries = winnerIndexes.map((i) => participants[i]);
+      const proofs = winnerIndexes.map((i) => makeParticipantMerkleProof(tree, i));
+      const otherIndex = winnerIndexes.find((i) => i !== firstIndexes[1])!;
+      await expect(
+        merkleRewarder.determineWinnerWithMerkleProof(
+          entries.map((entry, i) => (i === 1 ? participants[otherIndex] : entry)),
+          proofs.map((proof, i) => (i === 1 ? makeParticipantMerkleProof(tree, otherIndex) : proof))
+        )
+      ).to.be.revertedWithCustomError(merkleRewarder, errors.wrongParticipants);
+
+      await merkleRewarder.determineWinnerWithMerkleProof(entries, proofs);
+      expect(await merkleRewarder.getWinners()).to.deep.equal(entries.map((participant) => participant.addr));
+    });
+  });
+
+  describe("recoverPrizes", function () {
+    it("Should revert before the raffle is abandoned or if not called by the owner", async function () {
+      const { raffleRewarder, owner, otherAccount, linkToken, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderFixture);
+
+      await expect(raffleRewarder.recoverPrizes(owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotRecoverPrizes);
+      await expect(raffleRewarder.connect(otherAccount).recoverPrizes(otherAccount.address)).to.be.revertedWithCustomError(raffleRewarder, errors.callerNotOwner);
+
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+      for (let draw = 0n; draw < (await raffleRewarder.MAX_UNCLAIMED_DRAWS()); draw++) {
+        await raffleRewarder.askForRandomness(owner.address);
+        await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+        await expect(raffleRewarder.recoverPrizes(owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotRecoverPrizes);
+        await time.increase(prizeClaimPeriod);
+      }
+
+      expect((await raffleRewarder.draw()).drawCount).to.equal(await raffleRewarder.MAX_UNCLAIMED_DRAWS());
+      await expect(raffleRewarder.recoverPrizes(owner.address)).to.emit(raffleRewarder, "PrizesRecovered").withArgs(0, owner.address, 1);
+    });
+    it("Should recover only the unclaimed prizes and close the raffle", async function () {
+      const { raffleRewarder, buyers, prizes, nftPrize, owner, vrfCoordinator, vrfV2Wrapper } = await loadFixture(
+        deployRaffleRewarderWithTicketLedgerAndThreePrizesFixture
+      );
+
+      for (let draw = 0n; draw < (await raffleRewarder.MAX_UNCLAIMED_DRAWS()); draw++) {
+        await raffleRewarder.askForRandomness(owner.address);
+        await vrfCoordinator.fulfillRandomWordsWithOverride((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress(), [0n, 3n, 10n]);
+        await raffleRewarder.determineWinnerFromLedger();
+        if (draw === 0n) await raffleRewarder.connect(buyers[0]).claimPrize(0);
+        await time.increase(prizeClaimPeriod);
+      }
+
+      await expect(raffleRewarder.recoverPrizes(owner.address)).to.emit(raffleRewarder, "PrizesRecovered").withArgs(0, owner.address, 2);
+      expect(await nftPrize.ownerOf(prizes[0].tokenId)).to.equal(buyers[0].address);
+      expect(await nftPrize.ownerOf(prizes[1].tokenId)).to.equal(owner.address);
+      expect(await nftPrize.ownerOf(prizes[2].tokenId)).to.equal(owner.address);
+
+      await expect(raffleRewarder.connect(buyers[1]).claimPrize(1)).to.be.revertedWithCustomError(raffleRewarder, errors.prizeAlreadyClaimed);
+      await expect(raffleRewarder.recoverPrizes(owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotRecoverPrizes);
+      await expect(raffleRewarder.askForRandomness(owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.cannotAskNewRandomness);
+    });
+  });
+
+  describe("pause", function () {
+    async function deployPausableRaffleRewarderFixture() {
+      const { vrfV2Wrapper, vrfCoordinator, linkToken, owner } = await deployRaffleRewarderFixture();
+      const nftPrize = await hre.ethers.deployContract("NftPrize");
+      const prize = erc721Prize(await nftPrize.getAddress(), 1n);
+      const pauser = await hre.ethers.deployContract("MockRafflePauser");
+
+      const RaffleRewarder = await hre.ethers.getContractFactory("RaffleRewarder");
+      const raffleRewarder = await deployInitializedClone(RaffleRewarder, [
+        0,
+        [prize],
+        false,
+        makeParticipantsProof(exampleParticipants(owner.address)),
+        ProofType.ParticipantsHash,
+        await deployTicketPurchase(100n),
+        await vrfV2Wrapper.getAddress(),
+        "0x31",
+        await pauser.getAddress(),
+        rewardingConfig,
+      ]);
+      await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
+      await escrowPrizes(raffleRewarder, [prize]);
+
+      return { raffleRewarder, pauser, nftPrize, prize, vrfV2Wrapper, vrfCoordinator, owner };
+    }
+
+    it("Should halt randomness requests and winner determination while paused", async function () {
+      const { raffleRewarder, pauser, owner } = await loadFixture(deployPausableRaffleRewarderFixture);
+
+      await pauser.setPaused(0, true);
+      expect(await raffleRewarder.isPaused()).to.be.true;
+      await expect(raffleRewarder.askForRandomness(owner.address)).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+      await expect(raffleRewarder.determineWinner(exampleParticipants(owner.address))).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+      await expect(raffleRewarder.determineWinnerWithMerkleProof([], [])).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+      await expect(raffleRewarder.determineWinnerFromLedger()).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+
+      await pauser.setPaused(0, false);
+      await expect(raffleRewarder.askForRandomness(owner.address)).to.emit(raffleRewarder, "RandomnessRequested");
+    });
+
+    it("Should fulfill randomness but halt prize claims while paused", async function () {
+      const { raffleRewarder, pauser, nftPrize, prize, vrfV2Wrapper, vrfCoordinator, owner } = await loadFixture(deployPausableRaffleRewarderFixture);
+      await raffleRewarder.askForRandomness(owner.address);
+
+      await pauser.setPaused(0, true);
+      await vrfCoordinator.fulfillRandomWords((await raffleRewarder.request()).requestId, await vrfV2Wrapper.getAddress());
+      expect((await raffleRewarder.request()).fulfilled).to.be.true;
+
+      await pauser.setPaused(0, false);
+      await raffleRewarder.determineWinner(exampleParticipants(owner.address));
+
+      await pauser.setPaused(0, true);
+      await expect(raffleRewarder.claimPrize(0)).to.be.revertedWithCustomError(raffleRewarder, errors.rafflePaused);
+
+      await pauser.setPaused(0, false);
+      await raffleRewarder.claimPrize(0);
+      expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(owner.address);
     });
   });
 
@@ -248,7 +1160,7 @@ describe("RaffleRewarder", function () {
     it("Should revert if winner not set", async function () {
       const { raffleRewarder } = await loadFixture(deployRaffleRewarderFixture);
 
-      await expect(raffleRewarder.claimPrize()).to.be.revertedWithCustomError(raffleRewarder, errors.winnerNotSet);
+      await expect(raffleRewarder.claimPrize(0)).to.be.revertedWithCustomError(raffleRewarder, errors.winnerNotSet);
     });
     it("Should revert if not called by winner", async function () {
       const { raffleRewarder, owner, linkToken, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderFixture);
@@ -266,10 +1178,10 @@ describe("RaffleRewarder", function () {
       await raffleRewarder.determineWinner(exampleParticipants());
       const blockTimestamp = (await tx.getBlock())?.timestamp;
 
-      expect(await raffleRewarder.winner()).to.equal(exampleAddress);
-      expect(await raffleRewarder.startClaimTime()).to.equal(blockTimestamp);
+      expect(await raffleRewarder.winners(0)).to.equal(exampleAddress);
+      expect((await raffleRewarder.draw()).startClaimTime).to.equal(blockTimestamp);
 
-      await expect(raffleRewarder.claimPrize()).to.be.revertedWithCustomError(raffleRewarder, errors.callerNotWinner);
+      await expect(raffleRewarder.claimPrize(0)).to.be.revertedWithCustomError(raffleRewarder, errors.callerNotWinner);
     });
     it("Should revert if claim period is elapsed", async function () {
       const { raffleRewarder, owner, linkToken, vrfCoordinator, vrfV2Wrapper } = await loadFixture(deployRaffleRewarderFixture);
@@ -284,15 +1196,13 @@ describe("RaffleRewarder", function () {
 
       await raffleRewarder.determineWinner(exampleParticipants());
 
-      await time.increase(await raffleRewarder.PRIZE_CLAIM_PERIOD());
+      await time.increase(prizeClaimPeriod);
 
-      await expect(raffleRewarder.claimPrize()).to.be.revertedWithCustomError(raffleRewarder, errors.claimPeriodElapsed);
+      await expect(raffleRewarder.claimPrize(0)).to.be.revertedWithCustomError(raffleRewarder, errors.claimPeriodElapsed);
     });
     it("Should let winner claim the prize", async function () {
       const { raffleRewarder, nftPrize, owner, linkToken, vrfCoordinator, vrfV2Wrapper, prize } = await loadFixture(deployRaffleRewarderFixtureWithOwnerWinner);
 
-      await nftPrize.approve(await raffleRewarder.getAddress(), prize.tokenId);
-
       await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
 
       await raffleRewarder.askForRandomness(owner.address);
@@ -304,18 +1214,16 @@ describe("RaffleRewarder", function () {
       await raffleRewarder.determineWinner(exampleParticipants(owner.address));
       const blockTimestamp = (await tx.getBlock())?.timestamp;
 
-      expect(await raffleRewarder.winner()).to.equal(owner.address);
-      expect(await raffleRewarder.startClaimTime()).to.equal(blockTimestamp);
+      expect(await raffleRewarder.winners(0)).to.equal(owner.address);
+      expect((await raffleRewarder.draw()).startClaimTime).to.equal(blockTimestamp);
 
-      await expect(raffleRewarder.claimPrize()).to.emit(nftPrize, "Transfer").withArgs(owner.address, owner.address, BigInt(prize.tokenId));
+      await expect(raffleRewarder.claimPrize(0)).to.emit(nftPrize, "Transfer").withArgs(await raffleRewarder.getAddress(), owner.address, prize.tokenId);
 
       expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(owner.address);
     });
     it("Should allow another winner to be elected if the first doesn't claim the prize", async function () {
       const { raffleRewarder, nftPrize, owner, linkToken, vrfCoordinator, vrfV2Wrapper, prize } = await loadFixture(deployRaffleRewarderFixtureWithOwnerWinner);
 
-      await nftPrize.approve(await raffleRewarder.getAddress(), prize.tokenId);
-
       await linkToken.approve(await raffleRewarder.getAddress(), MaxUint256 - 1n);
 
       await raffleRewarder.askForRandomness(owner.address);
@@ -326,9 +1234,9 @@ describe("RaffleRewarder", function () {
 
       await raffleRewarder.determineWinner(exampleParticipants(owner.address));
 
-      await time.increase(await raffleRewarder.PRIZE_CLAIM_PERIOD());
+      await time.increase(prizeClaimPeriod);
 
-      await expect(raffleRewarder.claimPrize()).to.be.revertedWithCustomError(raffleRewarder, errors.claimPeriodElapsed);
+      await expect(raffleRewarder.claimPrize(0)).to.be.revertedWithCustomError(raffleRewarder, errors.claimPeriodElapsed);
 
       await raffleRewarder.askForRandomness(owner.address);
       request = await raffleRewarder.request();
@@ -340,7 +1248,7 @@ describe("RaffleRewarder", function () {
 
       await raffleRewarder.determineWinner(exampleParticipants(owner.address));
 
-      await expect(raffleRewarder.claimPrize()).to.emit(nftPrize, "Transfer").withArgs(owner.address, owner.address, BigInt(prize.tokenId));
+      await expect(raffleRewarder.claimPrize(0)).to.emit(nftPrize, "Transfer").withArgs(await raffleRewarder.getAddress(), owner.address, prize.tokenId);
 
       expect(await nftPrize.ownerOf(prize.tokenId)).to.equal(owner.address);
     });
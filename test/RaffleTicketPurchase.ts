@@ -1,10 +1,30 @@
-import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, setBalance, setCode, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
 import { maxCap, minCap, openSalePeriod, personalMaxCap, ticketPrice } from "../config/config";
-import { MaxUint256, parseUnits, ZeroAddress } from "ethers";
-import { buyAllTickets, errors } from "../scripts/utils";
-import { PurchaseToken, RaffleTicketPurchase } from "../typechain-types";
+import { AbiCoder, MaxUint256, parseEther, parseUnits, ZeroAddress, ZeroHash } from "ethers";
+import {
+  allowlistGate,
+  applyDiscount,
+  buyAllTickets,
+  buyAllTicketsWithNativeCurrency,
+  deployInitializedClone,
+  errors,
+  FLAT_PRICING,
+  makeAllowlistGateProof,
+  makeAllowlistMerkleTree,
+  NATIVE_CURRENCY,
+  OPEN_SALE,
+  PERMIT2_ADDRESS,
+  Pricing,
+  PurchaseGate,
+  signatureGate,
+  signPermit,
+  signPermit2Transfer,
+  signPurchaseApproval,
+  tokenHoldingGate,
+} from "../scripts/utils";
+import { MockPermit2, PurchaseToken, RaffleTicketPurchase } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 describe("RaffleTicketPurchase", function () {
@@ -13,9 +33,10 @@ describe("RaffleTicketPurchase", function () {
 
     const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
 
-    const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+    // The implementation, the clone and its initialization are mined in a block each
+    const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
 
-    const raffleTicketPurchase = await hre.ethers.deployContract("RaffleTicketPurchase", [
+    const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
       0,
       await purchaseToken.getAddress(),
       ticketPrice,
@@ -25,6 +46,13 @@ describe("RaffleTicketPurchase", function () {
       maxCap,
       personalMaxCap,
       "0x31",
+      ZeroAddress,
+      0,
+      [],
+      ZeroAddress,
+      OPEN_SALE,
+      FLAT_PRICING,
+      0,
     ]);
 
     return { raffleTicketPurchase, purchaseToken, owner, otherAccounts };
@@ -53,7 +81,26 @@ describe("RaffleTicketPurchase", function () {
       await expect(
         hre.ethers
           .getContractFactory("RaffleTicketPurchase")
-          .then((f) => f.deploy(0, ZeroAddress, ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap, "0x31"))
+          .then((f) =>
+            deployInitializedClone(f, [
+              0,
+              ZeroAddress,
+              ticketPrice,
+              now,
+              now + openSalePeriod,
+              minCap,
+              maxCap,
+              personalMaxCap,
+              "0x31",
+              ZeroAddress,
+              0,
+              [],
+              ZeroAddress,
+              OPEN_SALE,
+              FLAT_PRICING,
+              0,
+            ])
+          )
       ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidTokenAddress);
     });
 
@@ -64,7 +111,7 @@ describe("RaffleTicketPurchase", function () {
       const tokenAddress = await purchaseToken.getAddress();
       await expect(
         hre.ethers.getContractFactory("RaffleTicketPurchase").then((f) =>
-          f.deploy(
+          deployInitializedClone(f, [
             0,
             tokenAddress,
             ticketPrice,
@@ -73,14 +120,21 @@ describe("RaffleTicketPurchase", function () {
             minCap,
             maxCap,
             personalMaxCap,
-            "0x31"
-          )
+            "0x31",
+            ZeroAddress,
+            0,
+            [],
+            ZeroAddress,
+            OPEN_SALE,
+            FLAT_PRICING,
+            0,
+          ])
         )
       ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidTimestamps);
 
       await expect(
         hre.ethers.getContractFactory("RaffleTicketPurchase").then((f) =>
-          f.deploy(
+          deployInitializedClone(f, [
             0,
             tokenAddress,
             ticketPrice,
@@ -89,8 +143,15 @@ describe("RaffleTicketPurchase", function () {
             minCap,
             maxCap,
             personalMaxCap,
-            "0x31"
-          )
+            "0x31",
+            ZeroAddress,
+            0,
+            [],
+            ZeroAddress,
+            OPEN_SALE,
+            FLAT_PRICING,
+            0,
+          ])
         )
       ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidTimestamps);
     });
@@ -105,13 +166,32 @@ describe("RaffleTicketPurchase", function () {
       await expect(
         hre.ethers
           .getContractFactory("RaffleTicketPurchase")
-          .then((f) => f.deploy(0, tokenAddress, ticketPrice, now, now + openSalePeriod, 0, maxCap, personalMaxCap, "0x31"))
+          .then((f) =>
+            deployInitializedClone(f, [
+              0,
+              tokenAddress,
+              ticketPrice,
+              now,
+              now + openSalePeriod,
+              0,
+              maxCap,
+              personalMaxCap,
+              "0x31",
+              ZeroAddress,
+              0,
+              [],
+              ZeroAddress,
+              OPEN_SALE,
+              FLAT_PRICING,
+              0,
+            ])
+          )
       ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidCaps);
 
       // maxCap less than minCap
       await expect(
         hre.ethers.getContractFactory("RaffleTicketPurchase").then((f) =>
-          f.deploy(
+          deployInitializedClone(f, [
             0,
             tokenAddress,
             ticketPrice,
@@ -120,15 +200,22 @@ describe("RaffleTicketPurchase", function () {
             minCap,
             minCap - 1, // maxCap less than minCap
             personalMaxCap,
-            "0x31"
-          )
+            "0x31",
+            ZeroAddress,
+            0,
+            [],
+            ZeroAddress,
+            OPEN_SALE,
+            FLAT_PRICING,
+            0,
+          ])
         )
       ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidCaps);
 
       // personalMaxCap greater than maxCap
       await expect(
         hre.ethers.getContractFactory("RaffleTicketPurchase").then((f) =>
-          f.deploy(
+          deployInitializedClone(f, [
             0,
             tokenAddress,
             ticketPrice,
@@ -137,8 +224,15 @@ describe("RaffleTicketPurchase", function () {
             minCap,
             maxCap,
             maxCap + 1, // personalMaxCap greater than maxCap
-            "0x31"
-          )
+            "0x31",
+            ZeroAddress,
+            0,
+            [],
+            ZeroAddress,
+            OPEN_SALE,
+            FLAT_PRICING,
+            0,
+          ])
         )
       ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidCaps);
     });
@@ -160,7 +254,7 @@ describe("RaffleTicketPurchase", function () {
       const ticketAmount = 5n;
       await expect(raffleTicketPurchase.connect(owner).purchaseTickets(ticketAmount, "refCode"))
         .to.emit(raffleTicketPurchase, "TicketPurchased")
-        .withArgs(0n, await owner.getAddress(), "refCode", ticketAmount);
+        .withArgs(0n, await owner.getAddress(), ZeroAddress, "refCode", ticketAmount);
 
       const ownerTickets = await raffleTicketPurchase.ticketsPurchased(owner.address);
       expect(ownerTickets).to.equal(ticketAmount);
@@ -194,7 +288,7 @@ describe("RaffleTicketPurchase", function () {
 
     it("Should revert if trying to purchase tickets before the start or after the finish of the raffle", async function () {
       const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 10;
-      raffleTicketPurchase = await hre.ethers.deployContract("RaffleTicketPurchase", [
+      raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
         0,
         await purchaseToken.getAddress(),
         ticketPrice,
@@ -204,6 +298,13 @@ describe("RaffleTicketPurchase", function () {
         maxCap,
         personalMaxCap,
         "0x31",
+        ZeroAddress,
+        0,
+        [],
+        ZeroAddress,
+        OPEN_SALE,
+        FLAT_PRICING,
+        0,
       ]);
       await purchaseToken.connect(owner).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
       // Purchasing before the raffle starts
@@ -284,6 +385,15 @@ describe("RaffleTicketPurchase", function () {
       const finalOwnerBalance = await purchaseToken.balanceOf(owner.address);
       expect(finalOwnerBalance - initialOwnerBalance).to.equal(contractBalance);
     });
+
+    it("Should revert a second withdrawal of the funds", async function () {
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      await raffleTicketPurchase.withdrawFunds(owner.address);
+
+      // Tokens sent afterwards are not revenue of the sale
+      await purchaseToken.connect(owner).transfer(await raffleTicketPurchase.getAddress(), ticketPrice);
+      await expect(raffleTicketPurchase.withdrawFunds(owner.address)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.fundsAlreadyWithdrawn);
+    });
   });
 
   describe("Refund Scenarios", function () {
@@ -345,6 +455,478 @@ describe("RaffleTicketPurchase", function () {
     });
   });
 
+  describe("Cancellation", function () {
+    let raffleTicketPurchase: RaffleTicketPurchase;
+    let purchaseToken: PurchaseToken;
+    let owner: HardhatEthersSigner;
+    let otherAccounts: HardhatEthersSigner[];
+
+    beforeEach(async function () {
+      ({ raffleTicketPurchase, purchaseToken, owner, otherAccounts } = await loadFixture(deployRaffleTicketPurchaseFixture));
+      await purchaseToken.connect(owner).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+    });
+
+    it("Should only let the owner cancel the raffle once", async function () {
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).cancel()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.callerNotOwner);
+
+      await expect(raffleTicketPurchase.cancel()).to.emit(raffleTicketPurchase, "RaffleCanceled").withArgs(0);
+      expect((await raffleTicketPurchase.sale()).canceled).to.be.true;
+
+      await expect(raffleTicketPurchase.cancel()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.raffleAlreadyCanceled);
+    });
+
+    it("Should block purchases and open refunds immediately", async function () {
+      await raffleTicketPurchase.purchaseTickets(10, ZeroAddress);
+      await raffleTicketPurchase.cancel();
+
+      await expect(raffleTicketPurchase.purchaseTickets(1, ZeroAddress)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.raffleNotActive);
+      expect(await raffleTicketPurchase.isFailed()).to.be.true;
+
+      const refundAmount = 10n * (await raffleTicketPurchase.ticketPrice());
+      await expect(raffleTicketPurchase.claimRefund()).to.changeTokenBalances(purchaseToken, [owner, raffleTicketPurchase], [refundAmount, -refundAmount]);
+    });
+
+    it("Should refund a raffle that reached its minimum tickets and block the withdrawal of its funds", async function () {
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      expect(await raffleTicketPurchase.isSuccessful()).to.be.true;
+
+      await raffleTicketPurchase.cancel();
+
+      expect(await raffleTicketPurchase.isSuccessful()).to.be.false;
+      await expect(raffleTicketPurchase.withdrawFunds(owner.address)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.raffleNotSuccessful);
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).claimRefund()).to.emit(raffleTicketPurchase, "RefundIssued");
+    });
+
+    it("Should not cancel once the funds were withdrawn", async function () {
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      await raffleTicketPurchase.withdrawFunds(owner.address);
+
+      await expect(raffleTicketPurchase.cancel()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.fundsAlreadyWithdrawn);
+    });
+  });
+
+  describe("Batch Refunds", function () {
+    let raffleTicketPurchase: RaffleTicketPurchase;
+    let purchaseToken: PurchaseToken;
+    let otherAccounts: HardhatEthersSigner[];
+    let buyers: HardhatEthersSigner[];
+
+    beforeEach(async function () {
+      ({ raffleTicketPurchase, purchaseToken, otherAccounts } = await loadFixture(deployRaffleTicketPurchaseFixture));
+      buyers = otherAccounts.slice(0, 3);
+      for (const buyer of buyers) {
+        await purchaseToken.transfer(buyer.address, 10n * (await raffleTicketPurchase.ticketPrice()));
+        await purchaseToken.connect(buyer).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+        await raffleTicketPurchase.connect(buyer).purchaseTickets(10, ZeroAddress);
+      }
+    });
+
+    it("Should revert if the raffle has not failed", async function () {
+      await expect(raffleTicketPurchase.refundPurchasers(buyers.map((b) => b.address))).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.raffleNotFailed
+      );
+    });
+
+    it("Should only let the owner push refunds", async function () {
+      await raffleTicketPurchase.cancel();
+
+      await expect(raffleTicketPurchase.connect(buyers[0]).refundPurchasers([buyers[1].address])).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.callerNotOwner
+      );
+    });
+
+    it("Should push the refunds, skipping refunded accounts and accounts without tickets", async function () {
+      await time.increase(openSalePeriod + 100);
+      await raffleTicketPurchase.connect(buyers[1]).claimRefund();
+
+      const refundAmount = 10n * (await raffleTicketPurchase.ticketPrice());
+      const purchasers = [...buyers.map((b) => b.address), otherAccounts[5].address];
+      expect(await raffleTicketPurchase.refundPurchasers.staticCall(purchasers)).to.equal(2);
+
+      const tx = raffleTicketPurchase.refundPurchasers(purchasers);
+      await expect(tx).to.changeTokenBalances(purchaseToken, [...buyers, raffleTicketPurchase], [refundAmount, 0, refundAmount, -2n * refundAmount]);
+      await expect(tx).to.emit(raffleTicketPurchase, "RefundIssued").withArgs(0, buyers[0].address, refundAmount);
+
+      for (const buyer of buyers) {
+        expect(await raffleTicketPurchase.ticketsPurchased(buyer.address)).to.equal(0);
+      }
+      await expect(raffleTicketPurchase.connect(buyers[0]).claimRefund()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.refundNotAvailable);
+    });
+  });
+
+  describe("Revenue Split", function () {
+    async function deploySplitRaffleTicketPurchaseFixture() {
+      const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+      const recipients = otherAccounts.slice(10, 13);
+      const payouts = [
+        { recipient: recipients[0].address, shareBps: 3333 },
+        { recipient: recipients[1].address, shareBps: 3333 },
+        { recipient: recipients[2].address, shareBps: 3334 },
+      ];
+
+      const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+      const deployArgs = [0, await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap, "0x31", ZeroAddress, 0] as const;
+      const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [...deployArgs, payouts, ZeroAddress, OPEN_SALE, FLAT_PRICING, 0]);
+
+      return { raffleTicketPurchase, purchaseToken, owner, otherAccounts, recipients, payouts, deployArgs };
+    }
+
+    it("Should store the payouts", async function () {
+      const { raffleTicketPurchase, payouts } = await loadFixture(deploySplitRaffleTicketPurchaseFixture);
+
+      expect((await raffleTicketPurchase.getSaleOptions()).payouts.map(({ recipient, shareBps }) => ({ recipient, shareBps: Number(shareBps) }))).to.deep.equal(payouts);
+    });
+
+    it("Should fail deployment with invalid payouts", async function () {
+      const { raffleTicketPurchase, purchaseToken, recipients } = await loadFixture(deploySplitRaffleTicketPurchaseFixture);
+      const factory = await hre.ethers.getContractFactory("RaffleTicketPurchase");
+      const start = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 100;
+      const deployArgs = [0, await purchaseToken.getAddress(), ticketPrice, start, start + openSalePeriod, minCap, maxCap, personalMaxCap, "0x31", ZeroAddress, 0] as const;
+
+      const invalidPayouts = [
+        [{ recipient: recipients[0].address, shareBps: 9999 }],
+        [
+          { recipient: recipients[0].address, shareBps: 10_000 },
+          { recipient: recipients[1].address, shareBps: 0 },
+        ],
+        [{ recipient: ZeroAddress, shareBps: 10_000 }],
+        Array.from({ length: 11 }, (_, i) => ({ recipient: recipients[0].address, shareBps: i === 0 ? 9_000 : 100 })),
+      ];
+      for (const payouts of invalidPayouts) {
+        await expect(deployInitializedClone(factory, [...deployArgs, payouts, ZeroAddress, OPEN_SALE, FLAT_PRICING, 0])).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.invalidPayouts
+        );
+      }
+    });
+
+    it("Should split the funds between the recipients, the last one receiving the rounding dust", async function () {
+      const { raffleTicketPurchase, purchaseToken, owner, otherAccounts, recipients } = await loadFixture(deploySplitRaffleTicketPurchaseFixture);
+      await buyAllTickets(maxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      // Leave a revenue that does not split evenly
+      await purchaseToken.transfer(await raffleTicketPurchase.getAddress(), 1);
+      const balance = await purchaseToken.balanceOf(await raffleTicketPurchase.getAddress());
+
+      const first = (balance * 3333n) / 10_000n;
+      const last = balance - 2n * first;
+      expect(last).to.not.equal((balance * 3334n) / 10_000n);
+
+      const tx = raffleTicketPurchase.withdrawFunds(owner.address);
+      await expect(tx).to.changeTokenBalances(purchaseToken, [owner, ...recipients, raffleTicketPurchase], [0, first, first, last, -balance]);
+      for (const [i, recipient] of recipients.entries()) {
+        await expect(tx)
+          .to.emit(raffleTicketPurchase, "FundsWithdrawn")
+          .withArgs(0, recipient.address, i === recipients.length - 1 ? last : first);
+      }
+    });
+  });
+
+  describe("Pause", function () {
+    async function deployPausableRaffleTicketPurchaseFixture() {
+      const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+
+      const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+      const referralRegistry = await hre.ethers.deployContract("MockReferralRegistry");
+      await referralRegistry.setReferrer("refCode", otherAccounts[9].address);
+      const pauser = await hre.ethers.deployContract("MockRafflePauser");
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+
+      const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+        0,
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        "0x31",
+        await referralRegistry.getAddress(),
+        500,
+        [],
+        await pauser.getAddress(),
+        OPEN_SALE,
+        FLAT_PRICING,
+        0,
+      ]);
+
+      return { raffleTicketPurchase, purchaseToken, pauser, owner, referrer: otherAccounts[9], otherAccounts };
+    }
+
+    it("Should only be paused while its pauser reports the raffle paused", async function () {
+      const { raffleTicketPurchase, pauser } = await loadFixture(deployPausableRaffleTicketPurchaseFixture);
+
+      expect(await raffleTicketPurchase.isPaused()).to.be.false;
+      await pauser.setPaused(1, true);
+      expect(await raffleTicketPurchase.isPaused()).to.be.false;
+      await pauser.setPaused(0, true);
+      expect(await raffleTicketPurchase.isPaused()).to.be.true;
+    });
+
+    it("Should halt ticket purchases while paused", async function () {
+      const { raffleTicketPurchase, purchaseToken, pauser, otherAccounts } = await loadFixture(deployPausableRaffleTicketPurchaseFixture);
+      const buyer = otherAccounts[0];
+      const cost = 5n * (await raffleTicketPurchase.ticketPrice());
+      const deadline = BigInt((await time.latest()) + 3600);
+      await purchaseToken.transfer(buyer.address, cost);
+      await purchaseToken.connect(buyer).approve(await raffleTicketPurchase.getAddress(), cost);
+      await purchaseToken.connect(buyer).approve(PERMIT2_ADDRESS, cost);
+
+      const { v, r, s } = await signPermit(buyer, purchaseToken, await raffleTicketPurchase.getAddress(), cost, deadline);
+      const permit = { permitted: { token: await purchaseToken.getAddress(), amount: cost }, nonce: 0n, deadline };
+      const signature = await signPermit2Transfer(buyer, permit, await raffleTicketPurchase.getAddress());
+
+      await pauser.setPaused(0, true);
+      await expect(raffleTicketPurchase.connect(buyer).purchaseTickets(5, "")).to.be.revertedWithCustomError(raffleTicketPurchase, errors.rafflePaused);
+      await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit(5, "", deadline, v, r, s)).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.rafflePaused
+      );
+      await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit2(5, "", permit, signature)).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.rafflePaused
+      );
+
+      await pauser.setPaused(0, false);
+      await expect(raffleTicketPurchase.connect(buyer).purchaseTickets(5, "")).to.emit(raffleTicketPurchase, "TicketPurchased");
+    });
+
+    it("Should halt the withdrawal of the funds and referral fees while paused", async function () {
+      const { raffleTicketPurchase, purchaseToken, pauser, owner, referrer, otherAccounts } = await loadFixture(deployPausableRaffleTicketPurchaseFixture);
+      await buyAllTickets(maxCap - personalMaxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      await purchaseToken.transfer(otherAccounts[8].address, BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice()));
+      await purchaseToken.connect(otherAccounts[8]).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+      await raffleTicketPurchase.connect(otherAccounts[8]).purchaseTickets(personalMaxCap, "refCode");
+
+      await pauser.setPaused(0, true);
+      await expect(raffleTicketPurchase.withdrawFunds(owner.address)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.rafflePaused);
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.rafflePaused);
+
+      await pauser.setPaused(0, false);
+      await expect(raffleTicketPurchase.withdrawFunds(owner.address)).to.emit(raffleTicketPurchase, "FundsWithdrawn");
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees()).to.emit(raffleTicketPurchase, "ReferralFeesClaimed");
+    });
+
+    it("Should keep refunds available while paused", async function () {
+      const { raffleTicketPurchase, purchaseToken, pauser, otherAccounts } = await loadFixture(deployPausableRaffleTicketPurchaseFixture);
+      await buyAllTickets(3 * personalMaxCap, personalMaxCap, ticketPrice, purchaseToken, raffleTicketPurchase, otherAccounts);
+      const refund = BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice());
+
+      await pauser.setPaused(0, true);
+      await raffleTicketPurchase.cancel();
+
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).claimRefund()).to.changeTokenBalance(purchaseToken, otherAccounts[0], refund);
+      await expect(raffleTicketPurchase.refundPurchasers([otherAccounts[1].address, otherAccounts[2].address])).to.changeTokenBalances(
+        purchaseToken,
+        [otherAccounts[1], otherAccounts[2]],
+        [refund, refund]
+      );
+    });
+  });
+
+  describe("Ticket Ledger", function () {
+    let raffleTicketPurchase: RaffleTicketPurchase;
+    let purchaseToken: PurchaseToken;
+    let owner: HardhatEthersSigner;
+    let otherAccounts: HardhatEthersSigner[];
+
+    beforeEach(async function () {
+      ({ raffleTicketPurchase, purchaseToken, owner, otherAccounts } = await loadFixture(deployRaffleTicketPurchaseFixture));
+      await purchaseToken.connect(owner).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+      await purchaseToken.transfer(otherAccounts[0], parseUnits((BigInt(personalMaxCap) * ticketPrice).toString(), await purchaseToken.decimals()));
+      await purchaseToken.connect(otherAccounts[0]).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+
+      await raffleTicketPurchase.connect(owner).purchaseTickets(2, "refCode");
+      await raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(3, "refCode");
+      await raffleTicketPurchase.connect(owner).purchaseTickets(1, "refCode");
+    });
+
+    it("Should record every purchase with its cumulative ticket count", async function () {
+      expect(await raffleTicketPurchase.ticketLedgerLength()).to.equal(3);
+
+      const ledger = await Promise.all([0, 1, 2].map((i) => raffleTicketPurchase.ticketLedger(i)));
+      expect(ledger.map((entry) => [entry.purchaser, entry.cumulativeCount])).to.deep.equal([
+        [owner.address, 2n],
+        [otherAccounts[0].address, 5n],
+        [owner.address, 6n],
+      ]);
+    });
+
+    it("Should resolve the owner of every sold ticket", async function () {
+      const expectedOwners = [owner, owner, otherAccounts[0], otherAccounts[0], otherAccounts[0], owner].map((account) => account.address);
+
+      for (const [ticketIndex, expectedOwner] of expectedOwners.entries()) {
+        expect(await raffleTicketPurchase.ticketOwner(ticketIndex)).to.equal(expectedOwner);
+      }
+
+      await expect(raffleTicketPurchase.ticketOwner(expectedOwners.length)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidTicketIndex);
+    });
+
+    it("Should resolve the tickets of refunded purchasers to the zero address", async function () {
+      await time.increase(openSalePeriod + 100);
+      await raffleTicketPurchase.connect(otherAccounts[0]).claimRefund();
+
+      expect(await raffleTicketPurchase.ticketOwner(0)).to.equal(owner.address);
+      expect(await raffleTicketPurchase.ticketOwner(2)).to.equal(ZeroAddress);
+      expect(await raffleTicketPurchase.ticketOwner(5)).to.equal(owner.address);
+    });
+  });
+
+  describe("Referrals", function () {
+    const referralFeeBps = 500;
+
+    async function deployReferredRaffleTicketPurchaseFixture() {
+      const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+      const referrer = otherAccounts[9];
+
+      const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+      const referralRegistry = await hre.ethers.deployContract("MockReferralRegistry");
+      await referralRegistry.setReferrer("refCode", referrer.address);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+
+      const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+        0,
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        "0x31",
+        await referralRegistry.getAddress(),
+        referralFeeBps,
+        [],
+        ZeroAddress,
+        OPEN_SALE,
+        FLAT_PRICING,
+        0,
+      ]);
+
+      for (const account of otherAccounts.slice(0, maxCap / personalMaxCap)) {
+        await purchaseToken.transfer(account.address, BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice()));
+        await purchaseToken.connect(account).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+      }
+
+      return { raffleTicketPurchase, purchaseToken, referralRegistry, owner, referrer, otherAccounts };
+    }
+
+    it("Should fail deployment with a referral fee above 100%", async function () {
+      const { raffleTicketPurchase, purchaseToken, referralRegistry } = await loadFixture(deployReferredRaffleTicketPurchaseFixture);
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+      const args = [await purchaseToken.getAddress(), ticketPrice, now, now + openSalePeriod, minCap, maxCap, personalMaxCap, "0x31"] as const;
+      await expect(
+        hre.ethers
+          .getContractFactory("RaffleTicketPurchase")
+          .then((f) => deployInitializedClone(f, [0, ...args, referralRegistry.getAddress(), 10_001, [], ZeroAddress, OPEN_SALE, FLAT_PRICING, 0]))
+      ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidReferralFee);
+    });
+
+    it("Should count the tickets purchased with a registered referral code for its referrer", async function () {
+      const { raffleTicketPurchase, referrer, otherAccounts } = await loadFixture(deployReferredRaffleTicketPurchaseFixture);
+
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(3, "refCode"))
+        .to.emit(raffleTicketPurchase, "TicketPurchased")
+        .withArgs(0, otherAccounts[0].address, referrer.address, "refCode", 3);
+      await raffleTicketPurchase.connect(otherAccounts[1]).purchaseTickets(2, "refCode");
+
+      expect((await raffleTicketPurchase.accounts(referrer.address)).referredTickets).to.equal(5);
+      expect((await raffleTicketPurchase.referrals()).totalTickets).to.equal(5);
+    });
+
+    it("Should not count purchases with an unregistered code or referring the purchaser", async function () {
+      const { raffleTicketPurchase, referralRegistry, otherAccounts } = await loadFixture(deployReferredRaffleTicketPurchaseFixture);
+      await referralRegistry.setReferrer("selfCode", otherAccounts[0].address);
+
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(3, "unknownCode"))
+        .to.emit(raffleTicketPurchase, "TicketPurchased")
+        .withArgs(0, otherAccounts[0].address, ZeroAddress, "unknownCode", 3);
+      await raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(2, "selfCode");
+
+      expect((await raffleTicketPurchase.accounts(otherAccounts[0].address)).referredTickets).to.equal(0);
+      expect((await raffleTicketPurchase.referrals()).totalTickets).to.equal(0);
+    });
+
+    it("Should pay the referral fees once the raffle is successful", async function () {
+      const { raffleTicketPurchase, purchaseToken, referrer, otherAccounts } = await loadFixture(deployReferredRaffleTicketPurchaseFixture);
+      await raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(personalMaxCap, "refCode");
+
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.raffleNotSuccessful);
+
+      await raffleTicketPurchase.connect(otherAccounts[1]).purchaseTickets(personalMaxCap, "");
+      await time.increase(openSalePeriod + 100);
+
+      const fees = (BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice()) * BigInt(referralFeeBps)) / 10_000n;
+      expect(await raffleTicketPurchase.referralFeesOf(referrer.address)).to.equal(fees);
+
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees())
+        .to.emit(raffleTicketPurchase, "ReferralFeesClaimed")
+        .withArgs(0, referrer.address, fees);
+      expect(await purchaseToken.balanceOf(referrer.address)).to.equal(fees);
+
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.noReferralFees);
+      await expect(raffleTicketPurchase.connect(otherAccounts[1]).claimReferralFees()).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.noReferralFees
+      );
+    });
+
+    it("Should keep the unclaimed referral fees when the funds are withdrawn", async function () {
+      const { raffleTicketPurchase, purchaseToken, owner, referrer, otherAccounts } = await loadFixture(deployReferredRaffleTicketPurchaseFixture);
+      for (const account of otherAccounts.slice(0, maxCap / personalMaxCap)) {
+        await raffleTicketPurchase.connect(account).purchaseTickets(personalMaxCap, "refCode");
+      }
+
+      const revenue = BigInt(maxCap) * (await raffleTicketPurchase.ticketPrice());
+      const fees = await raffleTicketPurchase.referralFeesOf(referrer.address);
+      expect(fees).to.equal((revenue * BigInt(referralFeeBps)) / 10_000n);
+
+      await expect(raffleTicketPurchase.withdrawFunds(owner.address)).to.changeTokenBalances(purchaseToken, [owner, raffleTicketPurchase], [revenue - fees, fees - revenue]);
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees()).to.changeTokenBalances(purchaseToken, [referrer, raffleTicketPurchase], [fees, -fees]);
+    });
+
+    it("Should not cancel once referral fees are claimed, which would leave the last refunds uncovered", async function () {
+      const { raffleTicketPurchase, purchaseToken, owner, referrer, otherAccounts } = await loadFixture(deployReferredRaffleTicketPurchaseFixture);
+      const purchasers = otherAccounts.slice(0, maxCap / personalMaxCap);
+      for (const account of purchasers) {
+        await raffleTicketPurchase.connect(account).purchaseTickets(personalMaxCap, "refCode");
+      }
+
+      await raffleTicketPurchase.connect(referrer).claimReferralFees();
+      await expect(raffleTicketPurchase.cancel()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.referralFeesAlreadyClaimed);
+      await expect(raffleTicketPurchase.refundPurchasers(purchasers.map((account) => account.address))).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.raffleNotFailed
+      );
+
+      // The sale goes on to its withdrawal instead, the claimed fees being kept out of the revenue
+      const revenue = BigInt(maxCap) * (await raffleTicketPurchase.ticketPrice());
+      const fees = (revenue * BigInt(referralFeeBps)) / 10_000n;
+      await expect(raffleTicketPurchase.withdrawFunds(owner.address)).to.changeTokenBalance(purchaseToken, owner, revenue - fees);
+    });
+
+    it("Should refund every purchaser in full when canceled before any referral fee is claimed", async function () {
+      const { raffleTicketPurchase, purchaseToken, referrer, otherAccounts } = await loadFixture(deployReferredRaffleTicketPurchaseFixture);
+      const purchasers = otherAccounts.slice(0, maxCap / personalMaxCap);
+      for (const account of purchasers) {
+        await raffleTicketPurchase.connect(account).purchaseTickets(personalMaxCap, "refCode");
+      }
+
+      await raffleTicketPurchase.cancel();
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.raffleNotSuccessful);
+      await raffleTicketPurchase.refundPurchasers(purchasers.map((account) => account.address));
+
+      expect((await raffleTicketPurchase.sale()).totalPaid).to.equal(0);
+      expect(await purchaseToken.balanceOf(await raffleTicketPurchase.getAddress())).to.equal(0);
+    });
+  });
+
   describe("Token Recovery and Management", function () {
     let raffleTicketPurchase: RaffleTicketPurchase;
     let owner: HardhatEthersSigner;
@@ -383,6 +965,807 @@ describe("RaffleTicketPurchase", function () {
     });
   });
 
+  describe("Permit Purchases", function () {
+    let raffleTicketPurchase: RaffleTicketPurchase;
+    let purchaseToken: PurchaseToken;
+    let buyer: HardhatEthersSigner;
+    let otherAccounts: HardhatEthersSigner[];
+    let cost: bigint;
+    let deadline: bigint;
+
+    beforeEach(async function () {
+      ({ raffleTicketPurchase, purchaseToken, otherAccounts } = await loadFixture(deployRaffleTicketPurchaseFixture));
+      buyer = otherAccounts[0];
+      cost = 5n * (await raffleTicketPurchase.ticketPrice());
+      deadline = BigInt((await time.latest()) + 3600);
+      await purchaseToken.transfer(buyer.address, cost);
+    });
+
+    describe("EIP-2612", function () {
+      it("Should purchase tickets with a permit instead of an approval", async function () {
+        const { v, r, s } = await signPermit(buyer, purchaseToken, await raffleTicketPurchase.getAddress(), cost, deadline);
+
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit(5, ZeroAddress, deadline, v, r, s)).to.changeTokenBalances(
+          purchaseToken,
+          [buyer, raffleTicketPurchase],
+          [-cost, cost]
+        );
+        expect(await raffleTicketPurchase.ticketsPurchased(buyer.address)).to.equal(5);
+        expect(await purchaseToken.allowance(buyer.address, await raffleTicketPurchase.getAddress())).to.equal(0);
+      });
+
+      it("Should purchase tickets when the permit was front-run", async function () {
+        const spender = await raffleTicketPurchase.getAddress();
+        const { v, r, s } = await signPermit(buyer, purchaseToken, spender, cost, deadline);
+        await purchaseToken.connect(otherAccounts[1]).permit(buyer.address, spender, cost, deadline, v, r, s);
+
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit(5, ZeroAddress, deadline, v, r, s)).to.emit(
+          raffleTicketPurchase,
+          "TicketPurchased"
+        );
+      });
+
+      it("Should revert if the permit does not cover the total cost", async function () {
+        const { v, r, s } = await signPermit(buyer, purchaseToken, await raffleTicketPurchase.getAddress(), cost - 1n, deadline);
+
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit(5, ZeroAddress, deadline, v, r, s)).to.be.revertedWithCustomError(
+          purchaseToken,
+          "ERC20InsufficientAllowance"
+        );
+      });
+
+      it("Should revert for a native currency raffle", async function () {
+        const now = (await time.latest()) + 3;
+        const nativeRaffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+          0,
+          NATIVE_CURRENCY,
+          1,
+          now,
+          now + openSalePeriod,
+          minCap,
+          maxCap,
+          personalMaxCap,
+          "0x31",
+          ZeroAddress,
+          0,
+          [],
+          ZeroAddress,
+          OPEN_SALE,
+          FLAT_PRICING,
+          0,
+        ]);
+        const { v, r, s } = await signPermit(buyer, purchaseToken, await nativeRaffleTicketPurchase.getAddress(), cost, deadline);
+
+        await expect(nativeRaffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit(5, ZeroAddress, deadline, v, r, s)).to.be.revertedWithCustomError(
+          nativeRaffleTicketPurchase,
+          errors.invalidTokenAddress
+        );
+      });
+    });
+
+    describe("Permit2", function () {
+      let permit2: MockPermit2;
+
+      beforeEach(async function () {
+        const mockPermit2 = await hre.ethers.deployContract("MockPermit2");
+        await setCode(PERMIT2_ADDRESS, await hre.ethers.provider.getCode(await mockPermit2.getAddress()));
+        permit2 = await hre.ethers.getContractAt("MockPermit2", PERMIT2_ADDRESS);
+        await purchaseToken.connect(buyer).approve(PERMIT2_ADDRESS, MaxUint256);
+      });
+
+      it("Should purchase tickets with a Permit2 signature transfer", async function () {
+        const permit = { permitted: { token: await purchaseToken.getAddress(), amount: cost }, nonce: 0n, deadline };
+        const signature = await signPermit2Transfer(buyer, permit, await raffleTicketPurchase.getAddress());
+
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit2(5, ZeroAddress, permit, signature)).to.changeTokenBalances(
+          purchaseToken,
+          [buyer, raffleTicketPurchase],
+          [-cost, cost]
+        );
+        expect(await raffleTicketPurchase.ticketsPurchased(buyer.address)).to.equal(5);
+      });
+
+      it("Should revert if the signature is replayed", async function () {
+        const permit = { permitted: { token: await purchaseToken.getAddress(), amount: cost }, nonce: 7n, deadline };
+        const signature = await signPermit2Transfer(buyer, permit, await raffleTicketPurchase.getAddress());
+
+        await raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit2(1, ZeroAddress, permit, signature);
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit2(1, ZeroAddress, permit, signature)).to.be.revertedWithCustomError(
+          permit2,
+          "InvalidNonce"
+        );
+      });
+
+      it("Should revert if the permitted amount does not cover the total cost", async function () {
+        const permit = { permitted: { token: await purchaseToken.getAddress(), amount: cost - 1n }, nonce: 0n, deadline };
+        const signature = await signPermit2Transfer(buyer, permit, await raffleTicketPurchase.getAddress());
+
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit2(5, ZeroAddress, permit, signature)).to.be.revertedWithCustomError(
+          permit2,
+          "InvalidAmount"
+        );
+      });
+
+      it("Should revert if the permit was signed for another spender", async function () {
+        const permit = { permitted: { token: await purchaseToken.getAddress(), amount: cost }, nonce: 0n, deadline };
+        const signature = await signPermit2Transfer(buyer, permit, otherAccounts[1].address);
+
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit2(5, ZeroAddress, permit, signature)).to.be.revertedWithCustomError(
+          permit2,
+          "InvalidSigner"
+        );
+      });
+
+      it("Should revert if the permitted token is not the purchase token", async function () {
+        const otherToken = await hre.ethers.deployContract("PurchaseToken");
+        const permit = { permitted: { token: await otherToken.getAddress(), amount: cost }, nonce: 0n, deadline };
+        const signature = await signPermit2Transfer(buyer, permit, await raffleTicketPurchase.getAddress());
+
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTicketsWithPermit2(5, ZeroAddress, permit, signature)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.invalidTokenAddress
+        );
+      });
+    });
+  });
+
+  describe("Native Currency", function () {
+    const nativeTicketPrice = 1;
+
+    async function deployNativeRaffleTicketPurchaseFixture() {
+      const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+
+      const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+        0,
+        NATIVE_CURRENCY,
+        nativeTicketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        "0x31",
+        ZeroAddress,
+        0,
+        [],
+        ZeroAddress,
+        OPEN_SALE,
+        FLAT_PRICING,
+        0,
+      ]);
+
+      return { raffleTicketPurchase, owner, otherAccounts };
+    }
+
+    it("Should price the tickets with 18 decimals", async function () {
+      const { raffleTicketPurchase } = await loadFixture(deployNativeRaffleTicketPurchaseFixture);
+
+      expect(await raffleTicketPurchase.purchaseToken()).to.equal(NATIVE_CURRENCY);
+      expect(await raffleTicketPurchase.isNativeCurrency()).to.be.true;
+      expect(await raffleTicketPurchase.ticketPrice()).to.equal(parseEther(nativeTicketPrice.toString()));
+    });
+
+    it("Should purchase tickets paid with the exact native amount", async function () {
+      const { raffleTicketPurchase, owner } = await loadFixture(deployNativeRaffleTicketPurchaseFixture);
+      const cost = 5n * (await raffleTicketPurchase.ticketPrice());
+
+      await expect(raffleTicketPurchase.purchaseTickets(5, ZeroAddress, { value: cost })).to.changeEtherBalances([owner, raffleTicketPurchase], [-cost, cost]);
+      expect(await raffleTicketPurchase.ticketsPurchased(owner.address)).to.equal(5);
+    });
+
+    it("Should revert if the native amount does not match the total cost", async function () {
+      const { raffleTicketPurchase } = await loadFixture(deployNativeRaffleTicketPurchaseFixture);
+      const cost = 5n * (await raffleTicketPurchase.ticketPrice());
+
+      await expect(raffleTicketPurchase.purchaseTickets(5, ZeroAddress, { value: cost - 1n })).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.incorrectPaymentAmount
+      );
+      await expect(raffleTicketPurchase.purchaseTickets(5, ZeroAddress, { value: cost + 1n })).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.incorrectPaymentAmount
+      );
+    });
+
+    it("Should revert if native currency is sent to an ERC20 raffle", async function () {
+      const { raffleTicketPurchase, purchaseToken, owner } = await loadFixture(deployRaffleTicketPurchaseFixture);
+      await purchaseToken.connect(owner).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+
+      await expect(raffleTicketPurchase.purchaseTickets(1, ZeroAddress, { value: 1 })).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.incorrectPaymentAmount
+      );
+    });
+
+    it("Should withdraw the native funds of a successful raffle", async function () {
+      const { raffleTicketPurchase, owner, otherAccounts } = await loadFixture(deployNativeRaffleTicketPurchaseFixture);
+      await buyAllTicketsWithNativeCurrency(maxCap, personalMaxCap, raffleTicketPurchase, otherAccounts);
+      const funds = BigInt(maxCap) * (await raffleTicketPurchase.ticketPrice());
+
+      await expect(raffleTicketPurchase.connect(owner).withdrawFunds(otherAccounts[0].address)).to.changeEtherBalances(
+        [otherAccounts[0], raffleTicketPurchase],
+        [funds, -funds]
+      );
+    });
+
+    it("Should refund the native amount of a failed raffle", async function () {
+      const { raffleTicketPurchase, otherAccounts } = await loadFixture(deployNativeRaffleTicketPurchaseFixture);
+      const refundAmount = 5n * (await raffleTicketPurchase.ticketPrice());
+      await raffleTicketPurchase.connect(otherAccounts[0]).purchaseTickets(5, ZeroAddress, { value: refundAmount });
+
+      await time.increase(openSalePeriod + 100);
+
+      await expect(raffleTicketPurchase.connect(otherAccounts[0]).claimRefund()).to.changeEtherBalances(
+        [otherAccounts[0], raffleTicketPurchase],
+        [refundAmount, -refundAmount]
+      );
+    });
+
+    it("Should only withdraw the native currency in excess of the tickets sold", async function () {
+      const { raffleTicketPurchase, owner } = await loadFixture(deployNativeRaffleTicketPurchaseFixture);
+      const cost = 5n * (await raffleTicketPurchase.ticketPrice());
+      await raffleTicketPurchase.purchaseTickets(5, ZeroAddress, { value: cost });
+
+      await expect(raffleTicketPurchase.withdrawExcessTokens(NATIVE_CURRENCY, 1, owner.address)).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.noExcessPurchaseToken
+      );
+
+      // Native currency can be forced into the contract, e.g. with selfdestruct
+      const excess = parseEther("2");
+      await setBalance(await raffleTicketPurchase.getAddress(), cost + excess);
+
+      await expect(raffleTicketPurchase.withdrawExcessTokens(NATIVE_CURRENCY, excess + 1n, owner.address)).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.withdrawAmountExceedsLimit
+      );
+      await expect(raffleTicketPurchase.withdrawExcessTokens(NATIVE_CURRENCY, excess, owner.address)).to.changeEtherBalances(
+        [owner, raffleTicketPurchase],
+        [excess, -excess]
+      );
+    });
+  });
+
+  describe("Purchase Gate", function () {
+    async function deployGateFixture() {
+      const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+      const [allowed, capped, outsider, signer] = otherAccounts;
+
+      const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+      const nft = await hre.ethers.deployContract("NftPrize");
+      for (const account of [allowed, capped, outsider]) {
+        await purchaseToken.transfer(account.address, parseUnits("100000", await purchaseToken.decimals()));
+      }
+
+      const allowlist = [
+        { addr: allowed.address, maxTickets: 0n },
+        { addr: capped.address, maxTickets: BigInt(personalMaxCap) + 50n },
+        { addr: otherAccounts[10].address, maxTickets: 0n },
+      ];
+      const allowlistTree = makeAllowlistMerkleTree(allowlist);
+
+      return { purchaseToken, nft, owner, allowed, capped, outsider, signer, allowlist, allowlistTree };
+    }
+
+    const deployGatedRaffleTicketPurchase = async (purchaseToken: PurchaseToken, gate: PurchaseGate, purchasers: HardhatEthersSigner[]) => {
+      const now = (await time.latest()) + 3;
+      const args = [
+        0,
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        "0x31",
+        ZeroAddress,
+        0,
+        [],
+        ZeroAddress,
+      ];
+      const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [...args, gate, FLAT_PRICING, 0]);
+      for (const purchaser of purchasers) {
+        await purchaseToken.connect(purchaser).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+      }
+      return raffleTicketPurchase;
+    };
+
+    it("Should fail deployment with a gate missing the field of its type", async function () {
+      const { purchaseToken, nft } = await loadFixture(deployGateFixture);
+      const invalidGates = [
+        allowlistGate(ZeroHash),
+        tokenHoldingGate(ZeroAddress, 1n),
+        tokenHoldingGate(await nft.getAddress(), 0n),
+        signatureGate(ZeroAddress),
+      ];
+
+      for (const gate of invalidGates) {
+        await expect(deployGatedRaffleTicketPurchase(purchaseToken, gate, [])).to.be.revertedWithCustomError(
+          await hre.ethers.getContractFactory("RaffleTicketPurchase"),
+          errors.invalidPurchaseGate
+        );
+      }
+    });
+
+    it("Should not accept gate proofs for a raffle without an allowlist or signature gate", async function () {
+      const { purchaseToken, nft, allowed } = await loadFixture(deployGateFixture);
+
+      for (const gate of [OPEN_SALE, tokenHoldingGate(await nft.getAddress(), 1n)]) {
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, gate, []);
+        await expect(raffleTicketPurchase.connect(allowed).submitGateProof("0x")).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidGateProof);
+      }
+    });
+
+    describe("Allowlist", function () {
+      it("Should only sell tickets to the allowlisted addresses", async function () {
+        const { purchaseToken, allowed, outsider, allowlist, allowlistTree } = await loadFixture(deployGateFixture);
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, allowlistGate(allowlistTree.root), [allowed, outsider]);
+
+        await expect(raffleTicketPurchase.connect(allowed).purchaseTickets(1, ZeroAddress)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.purchaseNotAllowed
+        );
+
+        const gateProof = makeAllowlistGateProof(allowlistTree, allowlist, allowed.address);
+        await expect(raffleTicketPurchase.connect(allowed).purchaseTicketsWithGateProof(2, ZeroAddress, gateProof))
+          .to.emit(raffleTicketPurchase, "PurchaserApproved")
+          .withArgs(0, allowed.address, personalMaxCap);
+        expect(await raffleTicketPurchase.isPurchaseAllowed(allowed.address)).to.be.true;
+
+        // The approval is recorded, later purchases need no proof
+        await raffleTicketPurchase.connect(allowed).purchaseTickets(3, ZeroAddress);
+        expect(await raffleTicketPurchase.ticketsPurchased(allowed.address)).to.equal(5);
+
+        // The proof of an allowlisted address does not approve another caller
+        await expect(raffleTicketPurchase.connect(outsider).purchaseTicketsWithGateProof(1, ZeroAddress, gateProof)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.invalidGateProof
+        );
+        expect(await raffleTicketPurchase.isPurchaseAllowed(outsider.address)).to.be.false;
+      });
+
+      it("Should apply the personal cap of the allowlist entry", async function () {
+        const { purchaseToken, allowed, capped, allowlist, allowlistTree } = await loadFixture(deployGateFixture);
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, allowlistGate(allowlistTree.root), [allowed, capped]);
+
+        await raffleTicketPurchase.connect(capped).submitGateProof(makeAllowlistGateProof(allowlistTree, allowlist, capped.address));
+        expect(await raffleTicketPurchase.personalMaxTicketsOf(capped.address)).to.equal(personalMaxCap + 50);
+        await raffleTicketPurchase.connect(capped).purchaseTickets(personalMaxCap + 50, ZeroAddress);
+        await expect(raffleTicketPurchase.connect(capped).purchaseTickets(1, ZeroAddress)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.personalMaxCapReached
+        );
+
+        await raffleTicketPurchase.connect(allowed).submitGateProof(makeAllowlistGateProof(allowlistTree, allowlist, allowed.address));
+        await expect(raffleTicketPurchase.connect(allowed).purchaseTickets(personalMaxCap + 1, ZeroAddress)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.personalMaxCapReached
+        );
+      });
+
+      it("Should reject a proof claiming another personal cap", async function () {
+        const { purchaseToken, allowed, allowlist, allowlistTree } = await loadFixture(deployGateFixture);
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, allowlistGate(allowlistTree.root), [allowed]);
+
+        const tamperedAllowlist = allowlist.map((entry) => (entry.addr === allowed.address ? { ...entry, maxTickets: BigInt(maxCap) } : entry));
+        const gateProof = makeAllowlistGateProof(allowlistTree, tamperedAllowlist, allowed.address);
+        await expect(raffleTicketPurchase.connect(allowed).submitGateProof(gateProof)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.invalidGateProof
+        );
+      });
+    });
+
+    describe("Token Holding", function () {
+      it("Should only sell tickets to the holders of enough ERC20 tokens", async function () {
+        const { purchaseToken, allowed, outsider } = await loadFixture(deployGateFixture);
+        const gateToken = await hre.ethers.deployContract("PurchaseToken");
+        await gateToken.transfer(allowed.address, 1000n);
+        await gateToken.transfer(outsider.address, 999n);
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, tokenHoldingGate(await gateToken.getAddress(), 1000n), [
+          allowed,
+          outsider,
+        ]);
+
+        await raffleTicketPurchase.connect(allowed).purchaseTickets(1, ZeroAddress);
+        await expect(raffleTicketPurchase.connect(outsider).purchaseTickets(1, ZeroAddress)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.purchaseNotAllowed
+        );
+
+        // The holding is checked at each purchase
+        await gateToken.connect(allowed).transfer(outsider.address, 1n);
+        await raffleTicketPurchase.connect(outsider).purchaseTickets(1, ZeroAddress);
+        await expect(raffleTicketPurchase.connect(allowed).purchaseTickets(1, ZeroAddress)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.purchaseNotAllowed
+        );
+        expect(await raffleTicketPurchase.ticketsPurchased(allowed.address)).to.equal(1);
+      });
+
+      it("Should only sell tickets to the holders of an ERC721 token", async function () {
+        const { purchaseToken, nft, owner, allowed, outsider } = await loadFixture(deployGateFixture);
+        await nft.transferFrom(owner.address, allowed.address, 1);
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, tokenHoldingGate(await nft.getAddress(), 1n), [allowed, outsider]);
+
+        expect(await raffleTicketPurchase.isPurchaseAllowed(allowed.address)).to.be.true;
+        expect(await raffleTicketPurchase.isPurchaseAllowed(outsider.address)).to.be.false;
+        await raffleTicketPurchase.connect(allowed).purchaseTickets(2, ZeroAddress);
+        await expect(raffleTicketPurchase.connect(outsider).purchaseTickets(2, ZeroAddress)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.purchaseNotAllowed
+        );
+      });
+    });
+
+    describe("Signature", function () {
+      it("Should sell tickets to the purchasers approved by the signer", async function () {
+        const { purchaseToken, allowed, capped, outsider, signer } = await loadFixture(deployGateFixture);
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, signatureGate(signer.address), [allowed, capped, outsider]);
+        const deadline = BigInt(await time.latest()) + 3600n;
+
+        await expect(raffleTicketPurchase.connect(outsider).purchaseTickets(1, ZeroAddress)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.purchaseNotAllowed
+        );
+
+        const gateProof = await signPurchaseApproval(signer, raffleTicketPurchase, allowed.address, 0n, deadline);
+        await expect(raffleTicketPurchase.connect(allowed).purchaseTicketsWithGateProof(3, ZeroAddress, gateProof))
+          .to.emit(raffleTicketPurchase, "PurchaserApproved")
+          .withArgs(0, allowed.address, personalMaxCap);
+        expect(await raffleTicketPurchase.ticketsPurchased(allowed.address)).to.equal(3);
+
+        const cappedProof = await signPurchaseApproval(signer, raffleTicketPurchase, capped.address, 5n, deadline);
+        await raffleTicketPurchase.connect(capped).submitGateProof(cappedProof);
+        await raffleTicketPurchase.connect(capped).purchaseTickets(5, ZeroAddress);
+        await expect(raffleTicketPurchase.connect(capped).purchaseTickets(1, ZeroAddress)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.personalMaxCapReached
+        );
+      });
+
+      it("Should reject approvals signed by another signer, for another purchaser or expired", async function () {
+        const { purchaseToken, allowed, outsider, signer } = await loadFixture(deployGateFixture);
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, signatureGate(signer.address), [allowed]);
+        const deadline = BigInt(await time.latest()) + 3600n;
+
+        const proofs = [
+          await signPurchaseApproval(outsider, raffleTicketPurchase, allowed.address, 0n, deadline),
+          await signPurchaseApproval(signer, raffleTicketPurchase, outsider.address, 0n, deadline),
+          AbiCoder.defaultAbiCoder().encode(["uint256", "uint256", "bytes"], [0n, deadline, "0x1234"]),
+        ];
+        for (const gateProof of proofs) {
+          await expect(raffleTicketPurchase.connect(allowed).submitGateProof(gateProof)).to.be.revertedWithCustomError(
+            raffleTicketPurchase,
+            errors.invalidGateProof
+          );
+        }
+
+        const expiringProof = await signPurchaseApproval(signer, raffleTicketPurchase, allowed.address, 0n, deadline);
+        await time.increaseTo(deadline + 1n);
+        await expect(raffleTicketPurchase.connect(allowed).submitGateProof(expiringProof)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.invalidGateProof
+        );
+      });
+
+      it("Should reject an approval signed for another raffle", async function () {
+        const { purchaseToken, allowed, signer } = await loadFixture(deployGateFixture);
+        const raffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, signatureGate(signer.address), [allowed]);
+        const otherRaffleTicketPurchase = await deployGatedRaffleTicketPurchase(purchaseToken, signatureGate(signer.address), [allowed]);
+        const deadline = BigInt(await time.latest()) + 3600n;
+
+        const gateProof = await signPurchaseApproval(signer, otherRaffleTicketPurchase, allowed.address, 0n, deadline);
+        await expect(raffleTicketPurchase.connect(allowed).submitGateProof(gateProof)).to.be.revertedWithCustomError(
+          raffleTicketPurchase,
+          errors.invalidGateProof
+        );
+      });
+    });
+  });
+
+  describe("Pricing", function () {
+    const referralFeeBps = 500n;
+
+    async function deployPricingFixture() {
+      const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+      const [buyer, otherBuyer, referrer] = otherAccounts;
+
+      const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+      const referralRegistry = await hre.ethers.deployContract("MockReferralRegistry");
+      await referralRegistry.setReferrer("refCode", referrer.address);
+      for (const account of [buyer, otherBuyer]) {
+        await purchaseToken.transfer(account.address, parseUnits("100000", await purchaseToken.decimals()));
+      }
+
+      return { purchaseToken, referralRegistry, owner, buyer, otherBuyer, referrer };
+    }
+
+    const deployPricedRaffleTicketPurchase = async (
+      purchaseToken: PurchaseToken,
+      pricing: Pricing,
+      purchasers: HardhatEthersSigner[],
+      referralRegistry = ZeroAddress
+    ) => {
+      const now = (await time.latest()) + 3;
+      const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+        0,
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        "0x31",
+        referralRegistry,
+        referralFeeBps,
+        [],
+        ZeroAddress,
+        OPEN_SALE,
+        pricing,
+        0,
+      ]);
+      for (const purchaser of purchasers) {
+        await purchaseToken.connect(purchaser).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+      }
+      return raffleTicketPurchase;
+    };
+
+    const priceWindow = (endTimestamp: number, discountBps: bigint) => ({ endTimestamp: BigInt(endTimestamp), discountBps });
+    const discountTier = (minTickets: bigint, discountBps: bigint) => ({ minTickets, discountBps });
+
+    it("Should fail deployment with unsorted, too many or free pricing steps", async function () {
+      const { purchaseToken } = await loadFixture(deployPricingFixture);
+      const now = await time.latest();
+      const invalidPricings: Pricing[] = [
+        { priceWindows: [priceWindow(now + 200, 1_000n), priceWindow(now + 100, 500n)], discountTiers: [] },
+        { priceWindows: [priceWindow(now + 100, 1_000n), priceWindow(now + 100, 500n)], discountTiers: [] },
+        { priceWindows: [priceWindow(now + 100, 10_000n)], discountTiers: [] },
+        { priceWindows: [], discountTiers: [discountTier(0n, 1_000n)] },
+        { priceWindows: [], discountTiers: [discountTier(50n, 2_000n), discountTier(10n, 1_000n)] },
+        { priceWindows: [], discountTiers: [discountTier(10n, 10_000n)] },
+        { priceWindows: Array.from({ length: 11 }, (_, i) => priceWindow(now + 100 + i, 100n)), discountTiers: [] },
+      ];
+
+      for (const pricing of invalidPricings) {
+        await expect(deployPricedRaffleTicketPurchase(purchaseToken, pricing, [])).to.be.revertedWithCustomError(
+          await hre.ethers.getContractFactory("RaffleTicketPurchase"),
+          errors.invalidPricing
+        );
+      }
+    });
+
+    it("Should decay the discount of the early-bird price windows over time", async function () {
+      const { purchaseToken, buyer } = await loadFixture(deployPricingFixture);
+      const now = await time.latest();
+      const pricing = { priceWindows: [priceWindow(now + 100, 3_000n), priceWindow(now + 200, 1_000n)], discountTiers: [] };
+      const raffleTicketPurchase = await deployPricedRaffleTicketPurchase(purchaseToken, pricing, [buyer]);
+      const fullPrice = await raffleTicketPurchase.ticketPrice();
+
+      for (const [timestamp, price] of [
+        [now + 99, applyDiscount(fullPrice, 3_000n)],
+        [now + 199, applyDiscount(fullPrice, 1_000n)],
+        [now + 200, fullPrice],
+      ] as const) {
+        await time.setNextBlockTimestamp(timestamp);
+        await expect(raffleTicketPurchase.connect(buyer).purchaseTickets(2, ZeroAddress)).to.changeTokenBalance(purchaseToken, buyer, -2n * price);
+        expect(await raffleTicketPurchase.quote(buyer.address, 2)).to.equal(2n * price);
+      }
+    });
+
+    it("Should discount the purchases reaching a volume tier, counting the tickets already purchased", async function () {
+      const { purchaseToken, buyer, otherBuyer } = await loadFixture(deployPricingFixture);
+      const pricing = { priceWindows: [], discountTiers: [discountTier(10n, 1_000n), discountTier(50n, 2_500n)] };
+      const raffleTicketPurchase = await deployPricedRaffleTicketPurchase(purchaseToken, pricing, [buyer, otherBuyer]);
+      const fullPrice = await raffleTicketPurchase.ticketPrice();
+
+      expect((await raffleTicketPurchase.getSaleOptions()).pricing.discountTiers).to.deep.equal([
+        [10n, 1_000n],
+        [50n, 2_500n],
+      ]);
+      expect(await raffleTicketPurchase.quote(buyer.address, 9)).to.equal(9n * fullPrice);
+      await expect(raffleTicketPurchase.connect(buyer).purchaseTickets(9, ZeroAddress)).to.changeTokenBalance(purchaseToken, buyer, -9n * fullPrice);
+      await expect(raffleTicketPurchase.connect(buyer).purchaseTickets(1, ZeroAddress)).to.changeTokenBalance(
+        purchaseToken,
+        buyer,
+        -applyDiscount(fullPrice, 1_000n)
+      );
+      await expect(raffleTicketPurchase.connect(buyer).purchaseTickets(40, ZeroAddress)).to.changeTokenBalance(
+        purchaseToken,
+        buyer,
+        -40n * applyDiscount(fullPrice, 2_500n)
+      );
+      await expect(raffleTicketPurchase.connect(otherBuyer).purchaseTickets(50, ZeroAddress)).to.changeTokenBalance(
+        purchaseToken,
+        otherBuyer,
+        -50n * applyDiscount(fullPrice, 2_500n)
+      );
+    });
+
+    it("Should compound the discounts of the current price window and of the tier reached", async function () {
+      const { purchaseToken, buyer } = await loadFixture(deployPricingFixture);
+      const now = await time.latest();
+      const pricing = { priceWindows: [priceWindow(now + 100, 2_000n)], discountTiers: [discountTier(10n, 1_000n)] };
+      const raffleTicketPurchase = await deployPricedRaffleTicketPurchase(purchaseToken, pricing, [buyer]);
+      const fullPrice = await raffleTicketPurchase.ticketPrice();
+
+      const price = applyDiscount(applyDiscount(fullPrice, 2_000n), 1_000n);
+      await expect(raffleTicketPurchase.connect(buyer).purchaseTickets(10, ZeroAddress)).to.changeTokenBalance(purchaseToken, buyer, -10n * price);
+    });
+
+    it("Should refund the purchasers what they paid and only let the excess of the amount paid be withdrawn", async function () {
+      const { purchaseToken, owner, buyer, otherBuyer } = await loadFixture(deployPricingFixture);
+      const now = await time.latest();
+      const pricing = { priceWindows: [priceWindow(now + 100, 2_000n)], discountTiers: [discountTier(10n, 1_000n)] };
+      const raffleTicketPurchase = await deployPricedRaffleTicketPurchase(purchaseToken, pricing, [buyer, otherBuyer]);
+      const fullPrice = await raffleTicketPurchase.ticketPrice();
+
+      await raffleTicketPurchase.connect(buyer).purchaseTickets(5, ZeroAddress);
+      await raffleTicketPurchase.connect(buyer).purchaseTickets(5, ZeroAddress);
+      await time.increaseTo(now + 100);
+      await raffleTicketPurchase.connect(otherBuyer).purchaseTickets(3, ZeroAddress);
+
+      const buyerPaid = 5n * applyDiscount(fullPrice, 2_000n) + 5n * applyDiscount(applyDiscount(fullPrice, 2_000n), 1_000n);
+      expect((await raffleTicketPurchase.accounts(buyer.address)).amountPaid).to.equal(buyerPaid);
+      expect((await raffleTicketPurchase.sale()).totalPaid).to.equal(buyerPaid + 3n * fullPrice);
+
+      const excess = 7n;
+      await purchaseToken.transfer(await raffleTicketPurchase.getAddress(), excess);
+      await expect(
+        raffleTicketPurchase.withdrawExcessTokens(await purchaseToken.getAddress(), excess + 1n, owner.address)
+      ).to.be.revertedWithCustomError(raffleTicketPurchase, errors.withdrawAmountExceedsLimit);
+      await raffleTicketPurchase.withdrawExcessTokens(await purchaseToken.getAddress(), excess, owner.address);
+
+      await raffleTicketPurchase.cancel();
+      await expect(raffleTicketPurchase.connect(buyer).claimRefund()).to.changeTokenBalance(purchaseToken, buyer, buyerPaid);
+      await expect(raffleTicketPurchase.connect(otherBuyer).claimRefund()).to.changeTokenBalance(purchaseToken, otherBuyer, 3n * fullPrice);
+      expect((await raffleTicketPurchase.sale()).totalPaid).to.equal(0);
+      expect(await purchaseToken.balanceOf(await raffleTicketPurchase.getAddress())).to.equal(0);
+    });
+
+    it("Should pay the referral fees on the amount paid for the referred tickets", async function () {
+      const { purchaseToken, referralRegistry, owner, buyer, otherBuyer, referrer } = await loadFixture(deployPricingFixture);
+      const pricing = { priceWindows: [], discountTiers: [discountTier(100n, 2_000n)] };
+      const raffleTicketPurchase = await deployPricedRaffleTicketPurchase(purchaseToken, pricing, [buyer, otherBuyer], await referralRegistry.getAddress());
+      const fullPrice = await raffleTicketPurchase.ticketPrice();
+
+      await raffleTicketPurchase.connect(buyer).purchaseTickets(personalMaxCap, "refCode");
+      await raffleTicketPurchase.connect(otherBuyer).purchaseTickets(minCap - personalMaxCap, ZeroAddress);
+      const referredPaid = BigInt(personalMaxCap) * applyDiscount(fullPrice, 2_000n);
+      const referralFees = (referredPaid * referralFeeBps) / 10_000n;
+      expect(await raffleTicketPurchase.referralFeesOf(referrer.address)).to.equal(referralFees);
+
+      await time.increase(openSalePeriod);
+      const totalPaid = (await raffleTicketPurchase.sale()).totalPaid;
+      await expect(raffleTicketPurchase.withdrawFunds(owner.address)).to.changeTokenBalance(purchaseToken, owner, totalPaid - referralFees);
+      await expect(raffleTicketPurchase.connect(referrer).claimReferralFees()).to.changeTokenBalance(purchaseToken, referrer, referralFees);
+    });
+  });
+
+  describe("Granted Tickets", function () {
+    const maxGrantedTickets = 10n;
+
+    async function deployGrantFixture() {
+      const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+      const [buyer, grantee, otherGrantee] = otherAccounts;
+
+      const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+      await purchaseToken.transfer(buyer.address, parseUnits("100000", await purchaseToken.decimals()));
+
+      const raffleTicketPurchase = await deployGrantingRaffleTicketPurchase(purchaseToken, maxGrantedTickets);
+      await purchaseToken.connect(buyer).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+
+      return { raffleTicketPurchase, purchaseToken, owner, buyer, grantee, otherGrantee };
+    }
+
+    const deployGrantingRaffleTicketPurchase = async (purchaseToken: PurchaseToken, maxGranted: bigint) => {
+      const now = (await time.latest()) + 3;
+      return deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+        0,
+        await purchaseToken.getAddress(),
+        ticketPrice,
+        now,
+        now + openSalePeriod,
+        minCap,
+        maxCap,
+        personalMaxCap,
+        "0x31",
+        ZeroAddress,
+        0,
+        [],
+        ZeroAddress,
+        OPEN_SALE,
+        FLAT_PRICING,
+        maxGranted,
+      ]);
+    };
+
+    it("Should fail deployment when the granted tickets could overflow the ticket ledger", async function () {
+      const { purchaseToken } = await loadFixture(deployGrantFixture);
+      const maxGranted = 2n ** 96n - 1n - BigInt(maxCap) + 1n;
+
+      await expect(deployGrantingRaffleTicketPurchase(purchaseToken, maxGranted)).to.be.revertedWithCustomError(
+        await hre.ethers.getContractFactory("RaffleTicketPurchase"),
+        errors.invalidCaps
+      );
+    });
+
+    it("Should only let the owner grant tickets, up to the maximum granted tickets", async function () {
+      const { raffleTicketPurchase, grantee, otherGrantee } = await loadFixture(deployGrantFixture);
+
+      await expect(raffleTicketPurchase.connect(grantee).grantTickets([grantee.address], 1)).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.callerNotOwner
+      );
+      await expect(raffleTicketPurchase.grantTickets([grantee.address], 0)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidTicketAmount);
+      await expect(raffleTicketPurchase.grantTickets([ZeroAddress], 1)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.wrongParticipants);
+
+      await expect(raffleTicketPurchase.grantTickets([grantee.address, otherGrantee.address], 4))
+        .to.emit(raffleTicketPurchase, "TicketsGranted")
+        .withArgs(0, grantee.address, 4)
+        .and.to.emit(raffleTicketPurchase, "TicketsGranted")
+        .withArgs(0, otherGrantee.address, 4);
+      await expect(raffleTicketPurchase.grantTickets([grantee.address], 3)).to.be.revertedWithCustomError(
+        raffleTicketPurchase,
+        errors.maxGrantedTicketsReached
+      );
+      await raffleTicketPurchase.grantTickets([grantee.address], 2);
+
+      expect((await raffleTicketPurchase.accounts(grantee.address)).ticketsGranted).to.equal(6);
+      expect((await raffleTicketPurchase.sale()).totalGrantedTickets).to.equal(maxGrantedTickets);
+    });
+
+    it("Should stop granting tickets once the sale finishes or the raffle is canceled", async function () {
+      const { raffleTicketPurchase, purchaseToken, grantee } = await loadFixture(deployGrantFixture);
+
+      await raffleTicketPurchase.cancel();
+      await expect(raffleTicketPurchase.grantTickets([grantee.address], 1)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.raffleNotActive);
+
+      const finishedRaffleTicketPurchase = await deployGrantingRaffleTicketPurchase(purchaseToken, maxGrantedTickets);
+      await time.increase(openSalePeriod + 1);
+      await expect(finishedRaffleTicketPurchase.grantTickets([grantee.address], 1)).to.be.revertedWithCustomError(
+        finishedRaffleTicketPurchase,
+        errors.raffleNotActive
+      );
+    });
+
+    it("Should record the granted tickets in the ticket ledger alongside the tickets sold", async function () {
+      const { raffleTicketPurchase, buyer, grantee } = await loadFixture(deployGrantFixture);
+
+      await raffleTicketPurchase.connect(buyer).purchaseTickets(2, ZeroAddress);
+      await raffleTicketPurchase.grantTickets([grantee.address], 3);
+      await raffleTicketPurchase.connect(buyer).purchaseTickets(1, ZeroAddress);
+
+      expect(await raffleTicketPurchase.totalTicketsSold()).to.equal(3);
+      expect(await raffleTicketPurchase.totalTickets()).to.equal(6);
+      const expectedOwners = [buyer, buyer, grantee, grantee, grantee, buyer].map((account) => account.address);
+      for (const [ticketIndex, expectedOwner] of expectedOwners.entries()) {
+        expect(await raffleTicketPurchase.ticketOwner(ticketIndex)).to.equal(expectedOwner);
+      }
+      await expect(raffleTicketPurchase.ticketOwner(expectedOwners.length)).to.be.revertedWithCustomError(raffleTicketPurchase, errors.invalidTicketIndex);
+    });
+
+    it("Should neither count the granted tickets toward the success of the sale nor refund them", async function () {
+      const { raffleTicketPurchase, purchaseToken, buyer, grantee } = await loadFixture(deployGrantFixture);
+
+      await raffleTicketPurchase.connect(buyer).purchaseTickets(personalMaxCap, ZeroAddress);
+      await raffleTicketPurchase.grantTickets([grantee.address], maxGrantedTickets);
+      await time.increase(openSalePeriod);
+
+      expect(await raffleTicketPurchase.isSuccessful()).to.be.false;
+      await expect(raffleTicketPurchase.connect(grantee).claimRefund()).to.be.revertedWithCustomError(raffleTicketPurchase, errors.refundNotAvailable);
+      await expect(raffleTicketPurchase.connect(buyer).claimRefund()).to.changeTokenBalance(
+        purchaseToken,
+        buyer,
+        BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice())
+      );
+    });
+  });
+
   describe("Handling Edge Cases", function () {
     let raffleTicketPurchase: RaffleTicketPurchase;
     let purchaseToken: PurchaseToken;
@@ -420,7 +1803,7 @@ describe("RaffleTicketPurchase", function () {
     });
 
     it("Should handle correctly a raffle without soft cap", async function () {
-      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 1;
+      const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
       const _finishTimestamp = now + 86400;
       const _ticketPrice = 50;
       const _minTickets = 1000;
@@ -428,7 +1811,7 @@ describe("RaffleTicketPurchase", function () {
       const _personalMaxTickets = 50;
 
 
-      const raffleTicketPurchase = await hre.ethers.deployContract("RaffleTicketPurchase", [
+      const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
         0,
         await purchaseToken.getAddress(),
         _ticketPrice,
@@ -437,7 +1820,14 @@ describe("RaffleTicketPurchase", function () {
         _minTickets,
         _maxTickets,
         _personalMaxTickets,
-        "0x31"
+        "0x31",
+        ZeroAddress,
+        0,
+        [],
+        ZeroAddress,
+        OPEN_SALE,
+        FLAT_PRICING,
+        0,
       ]);
 
       await buyAllTickets(_maxTickets - 1, _personalMaxTickets, BigInt(_ticketPrice), purchaseToken, raffleTicketPurchase, otherAccounts);
@@ -0,0 +1,115 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { maxCap, minCap, openSalePeriod, personalMaxCap, ticketPrice } from "../config/config";
+import { id, MaxUint256, ZeroAddress } from "ethers";
+import { buildReferralReport } from "../scripts/referralReport";
+import { deployInitializedClone, FLAT_PRICING, OPEN_SALE } from "../scripts/utils";
+
+describe("ReferralReport", function () {
+  const referralFeeBps = 500;
+
+  async function deployRaffleTicketPurchaseFixture() {
+    const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+    const referrers = otherAccounts.slice(5, 7);
+
+    const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+    const referralRegistry = await hre.ethers.deployContract("MockReferralRegistry");
+    await referralRegistry.setReferrer("alice", referrers[0].address);
+    await referralRegistry.setReferrer("alice2", referrers[0].address);
+    await referralRegistry.setReferrer("bob", referrers[1].address);
+
+    const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+
+    const raffleTicketPurchase = await deployInitializedClone(await hre.ethers.getContractFactory("RaffleTicketPurchase"), [
+      0,
+      await purchaseToken.getAddress(),
+      ticketPrice,
+      now,
+      now + openSalePeriod,
+      minCap,
+      maxCap,
+      personalMaxCap,
+      "0x31",
+      await referralRegistry.getAddress(),
+      referralFeeBps,
+      [],
+      ZeroAddress,
+      OPEN_SALE,
+      FLAT_PRICING,
+      0,
+    ]);
+
+    const buyers = otherAccounts.slice(0, 3);
+    for (const buyer of buyers) {
+      await purchaseToken.transfer(buyer.address, BigInt(personalMaxCap) * (await raffleTicketPurchase.ticketPrice()));
+      await purchaseToken.connect(buyer).approve(await raffleTicketPurchase.getAddress(), MaxUint256);
+    }
+
+    return { raffleTicketPurchase, owner, buyers, referrers };
+  }
+
+  it("Should aggregate referred purchases per referrer, most tickets first", async function () {
+    const { raffleTicketPurchase, buyers, referrers } = await loadFixture(deployRaffleTicketPurchaseFixture);
+
+    await raffleTicketPurchase.connect(buyers[0]).purchaseTickets(3, "bob");
+    await raffleTicketPurchase.connect(buyers[1]).purchaseTickets(5, "alice");
+    await raffleTicketPurchase.connect(buyers[2]).purchaseTickets(2, "alice2");
+    await raffleTicketPurchase.connect(buyers[0]).purchaseTickets(1, "carol");
+    await raffleTicketPurchase.connect(buyers[2]).purchaseTickets(1, "");
+
+    const report = await buildReferralReport(raffleTicketPurchase);
+    const feePerTicket = ((await raffleTicketPurchase.ticketPrice()) * BigInt(referralFeeBps)) / 10_000n;
+
+    expect(report.referralFeeBps).to.equal(referralFeeBps);
+    expect(report.totalReferredTickets).to.equal(10);
+    expect(report.referrers).to.deep.equal([
+      { referrer: referrers[0].address, codes: ["alice", "alice2"], purchasers: 2, tickets: 7n, fees: 7n * feePerTicket, feesClaimed: false },
+      { referrer: referrers[1].address, codes: ["bob"], purchasers: 1, tickets: 3n, fees: 3n * feePerTicket, feesClaimed: false },
+    ]);
+    expect([...report.unregisteredCodes]).to.deep.equal([["carol", 1n]]);
+  });
+
+  it("Should list the hashed codes of the purchases made before the clones as unregistered", async function () {
+    const [, buyer] = await hre.ethers.getSigners();
+    const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+    const now = ((await hre.ethers.provider.getBlock("latest"))?.timestamp || 0) + 3;
+    const raffleTicketPurchaseV1 = await hre.ethers.deployContract("RaffleTicketPurchaseV1", [
+      0,
+      await purchaseToken.getAddress(),
+      ticketPrice,
+      now,
+      now + openSalePeriod,
+      minCap,
+      maxCap,
+      personalMaxCap,
+      "0x31",
+    ]);
+    await purchaseToken.transfer(buyer.address, BigInt(personalMaxCap) * (await raffleTicketPurchaseV1.ticketPrice()));
+    await purchaseToken.connect(buyer).approve(await raffleTicketPurchaseV1.getAddress(), MaxUint256);
+
+    await raffleTicketPurchaseV1.connect(buyer).purchaseTickets(2, "alice");
+    await raffleTicketPurchaseV1.connect(buyer).purchaseTickets(1, "");
+
+    const report = await buildReferralReport(await hre.ethers.getContractAt("RaffleTicketPurchase", await raffleTicketPurchaseV1.getAddress()));
+
+    expect(report.referralFeeBps).to.equal(0);
+    expect(report.totalReferredTickets).to.equal(0);
+    expect(report.referrers).to.be.empty;
+    expect([...report.unregisteredCodes]).to.deep.equal([[id("alice"), 2n]]);
+  });
+
+  it("Should only report the purchases up to the requested block", async function () {
+    const { raffleTicketPurchase, buyers } = await loadFixture(deployRaffleTicketPurchaseFixture);
+
+    await raffleTicketPurchase.connect(buyers[0]).purchaseTickets(3, "bob");
+    const toBlock = await hre.ethers.provider.getBlockNumber();
+    await raffleTicketPurchase.connect(buyers[1]).purchaseTickets(5, "alice");
+
+    const report = await buildReferralReport(raffleTicketPurchase, { toBlock, batchSize: 2 });
+
+    expect(report.blockNumber).to.equal(toBlock);
+    expect(report.totalReferredTickets).to.equal(3);
+    expect(report.referrers.map((r) => r.tickets)).to.deep.equal([3n]);
+  });
+});
@@ -0,0 +1,75 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { id, ZeroAddress, ZeroHash } from "ethers";
+import { RaffleManager } from "../typechain-types";
+import { buildRoleAudit } from "../scripts/roleAudit";
+import { RAFFLE_MANAGER_ROLES, roleHash } from "../scripts/utils";
+
+describe("RoleAudit", function () {
+  async function deployRaffleManagerFixture() {
+    const [owner, ...otherAccounts] = await hre.ethers.getSigners();
+
+    const raffleTicketPurchaseImplementation = await hre.ethers.deployContract("RaffleTicketPurchase");
+    const raffleRewarderImplementation = await hre.ethers.deployContract("RaffleRewarder");
+
+    const RaffleManager = await hre.ethers.getContractFactory("RaffleManager");
+    const contractArgs = [ZeroAddress, await raffleTicketPurchaseImplementation.getAddress(), await raffleRewarderImplementation.getAddress()];
+    const raffleManager = (await hre.upgrades.deployProxy(RaffleManager, contractArgs, {
+      initializer: "initialize",
+    })) as unknown as RaffleManager;
+    const deploymentBlock = await hre.ethers.provider.getBlockNumber();
+
+    return { raffleManager, owner, otherAccounts, deploymentBlock };
+  }
+
+  it("Should mirror the role constants of the RaffleManager", async function () {
+    const { raffleManager } = await loadFixture(deployRaffleManagerFixture);
+
+    for (const role of RAFFLE_MANAGER_ROLES) {
+      expect(await raffleManager.getFunction(role)()).to.equal(roleHash(role));
+    }
+  });
+
+  it("Should list the current holders of every role", async function () {
+    const { raffleManager, owner, otherAccounts, deploymentBlock } = await loadFixture(deployRaffleManagerFixture);
+    const [creator, treasurer, formerTreasurer] = otherAccounts;
+
+    await raffleManager.grantRole(roleHash("RAFFLE_CREATOR_ROLE"), creator.address);
+    await raffleManager.grantRole(roleHash("TREASURER_ROLE"), formerTreasurer.address);
+    await raffleManager.grantRole(roleHash("TREASURER_ROLE"), treasurer.address);
+    await raffleManager.revokeRole(roleHash("TREASURER_ROLE"), formerTreasurer.address);
+    await raffleManager.renounceRole(roleHash("PAUSER_ROLE"), owner.address);
+    await raffleManager.grantRole(id("UNKNOWN_ROLE"), creator.address);
+    const creatorGrantBlock = deploymentBlock + 1;
+
+    const audit = await buildRoleAudit(raffleManager, { fromBlock: deploymentBlock, batchSize: 2 });
+    const holders = new Map(audit.roles.map((role) => [role.name, role.holders.map((holder) => holder.account)]));
+
+    expect(audit.owner).to.equal(owner.address);
+    expect(audit.roles.map((role) => role.name)).to.deep.equal([...RAFFLE_MANAGER_ROLES, id("UNKNOWN_ROLE")]);
+    expect(audit.roles.every((role) => role.adminRole === ZeroHash)).to.be.true;
+    expect(holders.get("DEFAULT_ADMIN_ROLE")).to.deep.equal([owner.address]);
+    expect(holders.get("RAFFLE_CREATOR_ROLE")).to.deep.equal([owner.address, creator.address]);
+    expect(holders.get("TREASURER_ROLE")).to.deep.equal([owner.address, treasurer.address]);
+    expect(holders.get("PAUSER_ROLE")).to.deep.equal([]);
+    expect(holders.get(id("UNKNOWN_ROLE"))).to.deep.equal([creator.address]);
+    expect(audit.roles[1].holders[1]).to.deep.equal({ account: creator.address, grantedBy: owner.address, grantedAtBlock: creatorGrantBlock });
+  });
+
+  it("Should only report the role changes up to the requested block", async function () {
+    const { raffleManager, owner, otherAccounts } = await loadFixture(deployRaffleManagerFixture);
+
+    await raffleManager.grantRole(roleHash("VRF_ADMIN_ROLE"), otherAccounts[0].address);
+    const toBlock = await hre.ethers.provider.getBlockNumber();
+    await raffleManager.revokeRole(roleHash("VRF_ADMIN_ROLE"), otherAccounts[0].address);
+
+    const audit = await buildRoleAudit(raffleManager, { toBlock });
+
+    expect(audit.blockNumber).to.equal(toBlock);
+    expect(audit.roles.find((role) => role.name === "VRF_ADMIN_ROLE")?.holders.map((holder) => holder.account)).to.deep.equal([
+      owner.address,
+      otherAccounts[0].address,
+    ]);
+  });
+});